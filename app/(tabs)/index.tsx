@@ -1,3 +1,4 @@
+import { useState } from 'react';
 import { StyleSheet, Pressable, View, ActionSheetIOS, Platform, Alert } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { router } from 'expo-router';
@@ -13,11 +14,19 @@ import Animated, {
 import { ThemedText } from '@/components/ThemedText';
 import { TutorialModal } from '@/components/TutorialModal';
 import { DailyChallengeCard } from '@/components/DailyChallengeCard';
+import { StudyCard } from '@/components/StudyCard';
 import { ProfileButton } from '@/components/ProfileButton';
+import { CollectionFilter } from '@/components/CollectionFilter';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { useTutorial } from '@/hooks/useTutorial';
 import { useDailyChallenge } from '@/hooks/useDailyChallenge';
+import { useGamePreferences } from '@/contexts/GamePreferencesContext';
 import { Colors } from '@/constants/Colors';
+import { ALL_GAME_VARIANTS, GAME_VARIANT_DEFINITIONS } from '@/constants/GameVariants';
+import { SPEED_GAME_MODE, SPEED_SECONDS_PER_QUESTION, SURVIVAL_LIVES } from '@/constants/Scoring';
+import { STUDY_GAME_MODE } from '@/constants/Study';
+import { SESSION_LENGTHS, getSessionLengthLabel } from '@/constants/SessionLengths';
+import { GameVariant, SessionLength } from '@/types/scripture';
 
 // Icon for dark mode (light colored icon)
 const darkModeIcon = require('@/assets/icons/splash-icon-light.png');
@@ -114,15 +123,68 @@ export default function HomeScreen() {
   const colorScheme = useColorScheme();
   const { showTutorial, dismissTutorial } = useTutorial();
   const { todayCompleted } = useDailyChallenge();
+  const {
+    selectedCollections,
+    toggleCollection,
+    multipleChoice,
+    setMultipleChoice,
+    gameVariant,
+    setGameVariant,
+    sessionLength,
+    setSessionLength,
+  } = useGamePreferences();
+  // Difficulty buttons start an endless survival run instead of a fixed session
+  const [survival, setSurvival] = useState(false);
 
   const handleModeSelect = (mode: 'easy' | 'medium' | 'hard') => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     router.push({
       pathname: '/game',
-      params: { mode }
+      params: {
+        mode,
+        ...(gameVariant !== 'reference' && { variant: gameVariant }),
+        ...(survival ? { survival: 'true' } : { length: String(sessionLength) }),
+      }
+    });
+  };
+
+  const handleStudyPress = () => {
+    router.push({
+      pathname: '/game',
+      params: { mode: STUDY_GAME_MODE, study: 'true' }
     });
   };
 
+  const handleSpeedRoundPress = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({
+      pathname: '/game',
+      params: { mode: SPEED_GAME_MODE, speed: 'true', length: String(sessionLength) }
+    });
+  };
+
+  const handleVariantSelect = (variant: GameVariant) => {
+    if (variant === gameVariant) return;
+    Haptics.selectionAsync();
+    setGameVariant(variant);
+  };
+
+  const handleSessionLengthSelect = (length: SessionLength) => {
+    if (length === sessionLength) return;
+    Haptics.selectionAsync();
+    setSessionLength(length);
+  };
+
+  const handleSurvivalToggle = () => {
+    Haptics.selectionAsync();
+    setSurvival(!survival);
+  };
+
+  const handleMultipleChoiceToggle = () => {
+    Haptics.selectionAsync();
+    setMultipleChoice(!multipleChoice);
+  };
+
   const handleChallengeCreate = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     router.push('/challenge/create');
@@ -172,6 +234,7 @@ export default function HomeScreen() {
       pathname: '/game',
       params: {
         mode: 'daily',
+        ...(gameVariant !== 'reference' && { variant: gameVariant }),
         ...(todayCompleted && { showResults: 'true' })
       }
     });
@@ -180,6 +243,7 @@ export default function HomeScreen() {
   // Warm accent color for Challenge section
   const warmAccent = colorScheme === 'dark' ? '#f59e0b' : '#b45309';
   const challengeRowBg = colorScheme === 'dark' ? 'rgba(245, 158, 11, 0.08)' : 'rgba(180, 83, 9, 0.06)';
+  const warmBorder = colorScheme === 'dark' ? 'rgba(245, 158, 11, 0.35)' : 'rgba(180, 83, 9, 0.25)';
 
   // Get the icon based on the color scheme
   const iconSource = colorScheme === 'dark' ? darkModeIcon : lightModeIcon;
@@ -221,6 +285,9 @@ export default function HomeScreen() {
         {/* Daily Challenge Card */}
         <DailyChallengeCard onPress={handleDailyChallengePress} />
 
+        {/* Spaced-repetition reviews due today */}
+        <StudyCard onPress={handleStudyPress} />
+
         {/* Challenge Friends row */}
         <AnimatedPressable
           style={[
@@ -245,6 +312,68 @@ export default function HomeScreen() {
         {/* Practice Mode section */}
         <ThemedText style={styles.sectionTitle}>Practice Mode</ThemedText>
 
+        {/* What the game asks for */}
+        <View style={styles.variantRow} accessibilityRole="radiogroup">
+          {ALL_GAME_VARIANTS.map((variant) => {
+            const definition = GAME_VARIANT_DEFINITIONS[variant];
+            const isSelected = variant === gameVariant;
+            return (
+              <Pressable
+                key={variant}
+                style={[
+                  styles.variantChip,
+                  isSelected
+                    ? { backgroundColor: warmAccent, borderColor: warmAccent }
+                    : { borderColor: warmBorder },
+                ]}
+                onPress={() => handleVariantSelect(variant)}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+                accessibilityLabel={definition.name}
+                accessibilityHint={definition.description}
+              >
+                <ThemedText
+                  style={[styles.variantText, { color: isSelected ? 'white' : warmAccent }]}
+                >
+                  {definition.name}
+                </ThemedText>
+              </Pressable>
+            );
+          })}
+        </View>
+
+        {/* Questions per session - survival runs go on until the lives run out */}
+        {!survival && (
+          <View style={styles.lengthRow} accessibilityRole="radiogroup">
+            <ThemedText style={styles.lengthLabel}>Questions</ThemedText>
+            {SESSION_LENGTHS.map((length) => {
+              const isSelected = length === sessionLength;
+              const label = getSessionLengthLabel(length);
+              return (
+                <Pressable
+                  key={label}
+                  style={[
+                    styles.variantChip,
+                    isSelected
+                      ? { backgroundColor: warmAccent, borderColor: warmAccent }
+                      : { borderColor: warmBorder },
+                  ]}
+                  onPress={() => handleSessionLengthSelect(length)}
+                  accessibilityRole="radio"
+                  accessibilityState={{ selected: isSelected }}
+                  accessibilityLabel={length === 'all' ? 'All scriptures' : `${label} questions`}
+                >
+                  <ThemedText
+                    style={[styles.variantText, { color: isSelected ? 'white' : warmAccent }]}
+                  >
+                    {label}
+                  </ThemedText>
+                </Pressable>
+              );
+            })}
+          </View>
+        )}
+
         {/* Segmented difficulty control */}
         <View style={styles.difficultyContainer}>
           {DIFFICULTY_OPTIONS.map(({ mode, label }, index) => (
@@ -259,6 +388,65 @@ export default function HomeScreen() {
             />
           ))}
         </View>
+
+        {/* Answer format - applies to reference games, the daily challenge and new challenges */}
+        {gameVariant === 'reference' && (
+          <Pressable
+            style={styles.optionRow}
+            onPress={handleMultipleChoiceToggle}
+            accessibilityRole="checkbox"
+            accessibilityState={{ checked: multipleChoice }}
+            accessibilityLabel="Multiple choice"
+            accessibilityHint="Double tap to answer by picking one of four references"
+          >
+            <Ionicons
+              name={multipleChoice ? 'checkbox' : 'square-outline'}
+              size={22}
+              color={multipleChoice ? warmAccent : colors.icon}
+            />
+            <ThemedText style={styles.optionText}>Multiple choice</ThemedText>
+          </Pressable>
+        )}
+
+        {/* Endless run that ends after the last life is lost */}
+        <Pressable
+          style={styles.optionRow}
+          onPress={handleSurvivalToggle}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: survival }}
+          accessibilityLabel="Survival"
+          accessibilityHint={`Double tap to keep playing until you miss ${SURVIVAL_LIVES} scriptures`}
+        >
+          <Ionicons
+            name={survival ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={survival ? warmAccent : colors.icon}
+          />
+          <ThemedText style={styles.optionText}>Survival · {SURVIVAL_LIVES} lives</ThemedText>
+        </Pressable>
+
+        {/* Timed round with its own high score and leaderboard */}
+        <Pressable
+          style={({ pressed }) => [styles.optionRow, pressed && { opacity: 0.6 }]}
+          onPress={handleSpeedRoundPress}
+          accessibilityRole="button"
+          accessibilityLabel="Speed round"
+          accessibilityHint={`Double tap to name the book of each passage within ${SPEED_SECONDS_PER_QUESTION} seconds`}
+        >
+          <Ionicons name="flash-outline" size={22} color={warmAccent} />
+          <ThemedText style={styles.optionText}>
+            Speed round · {SPEED_SECONDS_PER_QUESTION}s per book
+          </ThemedText>
+          <Ionicons name="chevron-forward" size={18} color={colors.icon} style={styles.optionChevron} />
+        </Pressable>
+
+        {/* Collection filter - applies to practice games and new challenges */}
+        <ThemedText style={[styles.sectionTitle, styles.collectionsTitle]}>Scriptures</ThemedText>
+        <CollectionFilter
+          selectedCollections={selectedCollections}
+          onToggle={toggleCollection}
+          colorScheme={colorScheme}
+        />
       </View>
 
       <TutorialModal visible={showTutorial} onDismiss={dismissTutorial} />
@@ -340,6 +528,51 @@ const styles = StyleSheet.create({
     marginBottom: 10,
     marginLeft: 4,
   },
+  collectionsTitle: {
+    marginTop: 24,
+  },
+  variantRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  variantChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  variantText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  lengthRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  lengthLabel: {
+    fontSize: 14,
+    opacity: 0.7,
+    marginRight: 4,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 14,
+    marginLeft: 4,
+  },
+  optionText: {
+    fontSize: 15,
+    marginLeft: 8,
+  },
+  optionChevron: {
+    marginLeft: 4,
+    opacity: 0.6,
+  },
   challengeRowText: {
     flex: 1,
     marginLeft: 12,
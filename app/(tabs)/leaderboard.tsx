@@ -32,23 +32,38 @@ import { useLeaderboard } from '@/hooks/useLeaderboard';
 import { useAuth } from '@/contexts/AuthContext';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { GameMode } from '@/types/scripture';
+import { LeaderboardMetric, ScoreCategory, SessionLength } from '@/types/scripture';
+import {
+  DEFAULT_SESSION_LENGTH,
+  SESSION_LENGTHS,
+  getScoreBoard,
+  getSessionLengthLabel,
+  getSurvivalBoard,
+  parseSessionLength,
+} from '@/constants/SessionLengths';
 import { Ionicons } from '@expo/vector-icons';
 import { useLocalSearchParams } from 'expo-router';
 
-type DifficultyTab = 'easy' | 'medium' | 'hard';
+type DifficultyTab = ScoreCategory;
 
 const TABS: { key: DifficultyTab; label: string }[] = [
   { key: 'easy', label: 'Easy' },
   { key: 'medium', label: 'Medium' },
   { key: 'hard', label: 'Hard' },
+  { key: 'speed', label: 'Speed' },
+];
+
+const METRICS: { key: LeaderboardMetric; label: string }[] = [
+  { key: 'score', label: 'Correct' },
+  { key: 'points', label: 'Points' },
+  { key: 'survival', label: 'Survival' },
 ];
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const TAB_CONTAINER_PADDING = 4;
 const TAB_CONTAINER_MARGIN = 16;
 const TAB_CONTAINER_WIDTH = SCREEN_WIDTH - TAB_CONTAINER_MARGIN * 2;
-const TAB_WIDTH = (TAB_CONTAINER_WIDTH - TAB_CONTAINER_PADDING * 2) / 3;
+const TAB_WIDTH = (TAB_CONTAINER_WIDTH - TAB_CONTAINER_PADDING * 2) / TABS.length;
 
 // Animated Number Counter Component
 function AnimatedCounter({ value, suffix = '' }: { value: number | string; suffix?: string }) {
@@ -152,10 +167,18 @@ function TabIndicator({ selectedIndex, colors }: { selectedIndex: number; colors
 export default function LeaderboardScreen() {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
-  const { difficulty } = useLocalSearchParams<{ difficulty?: GameMode }>();
+  const { difficulty, length } = useLocalSearchParams<{ difficulty?: ScoreCategory; length?: string }>();
   const [selectedDifficulty, setSelectedDifficulty] = useState<DifficultyTab>('easy');
-  const { entries, isLoading, error, userRank, refresh } = useLeaderboard(selectedDifficulty);
-  const { user, hasJoinedLeaderboard, localHighScores } = useAuth();
+  const [selectedMetric, setSelectedMetric] = useState<LeaderboardMetric>('score');
+  const [selectedLength, setSelectedLength] = useState<SessionLength>(DEFAULT_SESSION_LENGTH);
+  const scoreBoard = getScoreBoard(selectedDifficulty, selectedLength);
+  // Survival runs aren't tied to a session length, so each difficulty has one survival board
+  const selectedBoard =
+    selectedMetric === 'survival' && selectedDifficulty !== 'speed'
+      ? getSurvivalBoard(selectedDifficulty)
+      : scoreBoard;
+  const { entries, isLoading, error, userRank, refresh } = useLeaderboard(selectedBoard, selectedMetric);
+  const { user, hasJoinedLeaderboard, localHighScores, localHighPoints, localBestRuns } = useAuth();
   const [refreshing, setRefreshing] = useState(false);
   const [listKey, setListKey] = useState(0); // Key to force re-render for animations
 
@@ -164,10 +187,13 @@ export default function LeaderboardScreen() {
 
   // Pre-select difficulty tab based on navigation param
   useEffect(() => {
-    if (difficulty && ['easy', 'medium', 'hard'].includes(difficulty)) {
-      setSelectedDifficulty(difficulty as DifficultyTab);
+    if (difficulty && TABS.some((tab) => tab.key === difficulty)) {
+      setSelectedDifficulty(difficulty);
     }
-  }, [difficulty]);
+    if (length) {
+      setSelectedLength(parseSessionLength(length));
+    }
+  }, [difficulty, length]);
 
   const handleRefresh = async () => {
     setRefreshing(true);
@@ -180,10 +206,30 @@ export default function LeaderboardScreen() {
     if (tab !== selectedDifficulty) {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       setSelectedDifficulty(tab);
+      // Speed rounds have no survival runs to rank
+      if (tab === 'speed' && selectedMetric === 'survival') {
+        setSelectedMetric('score');
+      }
       setListKey(prev => prev + 1); // Force re-animation when switching tabs
     }
   };
 
+  const handleLengthPress = (sessionLength: SessionLength) => {
+    if (sessionLength !== selectedLength) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      setSelectedLength(sessionLength);
+      setListKey(prev => prev + 1);
+    }
+  };
+
+  const handleMetricPress = (metric: LeaderboardMetric) => {
+    if (metric !== selectedMetric) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      setSelectedMetric(metric);
+      setListKey(prev => prev + 1);
+    }
+  };
+
   const handleRetry = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     refresh();
@@ -215,6 +261,65 @@ export default function LeaderboardScreen() {
     );
   };
 
+  const renderMetricToggle = () => (
+    <View style={styles.metricRow}>
+      {METRICS.filter((metric) => selectedDifficulty !== 'speed' || metric.key !== 'survival').map((metric) => {
+        const isSelected = selectedMetric === metric.key;
+        return (
+          <TouchableOpacity
+            key={metric.key}
+            style={[
+              styles.metricChip,
+              { borderColor: isSelected ? colors.tint : colors.border },
+              isSelected && { backgroundColor: `${colors.tint}15` },
+            ]}
+            onPress={() => handleMetricPress(metric.key)}
+            activeOpacity={0.7}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: isSelected }}
+            accessibilityLabel={`Rank by ${metric.label.toLowerCase()}`}
+          >
+            <ThemedText
+              style={[styles.metricText, isSelected && { color: colors.tint }]}
+            >
+              {metric.label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderLengthToggle = () => (
+    <View style={styles.metricRow}>
+      {SESSION_LENGTHS.map((sessionLength) => {
+        const isSelected = selectedLength === sessionLength;
+        const label = getSessionLengthLabel(sessionLength);
+        return (
+          <TouchableOpacity
+            key={label}
+            style={[
+              styles.lengthChip,
+              { borderColor: isSelected ? colors.tint : colors.border },
+              isSelected && { backgroundColor: `${colors.tint}15` },
+            ]}
+            onPress={() => handleLengthPress(sessionLength)}
+            activeOpacity={0.7}
+            accessibilityRole="tab"
+            accessibilityState={{ selected: isSelected }}
+            accessibilityLabel={sessionLength === 'all' ? 'All-scripture sessions' : `${label}-question sessions`}
+          >
+            <ThemedText
+              style={[styles.metricText, isSelected && { color: colors.tint }]}
+            >
+              {label}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
   const renderEmptyState = () => (
     <View style={styles.emptyContainer}>
       <BouncingTrophy color={colors.text} />
@@ -261,11 +366,31 @@ export default function LeaderboardScreen() {
           </View>
           <View style={[styles.userStatDivider, { backgroundColor: colors.border }]} />
           <View style={styles.userStatItem}>
-            <ThemedText style={styles.userStatLabel}>High Score</ThemedText>
-            <View style={styles.scoreValueContainer}>
-              <AnimatedCounter value={localHighScores[selectedDifficulty]} suffix="" />
-              <ThemedText style={styles.scoreSuffix}>/10</ThemedText>
-            </View>
+            <ThemedText style={styles.userStatLabel}>
+              {selectedMetric === 'points'
+                ? 'Best Points'
+                : selectedMetric === 'survival'
+                  ? 'Best Run'
+                  : 'High Score'}
+            </ThemedText>
+            {selectedMetric === 'points' ? (
+              <View style={styles.scoreValueContainer}>
+                <AnimatedCounter value={localHighPoints[scoreBoard] ?? 0} suffix="" />
+                <ThemedText style={styles.scoreSuffix}>pts</ThemedText>
+              </View>
+            ) : selectedMetric === 'survival' && selectedDifficulty !== 'speed' ? (
+              <View style={styles.scoreValueContainer}>
+                <AnimatedCounter value={localBestRuns[selectedDifficulty]} suffix="" />
+                <ThemedText style={styles.scoreSuffix}>in a row</ThemedText>
+              </View>
+            ) : (
+              <View style={styles.scoreValueContainer}>
+                <AnimatedCounter value={localHighScores[scoreBoard] ?? 0} suffix="" />
+                {selectedLength !== 'all' && (
+                  <ThemedText style={styles.scoreSuffix}>/{selectedLength}</ThemedText>
+                )}
+              </View>
+            )}
           </View>
         </LinearGradient>
       </View>
@@ -290,6 +415,10 @@ export default function LeaderboardScreen() {
           {TABS.map((tab, index) => renderTab(tab, index))}
         </View>
 
+        {renderMetricToggle()}
+
+        {selectedMetric !== 'survival' && renderLengthToggle()}
+
         {renderUserStats()}
 
         {error ? (
@@ -326,6 +455,7 @@ export default function LeaderboardScreen() {
                 rank={index + 1}
                 isCurrentUser={user?.uid === item.documentId}
                 index={index}
+                metric={selectedMetric}
               />
             )}
             ListEmptyComponent={renderEmptyState}
@@ -393,6 +523,29 @@ const styles = StyleSheet.create({
   tabTextSelected: {
     color: 'white',
   },
+  metricRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginHorizontal: TAB_CONTAINER_MARGIN,
+    marginBottom: 12,
+  },
+  metricChip: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  lengthChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+    borderRadius: 14,
+    borderWidth: 1,
+  },
+  metricText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
   userStatsWrapper: {
     marginHorizontal: 16,
     marginBottom: 12,
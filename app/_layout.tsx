@@ -12,6 +12,7 @@ import * as ExpoLinking from 'expo-linking';
 import { Colors } from '@/constants/Colors';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { AuthProvider } from '@/contexts/AuthContext';
+import { GamePreferencesProvider } from '@/contexts/GamePreferencesContext';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { usePushNotifications } from '@/hooks/usePushNotifications';
 
@@ -112,7 +113,9 @@ export default function RootLayout() {
   return (
     <AuthProvider>
       <ThemeProvider>
-        <RootLayoutNav />
+        <GamePreferencesProvider>
+          <RootLayoutNav />
+        </GamePreferencesProvider>
       </ThemeProvider>
     </AuthProvider>
   );
@@ -13,14 +13,24 @@ import { ThemedText } from '@/components/ThemedText';
 import { ThemedView } from '@/components/ThemedView';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
+import { useGamePreferences } from '@/contexts/GamePreferencesContext';
 import { GameMode, QuestionCount } from '@/types/scripture';
 import { getChallengeGradientColors, capitalize } from '@/utils/styleUtils';
-import { getScripturesForChallenge, generateChallengeCode } from '@/utils/scriptureUtils';
+import { getGameFormatLabel } from '@/constants/GameVariants';
+import {
+  getScripturesForChallenge,
+  generateChallengeCode,
+  getCollectionsLabel,
+} from '@/utils/scriptureUtils';
 
 type Step = 'difficulty' | 'questions';
 
 export default function CreateChallengeScreen() {
   const colorScheme = useColorScheme();
+  const { selectedCollections, multipleChoice, gameVariant } = useGamePreferences();
+  // Multiple choice only applies to reference questions
+  const challengeMultipleChoice = gameVariant === 'reference' && multipleChoice;
+  const formatLabel = getGameFormatLabel(gameVariant, challengeMultipleChoice);
 
   const [step, setStep] = useState<Step>('difficulty');
   const [selectedDifficulty, setSelectedDifficulty] = useState<GameMode | null>(null);
@@ -39,18 +49,22 @@ export default function CreateChallengeScreen() {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
 
     // Generate scriptures locally - don't save to Firestore yet
+    // Both players share the same pool since the scripture ids are stored with the challenge
     const challengeCode = generateChallengeCode();
-    const scriptures = getScripturesForChallenge(challengeCode, count);
+    const scriptures = getScripturesForChallenge(challengeCode, count, selectedCollections);
 
-    // Navigate to game with scriptures data (challenge created after playing)
+    // Navigate to game with the scripture ids (challenge created after playing)
     router.replace({
       pathname: '/game',
       params: {
         mode: selectedDifficulty,
         challengeMode: 'creating',
         challengeCode,
-        scriptures: JSON.stringify(scriptures),
+        scriptureIds: JSON.stringify(scriptures.map((scripture) => scripture.id)),
         questionCount: count.toString(),
+        collections: selectedCollections.join(','),
+        multipleChoice: String(challengeMultipleChoice),
+        variant: gameVariant,
       },
     });
   };
@@ -61,6 +75,10 @@ export default function CreateChallengeScreen() {
       <ThemedText style={styles.stepSubtitle}>
         Choose the challenge difficulty for you and your friend
       </ThemedText>
+      <ThemedText style={styles.collectionsNote}>
+        Scriptures: {getCollectionsLabel(selectedCollections)}
+        {formatLabel && ` · ${formatLabel}`}
+      </ThemedText>
 
       {(['easy', 'medium', 'hard'] as GameMode[]).map((mode) => {
         const description =
@@ -194,6 +212,13 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     paddingHorizontal: 20,
   },
+  collectionsNote: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginTop: -20,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
   buttonContainer: {
     width: '100%',
     marginBottom: 16,
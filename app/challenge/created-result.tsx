@@ -24,6 +24,9 @@ import ConfettiCannon from 'react-native-confetti-cannon';
 
 import { ThemedText } from '@/components/ThemedText';
 import { GradientButton } from '@/components/GradientButton';
+import { getCollectionsLabel } from '@/utils/scriptureUtils';
+import { getScripturesByIds } from '@/data/scriptureData';
+import { ALL_GAME_VARIANTS, getGameFormatLabel } from '@/constants/GameVariants';
 
 // Module-level constants to prevent re-render issues
 const CONFETTI_ORIGIN = { x: -10, y: 0 };
@@ -32,19 +35,22 @@ import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { useChallenge } from '@/hooks/useChallenge';
 import { capitalize, getScoreColorByRatio } from '@/utils/styleUtils';
-import { Scripture, GameMode, QuestionCount } from '@/types/scripture';
+import { Scripture, GameMode, GameVariant, QuestionCount, ScriptureCollection } from '@/types/scripture';
 
 export default function CreatedResultScreen() {
   const colorScheme = useColorScheme();
-  // Accept both saved challenge params (challengeId) and unsaved challenge params (scriptures, difficulty, challengeCode)
-  const { challengeId, score, questionCount, scriptures, difficulty, challengeCode } = useLocalSearchParams<{
+  // Accept both saved challenge params (challengeId) and unsaved challenge params (scriptureIds, difficulty, challengeCode)
+  const { challengeId, score, questionCount, scriptureIds, difficulty, challengeCode, collections, multipleChoice, variant } = useLocalSearchParams<{
     challengeId?: string;
     score: string;
     questionCount: string;
     // Unsaved challenge params (coming directly from game.tsx)
-    scriptures?: string;
+    scriptureIds?: string;
     difficulty?: string;
     challengeCode?: string;
+    collections?: string;
+    multipleChoice?: string;
+    variant?: string;
   }>();
   const { challenge, isLoading, getChallengeDeepLink, createChallengeWithScore } = useChallenge(challengeId);
 
@@ -53,8 +59,8 @@ export default function CreatedResultScreen() {
 
   // Parse scriptures for unsaved challenges (memoized to prevent re-parsing on every render)
   const parsedScriptures = useMemo<Scripture[]>(
-    () => (scriptures ? JSON.parse(scriptures) : []),
-    [scriptures]
+    () => (scriptureIds ? getScripturesByIds(JSON.parse(scriptureIds)) : []),
+    [scriptureIds]
   );
 
   // Use ref + animated value for copy feedback to avoid state-based re-renders
@@ -69,6 +75,9 @@ export default function CreatedResultScreen() {
   // Refs for stable callback dependencies (avoids handleShare recreation)
   const challengeDataRef = useRef({ scoreNum: 0, totalNum: 0, challengeCode: '', difficulty: '' });
   const parsedScripturesRef = useRef<Scripture[]>([]);
+  const parsedCollectionsRef = useRef<ScriptureCollection[]>([]);
+  const isMultipleChoiceRef = useRef(false);
+  const variantRef = useRef<GameVariant>('reference');
 
   // Memoize colors to prevent object recreation on every render
   const colors = useMemo(() => Colors[colorScheme ?? 'light'], [colorScheme]);
@@ -90,6 +99,19 @@ export default function CreatedResultScreen() {
     () => challenge?.difficulty || difficulty || 'easy',
     [challenge?.difficulty, difficulty]
   );
+  const parsedCollections = useMemo<ScriptureCollection[]>(
+    () => (collections ? (collections.split(',').filter(Boolean) as ScriptureCollection[]) : []),
+    [collections]
+  );
+  const displayCollections = useMemo(
+    () => getCollectionsLabel(challenge?.collections ?? parsedCollections),
+    [challenge?.collections, parsedCollections]
+  );
+  const isMultipleChoice = challenge?.multipleChoice ?? multipleChoice === 'true';
+  const gameVariant: GameVariant =
+    challenge?.variant ??
+    (ALL_GAME_VARIANTS.includes(variant as GameVariant) ? (variant as GameVariant) : 'reference');
+  const formatLabel = getGameFormatLabel(gameVariant, isMultipleChoice);
 
   // Sync refs with current values for stable callback dependencies
   useEffect(() => {
@@ -100,7 +122,10 @@ export default function CreatedResultScreen() {
       difficulty: difficulty || 'easy',
     };
     parsedScripturesRef.current = parsedScriptures;
-  }, [scoreNum, totalNum, challengeCode, difficulty, parsedScriptures]);
+    parsedCollectionsRef.current = parsedCollections;
+    isMultipleChoiceRef.current = isMultipleChoice;
+    variantRef.current = gameVariant;
+  }, [scoreNum, totalNum, challengeCode, difficulty, parsedScriptures, parsedCollections, isMultipleChoice, gameVariant]);
 
   // Animation effect - runs only on mount to avoid re-triggering
   useEffect(() => {
@@ -172,6 +197,7 @@ export default function CreatedResultScreen() {
     // Read current values from refs to avoid stale closures
     const { scoreNum: currentScore, totalNum: currentTotal, challengeCode: currentCode, difficulty: currentDifficulty } = challengeDataRef.current;
     const currentScriptures = parsedScripturesRef.current;
+    const currentCollections = parsedCollectionsRef.current;
 
     // If this is an unsaved challenge, save it first
     if (isUnsavedChallenge && !savedChallengeId) {
@@ -183,6 +209,9 @@ export default function CreatedResultScreen() {
           difficulty: currentDifficulty as GameMode,
           questionCount: currentTotal as QuestionCount,
           scriptures: currentScriptures,
+          collections: currentCollections,
+          multipleChoice: isMultipleChoiceRef.current,
+          variant: variantRef.current,
           creatorScore: currentScore,
         });
 
@@ -209,9 +238,12 @@ export default function CreatedResultScreen() {
     const shareCode = challenge?.challengeCode || currentCode;
     const shareDifficulty = challenge?.difficulty || currentDifficulty;
 
+    const shareFormat = getGameFormatLabel(variantRef.current, isMultipleChoiceRef.current);
     const shareText =
       `I scored ${currentScore}/${currentTotal} on this Scripture Mastery challenge. Think you can beat me?\n\n` +
       `Difficulty: ${capitalize(shareDifficulty)}\n` +
+      `Scriptures: ${getCollectionsLabel(challenge?.collections ?? currentCollections)}\n` +
+      (shareFormat ? `Format: ${shareFormat}\n` : '') +
       `Use code: ${shareCode}\n\n` +
       `Or tap this link:\n${getChallengeDeepLink(shareCode)}`;
 
@@ -380,6 +412,10 @@ export default function CreatedResultScreen() {
                   <View style={styles.shareDetailBadge}>
                     <Text style={styles.shareDetailText}>{totalNum} Questions</Text>
                   </View>
+                  <Text style={styles.shareDetailDot}>•</Text>
+                  <View style={styles.shareDetailBadge}>
+                    <Text style={styles.shareDetailText}>{displayCollections}</Text>
+                  </View>
                 </View>
 
                 {/* App branding */}
@@ -457,7 +493,8 @@ export default function CreatedResultScreen() {
 
               {/* Metadata */}
               <ThemedText style={styles.metadata}>
-                {capitalize(displayDifficulty)} · {totalNum} Questions
+                {capitalize(displayDifficulty)} · {totalNum} Questions · {displayCollections}
+                {formatLabel && ` · ${formatLabel}`}
               </ThemedText>
             </Animated.View>
           </ScrollView>
@@ -641,6 +678,8 @@ const styles = StyleSheet.create({
   },
   shareDetailsRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
     alignItems: 'center',
     gap: 8,
     marginBottom: 12,
@@ -25,6 +25,8 @@ import { useChallenge } from '@/hooks/useChallenge';
 import { useAuth } from '@/contexts/AuthContext';
 import { Challenge, GameMode } from '@/types/scripture';
 import { getChallengeGradientColors, capitalize } from '@/utils/styleUtils';
+import { getCollectionsLabel } from '@/utils/scriptureUtils';
+import { getGameFormatLabel } from '@/constants/GameVariants';
 
 // Module-level constants to prevent re-render issues
 const GRADIENT_START = { x: 0, y: 0 };
@@ -80,6 +82,8 @@ export default function JoinChallengeScreen() {
       : [colors.tint, colors.tint + 'dd'] as const,
   [foundChallenge?.difficulty, colorScheme, colors.tint]);
 
+  const formatLabel = getGameFormatLabel(foundChallenge?.variant, foundChallenge?.multipleChoice);
+
   // Auto-search if code is provided via deep link
   useEffect(() => {
     const autoSearch = async () => {
@@ -292,6 +296,20 @@ export default function JoinChallengeScreen() {
               {foundChallenge?.questionCount} Questions
             </ThemedText>
           </View>
+          <View style={styles.detailRow}>
+            <Ionicons name="library-outline" size={20} color={colors.tint} />
+            <ThemedText style={styles.detailText}>
+              {getCollectionsLabel(foundChallenge?.collections)}
+            </ThemedText>
+          </View>
+          {formatLabel && (
+            <View style={styles.detailRow}>
+              <Ionicons name="list-outline" size={20} color={colors.tint} />
+              <ThemedText style={styles.detailText}>
+                {formatLabel}
+              </ThemedText>
+            </View>
+          )}
           {foundChallenge?.creatorScore !== undefined && (
             <View style={styles.detailRow}>
               <Ionicons name="trophy-outline" size={20} color={colors.tint} />
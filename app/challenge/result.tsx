@@ -27,6 +27,8 @@ import { useColorScheme } from '@/hooks/useColorScheme';
 import { useChallenge } from '@/hooks/useChallenge';
 import { useAuth } from '@/contexts/AuthContext';
 import { capitalize } from '@/utils/styleUtils';
+import { getCollectionsLabel } from '@/utils/scriptureUtils';
+import { getGameFormatLabel } from '@/constants/GameVariants';
 
 export default function ChallengeResultScreen() {
   const colorScheme = useColorScheme();
@@ -55,6 +57,7 @@ export default function ChallengeResultScreen() {
   const isComplete = challenge?.winnerDetermined === true ||
     (challenge?.creatorScore !== undefined && challenge?.challengerScore !== undefined);
   const waitingForOpponent = !isComplete && userScore !== undefined;
+  const formatLabel = getGameFormatLabel(challenge?.variant, challenge?.multipleChoice);
 
   useEffect(() => {
     // Animate in
@@ -218,6 +221,10 @@ export default function ChallengeResultScreen() {
                   <View style={styles.shareDetailBadge}>
                     <Text style={styles.shareDetailText}>{challenge.questionCount} Questions</Text>
                   </View>
+                  <Text style={styles.shareDetailDot}>•</Text>
+                  <View style={styles.shareDetailBadge}>
+                    <Text style={styles.shareDetailText}>{getCollectionsLabel(challenge.collections)}</Text>
+                  </View>
                 </View>
 
                 {/* Deep link */}
@@ -337,7 +344,8 @@ export default function ChallengeResultScreen() {
 
             {/* Metadata */}
             <ThemedText style={styles.metadata}>
-              {capitalize(challenge.difficulty)} · {challenge.questionCount} Questions
+              {capitalize(challenge.difficulty)} · {challenge.questionCount} Questions · {getCollectionsLabel(challenge.collections)}
+              {formatLabel && ` · ${formatLabel}`}
             </ThemedText>
           </Animated.View>
         </ThemedView>
@@ -540,6 +548,8 @@ const styles = StyleSheet.create({
   },
   shareDetailsRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
     alignItems: 'center',
     gap: 8,
     marginBottom: 12,
@@ -0,0 +1,412 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { StyleSheet, View, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { Stack, useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import { Ionicons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+import { getScriptureById } from "@/data/scriptureData";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useDailyChallenge } from "@/hooks/useDailyChallenge";
+import { DailyChallengeResult } from "@/types/scripture";
+import { getTodayDateString } from "@/utils/dateUtils";
+import { formatReference } from "@/utils/scriptureUtils";
+
+type DayStatus = "correct" | "wrong" | "frozen" | "missed" | "none";
+
+const WEEKDAY_LABELS = ["S", "M", "T", "W", "T", "F", "S"];
+
+const STATUS_LABELS: Record<Exclude<DayStatus, "none">, string> = {
+  correct: "Correct",
+  wrong: "Wrong",
+  frozen: "Frozen",
+  missed: "Missed",
+};
+
+// A month as year and 0-based month index, like Date uses
+interface Month {
+  year: number;
+  month: number;
+}
+
+const toMonth = (dateString: string): Month => ({
+  year: Number(dateString.slice(0, 4)),
+  month: Number(dateString.slice(5, 7)) - 1,
+});
+
+const shiftMonth = ({ year, month }: Month, by: number): Month => {
+  const date = new Date(Date.UTC(year, month + by, 1));
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() };
+};
+
+const compareMonths = (a: Month, b: Month): number => a.year - b.year || a.month - b.month;
+
+// Day cells for a month, with nulls before the 1st so weeks start on Sunday
+const getMonthDays = ({ year, month }: Month): (string | null)[] => {
+  const leading = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  const dayCount = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const prefix = `${year}-${String(month + 1).padStart(2, "0")}`;
+  return [
+    ...Array<null>(leading).fill(null),
+    ...Array.from({ length: dayCount }, (_, i) => `${prefix}-${String(i + 1).padStart(2, "0")}`),
+  ];
+};
+
+const formatMonth = ({ year, month }: Month): string =>
+  new Date(year, month, 1).toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+const formatDay = (dateString: string): string => {
+  const { year, month } = toMonth(dateString);
+  return new Date(year, month, Number(dateString.slice(8, 10))).toLocaleDateString(undefined, {
+    weekday: "long",
+    month: "long",
+    day: "numeric",
+  });
+};
+
+// Days before the first one played aren't missed, and today isn't missed until it's over
+const getDayStatus = (
+  date: string,
+  entry: DailyChallengeResult | undefined,
+  firstDate: string | undefined,
+  today: string
+): DayStatus => {
+  if (entry) return entry.frozen ? "frozen" : entry.correct ? "correct" : "wrong";
+  if (firstDate && date > firstDate && date < today) return "missed";
+  return "none";
+};
+
+/**
+ * Daily challenge history as a calendar: each day marked correct, wrong, frozen or
+ * missed, with the streak summary above and the day's passage and answer below.
+ */
+export default function DailyHistoryScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { stats, history, isLoading, refreshStats } = useDailyChallenge();
+  const today = getTodayDateString();
+  const [visibleMonth, setVisibleMonth] = useState<Month>(() => toMonth(today));
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  useFocusEffect(
+    useCallback(() => {
+      refreshStats();
+    }, [refreshStats])
+  );
+
+  const firstDate = useMemo(() => Object.keys(history).sort()[0], [history]);
+  const earliestMonth = toMonth(firstDate ?? today);
+  const latestMonth = toMonth(today);
+  const canGoBack = compareMonths(visibleMonth, earliestMonth) > 0;
+  const canGoForward = compareMonths(visibleMonth, latestMonth) < 0;
+
+  const statusColors: Record<DayStatus, string> = {
+    correct: colors.success,
+    wrong: colors.error,
+    frozen: colors.info,
+    missed: colors.surfaceTertiary,
+    none: "transparent",
+  };
+
+  const handleMonthChange = (by: number) => {
+    Haptics.selectionAsync();
+    setVisibleMonth((month) => shiftMonth(month, by));
+    setSelectedDate(null);
+  };
+
+  const handleDayPress = (date: string) => {
+    Haptics.selectionAsync();
+    setSelectedDate((selected) => (selected === date ? null : date));
+  };
+
+  const selectedEntry = selectedDate ? history[selectedDate] : undefined;
+  // Only the passage a day was actually played with is shown; it isn't worked out again from the date
+  const selectedScripture = selectedEntry?.scriptureId ? getScriptureById(selectedEntry.scriptureId) : undefined;
+  const selectedStatus = selectedDate ? getDayStatus(selectedDate, selectedEntry, firstDate, today) : "none";
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ title: "Daily History" }} />
+        <ActivityIndicator size="large" color={colors.tint} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["left", "right", "bottom"]}>
+      <Stack.Screen
+        options={{
+          title: "Daily History",
+          headerBackTitle: "Back",
+          headerStyle: {
+            backgroundColor: colors.background,
+          },
+          headerTintColor: colors.tint,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryValue}>{stats.currentStreak}</ThemedText>
+            <ThemedText style={styles.summaryLabel}>current streak</ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryValue}>{stats.longestStreak}</ThemedText>
+            <ThemedText style={styles.summaryLabel}>longest streak</ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryValue}>{stats.streakFreezes ?? 0}</ThemedText>
+            <ThemedText style={styles.summaryLabel}>freezes</ThemedText>
+          </View>
+        </View>
+
+        <View style={styles.monthHeader}>
+          <TouchableOpacity
+            onPress={() => handleMonthChange(-1)}
+            disabled={!canGoBack}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Previous month"
+            accessibilityState={{ disabled: !canGoBack }}
+          >
+            <Ionicons name="chevron-back" size={22} color={canGoBack ? colors.tint : colors.border} />
+          </TouchableOpacity>
+          <ThemedText style={styles.monthTitle}>{formatMonth(visibleMonth)}</ThemedText>
+          <TouchableOpacity
+            onPress={() => handleMonthChange(1)}
+            disabled={!canGoForward}
+            hitSlop={8}
+            accessibilityRole="button"
+            accessibilityLabel="Next month"
+            accessibilityState={{ disabled: !canGoForward }}
+          >
+            <Ionicons name="chevron-forward" size={22} color={canGoForward ? colors.tint : colors.border} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.grid}>
+          {WEEKDAY_LABELS.map((label, i) => (
+            <View key={`weekday-${i}`} style={styles.cell}>
+              <ThemedText style={[styles.weekday, { color: colors.textSecondary }]}>{label}</ThemedText>
+            </View>
+          ))}
+          {getMonthDays(visibleMonth).map((date, i) => {
+            if (!date) return <View key={`blank-${i}`} style={styles.cell} />;
+
+            const status = getDayStatus(date, history[date], firstDate, today);
+            // Only past days and a finished today can be opened, so the passage isn't given away
+            const canOpen = date < today || (date === today && !!history[date]);
+            const isSelected = date === selectedDate;
+            const isFilled = status !== "none" && status !== "missed";
+            return (
+              <View key={date} style={styles.cell}>
+                <TouchableOpacity
+                  style={[
+                    styles.day,
+                    { backgroundColor: statusColors[status] },
+                    date === today && { borderColor: colors.tint, borderWidth: 2 },
+                    isSelected && { borderColor: colors.text, borderWidth: 2 },
+                  ]}
+                  onPress={() => handleDayPress(date)}
+                  disabled={!canOpen}
+                  activeOpacity={0.7}
+                  accessibilityRole="button"
+                  accessibilityLabel={`${formatDay(date)}${status === "none" ? "" : `, ${STATUS_LABELS[status]}`}`}
+                  accessibilityState={{ selected: isSelected, disabled: !canOpen }}
+                >
+                  {status === "frozen" ? (
+                    <Ionicons name="snow" size={14} color="white" />
+                  ) : (
+                    <ThemedText
+                      style={[
+                        styles.dayNumber,
+                        isFilled && { color: "white" },
+                        !canOpen && { color: colors.textSecondary },
+                      ]}
+                    >
+                      {Number(date.slice(8, 10))}
+                    </ThemedText>
+                  )}
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+
+        <View style={styles.legend}>
+          {(Object.keys(STATUS_LABELS) as Exclude<DayStatus, "none">[]).map((status) => (
+            <View key={status} style={styles.legendItem}>
+              <View style={[styles.legendSwatch, { backgroundColor: statusColors[status] }]} />
+              <ThemedText style={[styles.legendText, { color: colors.textSecondary }]}>
+                {STATUS_LABELS[status]}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+
+        {selectedDate && (
+          <View style={[styles.detailCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+            <View style={styles.detailHeader}>
+              <ThemedText style={styles.detailDate}>{formatDay(selectedDate)}</ThemedText>
+              {selectedStatus !== "none" && (
+                <ThemedText
+                  style={[
+                    styles.detailStatus,
+                    { color: selectedStatus === "missed" ? colors.textSecondary : statusColors[selectedStatus] },
+                  ]}
+                >
+                  {STATUS_LABELS[selectedStatus]}
+                </ThemedText>
+              )}
+            </View>
+            {selectedScripture ? (
+              <>
+                <ThemedText style={styles.detailText}>"{selectedScripture.text}"</ThemedText>
+                <ThemedText style={styles.detailReference}>{formatReference(selectedScripture.reference)}</ThemedText>
+              </>
+            ) : (
+              <ThemedText style={[styles.detailAnswer, { color: colors.textSecondary }]}>
+                Passage not recorded
+              </ThemedText>
+            )}
+            {selectedEntry && !selectedEntry.frozen && (
+              <ThemedText style={[styles.detailAnswer, { color: colors.textSecondary }]}>
+                {selectedEntry.guess !== undefined
+                  ? `You answered ${selectedEntry.guess.trim() || "—"}`
+                  : "Your answer from this day wasn't saved"}
+              </ThemedText>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    padding: 20,
+  },
+  summaryCard: {
+    flexDirection: "row",
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryValue: {
+    fontSize: 22,
+    lineHeight: 28,
+    fontWeight: "700",
+  },
+  summaryLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    textAlign: "center",
+  },
+  monthHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  monthTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+  },
+  grid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+  },
+  cell: {
+    width: `${100 / 7}%`,
+    aspectRatio: 1,
+    padding: 3,
+  },
+  weekday: {
+    fontSize: 12,
+    fontWeight: "600",
+    textAlign: "center",
+    lineHeight: 32,
+  },
+  day: {
+    flex: 1,
+    borderRadius: 8,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  dayNumber: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  legend: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 16,
+    marginTop: 12,
+    marginBottom: 24,
+  },
+  legendItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
+  },
+  legendSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 3,
+  },
+  legendText: {
+    fontSize: 12,
+  },
+  detailCard: {
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  detailHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 10,
+  },
+  detailDate: {
+    fontSize: 16,
+    fontWeight: "600",
+  },
+  detailStatus: {
+    fontSize: 14,
+    fontWeight: "700",
+  },
+  detailText: {
+    fontSize: 16,
+    lineHeight: 24,
+    fontFamily: "Times New Roman",
+  },
+  detailReference: {
+    fontSize: 15,
+    fontWeight: "600",
+    marginTop: 8,
+  },
+  detailAnswer: {
+    fontSize: 14,
+    marginTop: 4,
+  },
+});
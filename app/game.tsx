@@ -27,21 +27,78 @@ import { BadgeEarnedModal } from "@/components/BadgeEarnedModal";
 import { GradientButton } from "@/components/GradientButton";
 import { AnimatedResultCard } from "@/components/game/AnimatedResultCard";
 import { AnimatedInput } from "@/components/game/AnimatedInput";
+import { ReferencePicker } from "@/components/game/ReferencePicker";
+import { AnswerChoices } from "@/components/game/AnswerChoices";
+import { HintBar } from "@/components/game/HintBar";
+import { SessionReview } from "@/components/game/SessionReview";
+import { ClozeText } from "@/components/game/ClozeText";
+import { WordScramble } from "@/components/game/WordScramble";
 import { ScoreRing } from "@/components/game/ScoreRing";
-import { ProgressIndicator } from "@/components/game/ProgressIndicator";
+import { ProgressIndicator, LivesIndicator } from "@/components/game/ProgressIndicator";
 import { Colors } from "@/constants/Colors";
+import {
+  GOOD_SCORE_SHARE,
+  GREAT_SCORE_SHARE,
+  POINTS_PER_QUESTION,
+  SPEED_SECONDS_PER_QUESTION,
+  SPEED_MAX_BONUS,
+  SURVIVAL_LIVES,
+} from "@/constants/Scoring";
 import { useColorScheme } from "@/hooks/useColorScheme";
 import { useSound } from "@/hooks/useSound";
 import { useDailyChallenge } from "@/hooks/useDailyChallenge";
+import { useStudyQueue } from "@/hooks/useStudyQueue";
+import { useScriptureStats } from "@/hooks/useScriptureStats";
+import { useFavorites } from "@/hooks/useFavorites";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
 import { useChallenge } from "@/hooks/useChallenge";
-import { GameMode, Scripture, DailyChallengeBadge } from "@/types/scripture";
+import { useGamePreferences } from "@/contexts/GamePreferencesContext";
+import {
+  GameMode,
+  GameVariant,
+  HintKind,
+  ScoreBoard,
+  ScoreCategory,
+  Scripture,
+  DailyChallengeBadge,
+  ScriptureCollection,
+  GuessResult,
+  RecallResult,
+  ClozeResult,
+  ScrambleResult,
+  SessionAnswer,
+} from "@/types/scripture";
+import { ALL_GAME_VARIANTS, GAME_VARIANT_DEFINITIONS } from "@/constants/GameVariants";
+import { getHintPenalty } from "@/constants/Hints";
+import { STUDY_GAME_MODE } from "@/constants/Study";
 import {
-  getRandomScripture,
-  getNextRandomScripture,
-  checkGuess,
+  getScoreBoard,
+  getSessionQuestionCount,
+  getSurvivalBoard,
+  parseSessionLength,
+} from "@/constants/SessionLengths";
+import { getScripturesByCollections, getScripturesByIds } from "@/data/scriptureData";
+import {
+  drawUnseenScripture,
+  gradeGuess,
+  getCollectionsLabel,
+  getSpeedBonus,
+  getInvalidReferenceMessage,
+  getBookSuggestions,
+  formatReference,
+  getAnswerChoices,
 } from "@/utils/scriptureUtils";
+import { getTodayDateString } from "@/utils/dateUtils";
+import {
+  gradeRecall,
+  getClozePassage,
+  gradeCloze,
+  getScramblePuzzle,
+  gradeScramble,
+} from "@/utils/textUtils";
+import { getRecallQuality } from "@/utils/studyUtils";
+import { getAvailableHints } from "@/utils/hintUtils";
 import { Ionicons } from "@expo/vector-icons";
 import ConfettiCannon from "react-native-confetti-cannon";
 import { captureRef } from "react-native-view-shot";
@@ -58,8 +115,6 @@ import Animated, {
   Easing,
 } from "react-native-reanimated";
 
-const TOTAL_QUESTIONS = 3;
-
 const MIN_SCORE_FOR_LEADERBOARD = 0; // Minimum score to prompt for leaderboard
 
 // Animation constants for consistent spring physics
@@ -153,8 +208,17 @@ export default function GameScreen() {
     isCreator,
     challengeMode,
     challengeCode,
-    scriptures: scripturesParam,
+    scriptureIds: scriptureIdsParam,
     questionCount: questionCountParam,
+    collections: collectionsParam,
+    multipleChoice: multipleChoiceParam,
+    variant: variantParam,
+    speed: speedParam,
+    survival: survivalParam,
+    study: studyParam,
+    practice: practiceParam,
+    passages: passagesParam,
+    length: lengthParam,
     showResults,
   } = useLocalSearchParams<{
     mode: GameMode | 'daily';
@@ -162,8 +226,17 @@ export default function GameScreen() {
     isCreator?: string;
     challengeMode?: 'creating';
     challengeCode?: string;
-    scriptures?: string;
+    scriptureIds?: string;
     questionCount?: string;
+    collections?: string;
+    multipleChoice?: string;
+    variant?: GameVariant;
+    speed?: string;
+    survival?: string;
+    study?: string;
+    practice?: string;
+    passages?: string;
+    length?: string;
     showResults?: string;
   }>();
 
@@ -181,18 +254,54 @@ export default function GameScreen() {
   const isChallengeMode = !!challengeId;
   const isChallenger = isCreator === 'false';
 
-  // Creating challenge mode (scriptures passed as params, not yet saved to Firestore)
+  // Creating challenge mode (scripture ids passed as params, not yet saved to Firestore)
   const isCreatingChallenge = challengeMode === 'creating';
   const creatingScriptures: Scripture[] = React.useMemo(() => {
-    if (isCreatingChallenge && scripturesParam) {
+    if (isCreatingChallenge && scriptureIdsParam) {
       try {
-        return JSON.parse(scripturesParam);
+        return getScripturesByIds(JSON.parse(scriptureIdsParam));
       } catch {
         return [];
       }
     }
     return [];
-  }, [isCreatingChallenge, scripturesParam]);
+  }, [isCreatingChallenge, scriptureIdsParam]);
+
+  // Speed rounds put each question on the clock and keep their own high score
+  const isSpeed = speedParam === 'true' && !isDailyChallenge && !isChallengeMode && !isCreatingChallenge;
+  const scoreCategory: ScoreCategory = isSpeed ? 'speed' : effectiveMode;
+
+  // Survival runs keep serving scriptures until the player runs out of lives
+  const isSurvival = survivalParam === 'true' && !isSpeed && !isDailyChallenge && !isChallengeMode && !isCreatingChallenge;
+
+  // Other games play the chosen number of questions, with a high score for each length
+  const sessionLength = parseSessionLength(lengthParam);
+  const scoreBoard: ScoreBoard = isSurvival ? scoreCategory : getScoreBoard(scoreCategory, sessionLength);
+
+  // Study sessions review the passages that are due and reschedule each one by how well it was recalled
+  const isStudy = studyParam === 'true' && !isSpeed && !isSurvival && !isDailyChallenge && !isChallengeMode && !isCreatingChallenge;
+  const { isLoading: isStudyLoading, getStudyQueue, recordReview } = useStudyQueue();
+  const [studyQueue, setStudyQueue] = useState<Scripture[] | null>(null);
+
+  // Practice games replay the passages picked on the stats screen, in the order given
+  const isPractice = practiceParam === 'true' && !isStudy && !isSpeed && !isSurvival && !isDailyChallenge && !isChallengeMode && !isCreatingChallenge;
+  const practiceScriptures: Scripture[] = React.useMemo(() => {
+    if (!isPractice || !passagesParam) return [];
+    try {
+      return getScripturesByIds(JSON.parse(passagesParam));
+    } catch {
+      return [];
+    }
+  }, [isPractice, passagesParam]);
+  const { recordAnswer: recordPassageAnswer } = useScriptureStats();
+  const { addFavorites } = useFavorites();
+
+  // Collection filter - regular games draw from the player's selected collections
+  const { selectedCollections, strictSpelling, answerInput, multipleChoice } = useGamePreferences();
+  const scripturePool = React.useMemo(
+    () => getScripturesByCollections(selectedCollections),
+    [selectedCollections]
+  );
 
   // Daily challenge hook
   const {
@@ -205,19 +314,61 @@ export default function GameScreen() {
   const {
     nickname,
     hasJoinedLeaderboard,
+    localHighScores,
+    localBestRuns,
     isNewHighScore,
     updateHighScore,
+    updateHighPoints,
+    updateBestRun,
     joinLeaderboard
   } = useAuth();
-  const { submitScore } = useLeaderboard(effectiveMode);
+  const { submitScore, submitSurvival } = useLeaderboard(
+    isSurvival ? getSurvivalBoard(effectiveMode) : scoreBoard
+  );
 
   // Challenge hook
   const {
     challenge,
+    error: challengeError,
     submitCreatorScore,
     submitChallengerScore,
   } = useChallenge(challengeId);
 
+  // A challenge that can't be loaded or played sends the player back with the reason
+  useEffect(() => {
+    if (!isChallengeMode || !challengeError) return;
+    Alert.alert('Challenge Unavailable', challengeError, [
+      { text: 'OK', onPress: () => router.back() },
+    ]);
+  }, [isChallengeMode, challengeError]);
+
+  // Games can ask for the passage instead of the reference; challenges carry the creator's choice
+  const requestedVariant = isChallengeMode ? challenge?.variant : variantParam;
+  const variant: GameVariant =
+    requestedVariant && ALL_GAME_VARIANTS.includes(requestedVariant) ? requestedVariant : 'reference';
+  const isReverse = variant === 'reverse';
+  const isCloze = variant === 'cloze';
+  const isScramble = variant === 'scramble';
+
+  // Collections shown on the result and share cards
+  const gameCollections: ScriptureCollection[] = isCreatingChallenge
+    ? ((collectionsParam?.split(',').filter(Boolean) ?? []) as ScriptureCollection[])
+    : isChallengeMode
+      ? (challenge?.collections ?? [])
+      : selectedCollections;
+
+  // Challenges carry their own format so both players answer the same way
+  const isMultipleChoice = variant === 'reference' && !isSpeed && !isStudy && (isCreatingChallenge
+    ? multipleChoiceParam === 'true'
+    : isChallengeMode
+      ? !!challenge?.multipleChoice
+      : multipleChoice);
+
+  // Typed answers graded on the full reference, as in a study session, reschedule the passage for study.
+  // Easier difficulties and picked choices would make a partial recall look perfect; speed bonuses would too.
+  const schedulesStudyReviews =
+    variant === 'reference' && effectiveMode === STUDY_GAME_MODE && !isMultipleChoice && !isSpeed;
+
   // Challenge scriptures and question tracking
   const [challengeScriptureIndex, setChallengeScriptureIndex] = useState(0);
   const totalQuestions = isDailyChallenge
@@ -226,7 +377,18 @@ export default function GameScreen() {
       ? parseInt(questionCountParam, 10)
       : isChallengeMode && challenge
         ? challenge.questionCount
-        : TOTAL_QUESTIONS;
+        : isStudy
+          ? (studyQueue?.length ?? 0)
+          : isPractice
+            ? practiceScriptures.length
+            : getSessionQuestionCount(sessionLength, scripturePool.length);
+
+  // The study queue is fixed when the session starts so reviews don't reshuffle it
+  useEffect(() => {
+    if (isStudy && !isStudyLoading && studyQueue === null) {
+      setStudyQueue(getStudyQueue(scripturePool));
+    }
+  }, [isStudy, isStudyLoading, studyQueue, getStudyQueue, scripturePool]);
 
   const [currentScripture, setCurrentScripture] = useState<Scripture | null>(
     null
@@ -237,6 +399,15 @@ export default function GameScreen() {
   const [loading, setLoading] = useState(false);
   const [questionCount, setQuestionCount] = useState(1);
   const [correctCount, setCorrectCount] = useState(0);
+  // Result tiers go by the share of the session answered correctly, so they mean the same at any length
+  const scoreShare = totalQuestions > 0 ? correctCount / totalQuestions : 0;
+  const isGreatScore = !isSurvival && !isDailyChallenge && scoreShare >= GREAT_SCORE_SHARE;
+  // Partial-credit points for the last guess and the whole session
+  const [lastResult, setLastResult] = useState<GuessResult | null>(null);
+  const [lastRecall, setLastRecall] = useState<RecallResult | null>(null);
+  const [lastCloze, setLastCloze] = useState<ClozeResult | null>(null);
+  const [lastScramble, setLastScramble] = useState<ScrambleResult | null>(null);
+  const [sessionPoints, setSessionPoints] = useState(0);
   const [sessionComplete, setSessionComplete] = useState(showingDailyResults);
   const [showSummaryCard, setShowSummaryCard] = useState(showingDailyResults);
   const [showLeaderboardPrompt, setShowLeaderboardPrompt] = useState(false);
@@ -245,6 +416,76 @@ export default function GameScreen() {
   const [showBadgeModal, setShowBadgeModal] = useState(false);
   const [currentBadgeIndex, setCurrentBadgeIndex] = useState(0);
   const [inputShouldShake, setInputShouldShake] = useState(false);
+  // Explanation for a guess that can't exist (e.g. "Alma has only 63 chapters")
+  const [referenceProblem, setReferenceProblem] = useState<string | null>(null);
+  // Hints taken on the current question
+  const [usedHints, setUsedHints] = useState<HintKind[]>([]);
+  // Every answer this session, for the review on the summary card
+  const [sessionAnswers, setSessionAnswers] = useState<SessionAnswer[]>([]);
+  const [missedFavorited, setMissedFavorited] = useState(false);
+  // Speed round clock for the current question
+  const [secondsLeft, setSecondsLeft] = useState(SPEED_SECONDS_PER_QUESTION);
+  const [timedOut, setTimedOut] = useState(false);
+  const [lastSpeedBonus, setLastSpeedBonus] = useState(0);
+  // Survival lives
+  const [livesLeft, setLivesLeft] = useState(SURVIVAL_LIVES);
+  // Scriptures already served this session, so none repeat
+  const drawnScripturesRef = useRef(new Set<string>());
+
+  // Seed for per-question randomness, shared by everyone playing the same daily or challenge
+  const activeChallengeCode = isCreatingChallenge ? challengeCode : challenge?.challengeCode;
+  const questionSeed = React.useMemo(() => {
+    if (!currentScripture) return '';
+    return isDailyChallenge
+      ? `daily-${getTodayDateString()}`
+      : activeChallengeCode
+        ? `${activeChallengeCode}-${challengeScriptureIndex}`
+        : `${currentScripture.text}-${Math.random()}`;
+  }, [currentScripture, isDailyChallenge, activeChallengeCode, challengeScriptureIndex]);
+
+  // Multiple-choice options, seeded so both challenge players see the same ones
+  const answerChoices = React.useMemo(() => {
+    if (!isMultipleChoice || !currentScripture) return [];
+    return getAnswerChoices(currentScripture, effectiveMode, questionSeed);
+  }, [isMultipleChoice, currentScripture, effectiveMode, questionSeed]);
+
+  // Fill-in-the-blank passage and the words typed into each blank
+  const clozePassage = React.useMemo(() => {
+    if (!isCloze || !currentScripture) return null;
+    return getClozePassage(currentScripture.text, effectiveMode, questionSeed);
+  }, [isCloze, currentScripture, effectiveMode, questionSeed]);
+  const [clozeAnswers, setClozeAnswers] = useState<string[]>([]);
+  const [activeBlank, setActiveBlank] = useState(0);
+
+  useEffect(() => {
+    setClozeAnswers(Array(clozePassage?.blanks.length ?? 0).fill(''));
+    setActiveBlank(0);
+  }, [clozePassage]);
+
+  // Hints help with reference questions, but not in games everyone must play on equal terms
+  const hintsAllowed = variant === 'reference' && !isDailyChallenge && !isChallengeMode && !isCreatingChallenge;
+  const availableHints = React.useMemo(
+    () => (hintsAllowed && currentScripture ? getAvailableHints(currentScripture, effectiveMode) : []),
+    [hintsAllowed, currentScripture, effectiveMode]
+  );
+
+  // Word scramble tiles, timed from when the puzzle appears
+  const scramblePuzzle = React.useMemo(() => {
+    if (!isScramble || !currentScripture) return null;
+    return getScramblePuzzle(currentScripture.text, effectiveMode, questionSeed);
+  }, [isScramble, currentScripture, effectiveMode, questionSeed]);
+  const scrambleStartRef = useRef(0);
+
+  useEffect(() => {
+    scrambleStartRef.current = Date.now();
+  }, [scramblePuzzle]);
+
+  // When the current question appeared, for answer times in the passage stats
+  const questionStartRef = useRef(0);
+
+  useEffect(() => {
+    questionStartRef.current = Date.now();
+  }, [currentScripture]);
 
   // Track answers for progress indicator
   const [answerHistory, setAnswerHistory] = useState<('correct' | 'incorrect' | 'pending')[]>(
@@ -261,6 +502,8 @@ export default function GameScreen() {
   const submitTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const inputRef = useRef<TextInput>(null);
   const inputValueRef = useRef('');
+  // Last impossible guess that was rejected; submitting it again grades it anyway
+  const rejectedGuessRef = useRef<string | null>(null);
 
   // Animation shared values
   const scoreAnimation = useSharedValue(0);
@@ -301,10 +544,21 @@ export default function GameScreen() {
       // Use pre-defined challenge scriptures
       setCurrentScripture(challenge.scriptures[0]);
       setChallengeScriptureIndex(0);
+    } else if (isStudy) {
+      // Wait for the study queue, which is read from storage
+      if (studyQueue && studyQueue.length > 0) {
+        setCurrentScripture(studyQueue[0]);
+        setChallengeScriptureIndex(0);
+      }
+    } else if (isPractice) {
+      if (practiceScriptures.length > 0) {
+        setCurrentScripture(practiceScriptures[0]);
+        setChallengeScriptureIndex(0);
+      }
     } else if (!isChallengeMode && !isCreatingChallenge) {
-      setCurrentScripture(getRandomScripture());
+      setCurrentScripture(drawUnseenScripture(drawnScripturesRef.current, scripturePool));
     }
-  }, [isDailyChallenge, dailyScripture, isChallengeMode, challenge, isCreatingChallenge, creatingScriptures]);
+  }, [isDailyChallenge, dailyScripture, isChallengeMode, challenge, isCreatingChallenge, creatingScriptures, scripturePool, isStudy, studyQueue, isPractice, practiceScriptures]);
 
   // Handle session completion - check for high score and show leaderboard prompt
   useEffect(() => {
@@ -321,10 +575,13 @@ export default function GameScreen() {
             pathname: '/challenge/created-result',
             params: {
               challengeCode,
-              scriptures: scripturesParam,
+              scriptureIds: scriptureIdsParam,
               difficulty: mode,
               questionCount: totalQuestions.toString(),
               score: correctCount.toString(),
+              collections: collectionsParam,
+              multipleChoice: multipleChoiceParam,
+              variant: variantParam,
             },
           });
           return;
@@ -359,7 +616,7 @@ export default function GameScreen() {
 
         // Handle daily challenge completion
         if (isDailyChallenge) {
-          const newBadges = await completeDailyChallenge(correctCount > 0);
+          const newBadges = await completeDailyChallenge(correctCount > 0, sessionAnswers[0]?.guess);
           if (!isMounted) return;
 
           if (newBadges.length > 0) {
@@ -371,25 +628,59 @@ export default function GameScreen() {
           return;
         }
 
+        // High scores and the leaderboard rank typed reference guesses only
+        if (isMultipleChoice || variant !== 'reference' || isStudy || isPractice) {
+          setShowSummaryCard(true);
+          return;
+        }
+
+        // Survival runs are ranked by their length; a new best was flagged when the run ended
+        if (isSurvival) {
+          await updateBestRun(effectiveMode, correctCount);
+          if (!isMounted) return;
+
+          if (isHighScore && correctCount >= MIN_SCORE_FOR_LEADERBOARD) {
+            const promptTimeout = setTimeout(() => {
+              if (isMounted) setShowLeaderboardPrompt(true);
+            }, 1500);
+            timeoutIds.push(promptTimeout);
+          }
+
+          // Let the confetti for a new best play before the summary card
+          if (isHighScore) {
+            const summaryTimeout = setTimeout(() => {
+              if (isMounted) setShowSummaryCard(true);
+            }, 1500);
+            timeoutIds.push(summaryTimeout);
+          } else {
+            setShowSummaryCard(true);
+          }
+          return;
+        }
+
         // Regular game mode - check for high score
-        const newHighScore = isNewHighScore(effectiveMode, correctCount);
+        const newHighScore = isNewHighScore(scoreBoard, correctCount);
         if (!isMounted) return;
 
         setIsHighScore(newHighScore);
 
         // Update local high score
         if (newHighScore) {
-          await updateHighScore(effectiveMode, correctCount);
+          await updateHighScore(scoreBoard, correctCount);
           if (!isMounted) return;
         }
 
+        // Points are tracked separately so a near miss still counts toward a best
+        await updateHighPoints(scoreBoard, sessionPoints);
+        if (!isMounted) return;
+
         // Determine if we should show leaderboard prompt
         const shouldPrompt = correctCount >= MIN_SCORE_FOR_LEADERBOARD &&
           (newHighScore || !hasJoinedLeaderboard);
 
         if (shouldPrompt) {
           // Show prompt after a short delay (or after confetti for high scores)
-          const delay = correctCount >= 8 ? 1500 : 500;
+          const delay = isGreatScore ? 1500 : 500;
           const promptTimeout = setTimeout(() => {
             if (isMounted) setShowLeaderboardPrompt(true);
           }, delay);
@@ -397,7 +688,7 @@ export default function GameScreen() {
         }
 
         // Delay showing the summary card to let confetti play first
-        if (correctCount >= 8) {
+        if (isGreatScore) {
           const summaryTimeout = setTimeout(() => {
             if (isMounted) setShowSummaryCard(true);
           }, 1500);
@@ -416,7 +707,7 @@ export default function GameScreen() {
       isMounted = false;
       timeoutIds.forEach(clearTimeout);
     };
-  }, [sessionComplete, correctCount, effectiveMode, isNewHighScore, updateHighScore, hasJoinedLeaderboard, isDailyChallenge, completeDailyChallenge, isChallengeMode, challengeId, isChallenger, submitCreatorScore, submitChallengerScore, isCreatingChallenge, challengeCode, scripturesParam, mode, totalQuestions]);
+  }, [sessionComplete, correctCount, sessionPoints, scoreBoard, isNewHighScore, updateHighScore, updateHighPoints, hasJoinedLeaderboard, isDailyChallenge, completeDailyChallenge, isChallengeMode, challengeId, isChallenger, submitCreatorScore, submitChallengerScore, isCreatingChallenge, challengeCode, scriptureIdsParam, collectionsParam, multipleChoiceParam, variantParam, isMultipleChoice, variant, mode, totalQuestions, isSurvival, isHighScore, updateBestRun, effectiveMode, isStudy, isPractice, sessionAnswers, isGreatScore]);
 
   // Trigger score animation when summary card appears
   useEffect(() => {
@@ -474,22 +765,94 @@ export default function GameScreen() {
     };
   }, []);
 
+  // Apply a graded answer to the session
+  const recordAnswer = (correct: boolean, points: number, guess: string) => {
+    setIsCorrect(correct);
+    setSessionPoints(prev => prev + points);
+    setHasGuessed(true);
+
+    // Update answer history for progress indicator
+    setAnswerHistory(prev => {
+      const newHistory = [...prev];
+      newHistory[questionCount - 1] = correct ? 'correct' : 'incorrect';
+      return newHistory;
+    });
+
+    // Passages come back for study sooner the less of the reference was recalled
+    if (schedulesStudyReviews && currentScripture) {
+      recordReview(currentScripture, getRecallQuality(correct, points));
+    }
+
+    if (currentScripture) {
+      setSessionAnswers(prev => [...prev, { scripture: currentScripture, guess, correct }]);
+      recordPassageAnswer(currentScripture, {
+        mode: effectiveMode,
+        variant,
+        correct,
+        guess,
+        timeMs: Date.now() - questionStartRef.current,
+        ...(usedHints.length > 0 && { hints: usedHints }),
+      });
+    }
+
+    // Misses cost a life in survival
+    if (isSurvival && !correct) {
+      setLivesLeft(prev => Math.max(prev - 1, 0));
+    }
+
+    // Track correct answers
+    if (correct) {
+      setCorrectCount(prev => prev + 1);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      playCorrect();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      playWrong();
+    }
+  };
+
   const handleSubmitGuess = async () => {
     if (!currentScripture) return;
 
-    if (!userGuess.trim()) {
+    if (isCloze) {
+      // Jump to the first empty blank rather than grading a partial answer
+      const firstEmpty = clozePassage?.blanks.findIndex((_, i) => !clozeAnswers[i]?.trim()) ?? -1;
+      if (!clozePassage || firstEmpty !== -1) {
+        if (firstEmpty !== -1) setActiveBlank(firstEmpty);
+        setInputShouldShake(true);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+        return;
+      }
+    } else if (!inputValueRef.current.trim()) {
+      // Read the ref so a tapped choice can be submitted in the same handler
       // Trigger shake animation on input
       setInputShouldShake(true);
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
       return;
     }
 
-    setLoading(true);
-    Keyboard.dismiss();
-
     // Capture current values to avoid stale closure
     const capturedScripture = currentScripture;
+    const capturedSecondsLeft = secondsLeft;
     const capturedGuess = inputValueRef.current;
+    const capturedCloze = clozePassage;
+    const capturedAnswers = clozeAnswers;
+    const capturedHints = usedHints;
+
+    // Reject references that can't exist before grading them
+    const problem = isReverse || isCloze
+      ? null
+      : getInvalidReferenceMessage(capturedGuess, { strict: strictSpelling });
+    if (problem && rejectedGuessRef.current !== capturedGuess.trim()) {
+      rejectedGuessRef.current = capturedGuess.trim();
+      setReferenceProblem(problem);
+      setInputShouldShake(true);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      return;
+    }
+
+    setLoading(true);
+    Keyboard.dismiss();
 
     // Clear any existing timeout
     if (submitTimeoutRef.current) {
@@ -500,34 +863,133 @@ export default function GameScreen() {
     submitTimeoutRef.current = setTimeout(() => {
       if (!isMountedRef.current) return;
 
-      const correct = checkGuess(capturedScripture, capturedGuess, effectiveMode);
-
-      setIsCorrect(correct);
-      setHasGuessed(true);
+      let correct: boolean;
+      let points: number;
+      let guess = capturedGuess;
       setLoading(false);
-
-      // Update answer history for progress indicator
-      setAnswerHistory(prev => {
-        const newHistory = [...prev];
-        newHistory[questionCount - 1] = correct ? 'correct' : 'incorrect';
-        return newHistory;
-      });
-
-      // Track correct answers
-      if (correct) {
-        setCorrectCount(prev => prev + 1);
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        playCorrect();
+      if (isCloze && capturedCloze) {
+        const cloze = gradeCloze(capturedCloze, capturedAnswers);
+        setLastCloze(cloze);
+        correct = cloze.isCorrect;
+        points = cloze.points;
+        guess = capturedAnswers.join(', ');
+      } else if (isReverse) {
+        const recall = gradeRecall(capturedScripture.text, capturedGuess, effectiveMode);
+        setLastRecall(recall);
+        correct = recall.isCorrect;
+        points = recall.points;
       } else {
-        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-        playWrong();
+        const result = gradeGuess(capturedScripture, capturedGuess, effectiveMode, {
+          strict: strictSpelling,
+        });
+        const bonus = isSpeed && result.isCorrect ? getSpeedBonus(capturedSecondsLeft) : 0;
+        setLastResult(result);
+        setLastSpeedBonus(bonus);
+        correct = result.isCorrect;
+        points = Math.max(result.points + bonus - getHintPenalty(capturedHints), 0);
       }
+
+      recordAnswer(correct, points, guess);
     }, 500);
   };
 
+  // When the clock runs out, grade whatever has been typed so far
+  const handleTimeUp = () => {
+    if (!currentScripture || hasGuessed) return;
+    Keyboard.dismiss();
+    const result = gradeGuess(currentScripture, inputValueRef.current, effectiveMode, {
+      strict: strictSpelling,
+    });
+    setTimedOut(true);
+    setLastResult(result);
+    setLastSpeedBonus(0);
+    recordAnswer(
+      result.isCorrect,
+      Math.max(result.points - getHintPenalty(usedHints), 0),
+      inputValueRef.current
+    );
+  };
+  const handleTimeUpRef = useRef(handleTimeUp);
+  handleTimeUpRef.current = handleTimeUp;
+
+  // Tick while the player is answering; pause while a guess is being graded
+  useEffect(() => {
+    if (!isSpeed || hasGuessed || loading || sessionComplete) return;
+    const interval = setInterval(() => {
+      setSecondsLeft(prev => Math.max(prev - 1, 0));
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [isSpeed, hasGuessed, loading, sessionComplete, currentScripture]);
+
+  useEffect(() => {
+    if (isSpeed && secondsLeft === 0 && !hasGuessed && !loading) {
+      handleTimeUpRef.current();
+    }
+  }, [isSpeed, secondsLeft, hasGuessed, loading]);
+
+  // Scramble questions are graded as soon as the last tile is placed
+  const handleScrambleComplete = (mistakes: number) => {
+    if (!scramblePuzzle) return;
+    const seconds = (Date.now() - scrambleStartRef.current) / 1000;
+    const scramble = gradeScramble(scramblePuzzle, mistakes, seconds);
+    setLastScramble(scramble);
+    recordAnswer(scramble.isCorrect, scramble.points, '');
+  };
+
   const handleGuessChange = (text: string) => {
     inputValueRef.current = text;
     setUserGuess(text);
+    if (text.trim() !== rejectedGuessRef.current) {
+      setReferenceProblem(null);
+    }
+  };
+
+  const handleSelectSuggestion = (book: string) => {
+    Haptics.selectionAsync();
+    // Easy mode only needs the book; otherwise leave room for the chapter
+    handleGuessChange(effectiveMode === "easy" ? book : `${book} `);
+    inputRef.current?.focus();
+  };
+
+  const handleClozeAnswerChange = (text: string) => {
+    setClozeAnswers(prev => {
+      const next = [...prev];
+      next[activeBlank] = text;
+      return next;
+    });
+  };
+
+  const handleSelectBlank = (position: number) => {
+    Haptics.selectionAsync();
+    setActiveBlank(position);
+    inputRef.current?.focus();
+  };
+
+  // Keyboard "done" moves through the blanks and submits after the last one
+  const handleClozeSubmitEditing = () => {
+    if (clozePassage && activeBlank < clozePassage.blanks.length - 1) {
+      setActiveBlank(activeBlank + 1);
+      inputRef.current?.focus();
+      return;
+    }
+    handleSubmitGuess();
+  };
+
+  const handleSelectChoice = (choice: string) => {
+    handleGuessChange(choice);
+    handleSubmitGuess();
+  };
+
+  const resetGuess = () => {
+    inputValueRef.current = '';
+    rejectedGuessRef.current = null;
+    setUserGuess("");
+    setReferenceProblem(null);
+    setUsedHints([]);
+  };
+
+  const handleUseHint = (hint: HintKind) => {
+    setUsedHints(prev => (prev.includes(hint) ? prev : [...prev, hint]));
   };
 
   const handleNextScripture = () => {
@@ -539,8 +1001,17 @@ export default function GameScreen() {
       return;
     }
 
-    // Check if session is complete
-    if (questionCount >= totalQuestions) {
+    // Check if session is complete - survival runs end with the last life instead
+    if (isSurvival) {
+      if (livesLeft === 0) {
+        // Compare before the run is saved so the results can celebrate a new best
+        setIsHighScore(
+          !isMultipleChoice && variant === 'reference' && correctCount > localBestRuns[effectiveMode]
+        );
+        setSessionComplete(true);
+        return;
+      }
+    } else if (questionCount >= totalQuestions) {
       setSessionComplete(true);
       return;
     }
@@ -555,30 +1026,78 @@ export default function GameScreen() {
       const nextIndex = challengeScriptureIndex + 1;
       setCurrentScripture(challenge.scriptures[nextIndex]);
       setChallengeScriptureIndex(nextIndex);
+    } else if (isStudy && studyQueue) {
+      const nextIndex = challengeScriptureIndex + 1;
+      setCurrentScripture(studyQueue[nextIndex]);
+      setChallengeScriptureIndex(nextIndex);
+    } else if (isPractice) {
+      const nextIndex = challengeScriptureIndex + 1;
+      setCurrentScripture(practiceScriptures[nextIndex]);
+      setChallengeScriptureIndex(nextIndex);
     } else {
-      // Select a new random scripture
-      setCurrentScripture(getNextRandomScripture(currentScripture));
+      // No repeats until every scripture in the pool has been served
+      setCurrentScripture(drawUnseenScripture(drawnScripturesRef.current, scripturePool));
     }
 
-    inputValueRef.current = '';
-    setUserGuess("");
+    resetGuess();
     setHasGuessed(false);
     setIsCorrect(false);
+    setLastResult(null);
+    setLastRecall(null);
+    setLastCloze(null);
+    setLastScramble(null);
+    setLastSpeedBonus(0);
+    setTimedOut(false);
+    // Each speed question starts with a full clock
+    setSecondsLeft(SPEED_SECONDS_PER_QUESTION);
     setQuestionCount(prev => prev + 1);
   };
 
+  // Opens on top of the game so the session carries on afterwards
+  const handleMemorize = () => {
+    if (!currentScripture) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.push({
+      pathname: '/memorize',
+      params: { scriptureId: currentScripture.id },
+    });
+  };
+
   const handlePlayAgain = () => {
     setQuestionCount(1);
     setCorrectCount(0);
+    setSessionPoints(0);
     setSessionComplete(false);
     setShowSummaryCard(false);
     setShowLeaderboardPrompt(false);
     setIsHighScore(false);
-    setCurrentScripture(getRandomScripture());
-    inputValueRef.current = '';
-    setUserGuess("");
+    setLivesLeft(SURVIVAL_LIVES);
+    setSessionAnswers([]);
+    setMissedFavorited(false);
+    drawnScripturesRef.current.clear();
+    if (isStudy) {
+      // Pick up whatever is still due, plus the next new passages
+      const queue = getStudyQueue(scripturePool);
+      setStudyQueue(queue);
+      setChallengeScriptureIndex(0);
+      setCurrentScripture(queue[0] ?? null);
+    } else if (isPractice) {
+      setChallengeScriptureIndex(0);
+      setCurrentScripture(practiceScriptures[0] ?? null);
+    } else {
+      setCurrentScripture(drawUnseenScripture(drawnScripturesRef.current, scripturePool));
+    }
+    resetGuess();
     setHasGuessed(false);
     setIsCorrect(false);
+    setLastResult(null);
+    setLastRecall(null);
+    setLastCloze(null);
+    setLastScramble(null);
+    setLastSpeedBonus(0);
+    setTimedOut(false);
+    // Each speed question starts with a full clock
+    setSecondsLeft(SPEED_SECONDS_PER_QUESTION);
     setAnswerHistory(Array(totalQuestions).fill('pending'));
     // Reset animations for next game
     scoreAnimation.value = 0;
@@ -587,12 +1106,22 @@ export default function GameScreen() {
 
   const handleLeaderboardSubmit = async (submittedNickname: string, photoURL?: string | null) => {
     try {
+      if (isSurvival) {
+        // A run only adds its length; the session high score is left as it was
+        const highScore = localHighScores[scoreCategory];
+        if (!hasJoinedLeaderboard) {
+          await joinLeaderboard(submittedNickname, scoreCategory, highScore);
+        }
+        await submitSurvival(correctCount, submittedNickname, photoURL);
+        setShowLeaderboardPrompt(false);
+        return;
+      }
       if (!hasJoinedLeaderboard) {
         // First time joining - create profile and submit
-        await joinLeaderboard(submittedNickname, effectiveMode, correctCount);
+        await joinLeaderboard(submittedNickname, scoreBoard, correctCount, sessionPoints);
       }
       // Submit score to leaderboard - pass photoURL directly to avoid React state timing issues
-      await submitScore(correctCount, submittedNickname, photoURL);
+      await submitScore(correctCount, submittedNickname, photoURL, sessionPoints);
       setShowLeaderboardPrompt(false);
     } catch (error) {
       console.error('Failed to submit to leaderboard:', error);
@@ -600,6 +1129,10 @@ export default function GameScreen() {
     }
   };
 
+  const handleViewDailyHistory = () => {
+    router.push('/daily-history');
+  };
+
   const handlePlayRegularGame = () => {
     router.replace({
       pathname: '/game',
@@ -607,6 +1140,26 @@ export default function GameScreen() {
     });
   };
 
+  // Replay just the passages missed this session as a practice game
+  const handleRetryMissed = () => {
+    const missed = sessionAnswers.filter(answer => !answer.correct).map(answer => answer.scripture.id);
+    router.replace({
+      pathname: '/game',
+      params: {
+        mode: effectiveMode,
+        practice: 'true',
+        passages: JSON.stringify([...new Set(missed)]),
+        variant,
+      }
+    });
+  };
+
+  const handleFavoriteMissed = async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    await addFavorites(sessionAnswers.filter(answer => !answer.correct).map(answer => answer.scripture));
+    setMissedFavorited(true);
+  };
+
   const handleDismissBadge = () => {
     if (currentBadgeIndex < earnedBadges.length - 1) {
       setCurrentBadgeIndex(prev => prev + 1);
@@ -623,7 +1176,7 @@ export default function GameScreen() {
     setShowLeaderboardPrompt(false);
     router.push({
       pathname: '/(tabs)/leaderboard',
-      params: { difficulty: mode }
+      params: { difficulty: scoreCategory, length: String(sessionLength) }
     });
   };
 
@@ -658,6 +1211,9 @@ export default function GameScreen() {
   };
 
   const getPlaceholderText = () => {
+    if (isReverse) {
+      return effectiveMode === "easy" ? "Type a key phrase..." : "Type the passage...";
+    }
     switch (effectiveMode) {
       case "easy":
         return 'e.g., John';
@@ -673,7 +1229,7 @@ export default function GameScreen() {
   const getCorrectAnswer = () => {
     if (!currentScripture) return "";
 
-    const { book, chapter, verse } = currentScripture.reference;
+    const { book, chapter } = currentScripture.reference;
 
     switch (effectiveMode) {
       case "easy":
@@ -681,7 +1237,7 @@ export default function GameScreen() {
       case "medium":
         return `${book} ${chapter}`;
       case "hard":
-        return `${book} ${chapter}:${verse}`;
+        return formatReference(currentScripture.reference);
       default:
         return "";
     }
@@ -690,20 +1246,34 @@ export default function GameScreen() {
   const getFullReference = () => {
     if (!currentScripture) return "";
 
-    const { book, chapter, verse } = currentScripture.reference;
-    return `${book} ${chapter}:${verse}`;
+    return formatReference(currentScripture.reference);
   };
 
   const getDifficultyTitle = () => {
     if (isDailyChallenge) {
       return "Daily Challenge";
     }
+    if (isSpeed) {
+      return "Speed Round";
+    }
+    if (isSurvival) {
+      return `Survival · ${getSimpleDifficulty()}`;
+    }
+    if (isStudy) {
+      return "Study";
+    }
+    if (isPractice) {
+      return `Practice · ${getSimpleDifficulty()}`;
+    }
     if (isChallengeMode && challenge) {
       const opponentName = isChallenger
         ? challenge.creatorNickname
         : 'Friend';
       return `Challenge vs ${opponentName}`;
     }
+    if (variant !== 'reference') {
+      return `${GAME_VARIANT_DEFINITIONS[variant].name} · ${getSimpleDifficulty()}`;
+    }
     switch (mode) {
       case "easy":
         return "Easy Mode";
@@ -726,12 +1296,41 @@ export default function GameScreen() {
     }
   };
 
+  // Survival results are measured against the best run rather than a question total
+  const summaryTotal = isSurvival
+    ? Math.max(localBestRuns[effectiveMode], correctCount, 1)
+    : totalQuestions;
+
   const getScoreColor = () => {
-    if (correctCount >= 8) return { bg: "#e6f7e6", text: "#4CAF50" }; // green
-    if (correctCount >= 5) return { bg: "#fff8e6", text: "#FF9800" }; // yellow/orange
+    if (scoreShare >= GREAT_SCORE_SHARE) return { bg: "#e6f7e6", text: "#4CAF50" }; // green
+    if (scoreShare >= GOOD_SCORE_SHARE) return { bg: "#fff8e6", text: "#FF9800" }; // yellow/orange
     return { bg: "#ffebee", text: "#F44336" }; // red
   };
 
+  if (!currentScripture && isStudy && studyQueue?.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, styles.loadingContainer]}>
+        <Stack.Screen options={{ title: "Study", headerBackTitle: "Home" }} />
+        <Ionicons name="checkmark-circle-outline" size={48} color={colors.success} />
+        <ThemedText style={styles.studyDoneText}>
+          All caught up! Nothing is due for review right now.
+        </ThemedText>
+      </SafeAreaView>
+    );
+  }
+
+  if (!currentScripture && isPractice && practiceScriptures.length === 0) {
+    return (
+      <SafeAreaView style={[styles.container, styles.loadingContainer]}>
+        <Stack.Screen options={{ title: "Practice", headerBackTitle: "Back" }} />
+        <Ionicons name="alert-circle-outline" size={48} color={colors.icon} />
+        <ThemedText style={styles.studyDoneText}>
+          These passages couldn't be found.
+        </ThemedText>
+      </SafeAreaView>
+    );
+  }
+
   if (!currentScripture) {
     return (
       <SafeAreaView style={[styles.container, styles.loadingContainer]}>
@@ -756,12 +1355,22 @@ export default function GameScreen() {
               }}>
                 {getDifficultyTitle()}
               </Text>
-              {!sessionComplete && !isDailyChallenge && (
+              {!sessionComplete && isSurvival && (
+                <LivesIndicator
+                  livesLeft={livesLeft}
+                  totalLives={SURVIVAL_LIVES}
+                  run={correctCount}
+                  colorScheme={colorScheme ?? 'light'}
+                />
+              )}
+              {!sessionComplete && !isDailyChallenge && !isSurvival && (
                 <ProgressIndicator
                   currentQuestion={questionCount}
                   totalQuestions={totalQuestions}
                   answers={answerHistory}
                   colorScheme={colorScheme ?? 'light'}
+                  secondsLeft={isSpeed && !hasGuessed ? secondsLeft : undefined}
+                  totalSeconds={isSpeed ? SPEED_SECONDS_PER_QUESTION : undefined}
                 />
               )}
               {!sessionComplete && isDailyChallenge && (
@@ -770,7 +1379,7 @@ export default function GameScreen() {
                   fontSize: 12,
                   opacity: 0.6
                 }}>
-                  Guess the book
+                  {variant === 'reference' ? 'Guess the book' : GAME_VARIANT_DEFINITIONS[variant].name}
                 </Text>
               )}
             </View>
@@ -792,8 +1401,8 @@ export default function GameScreen() {
           </ThemedView>
         ) : (
         <ThemedView style={styles.summaryContainer}>
-          {/* Confetti for high scores OR streak milestones (7, 14, 30 days) */}
-          {(correctCount >= 8 || (isDailyChallenge && [7, 14, 30].includes(dailyStats.currentStreak))) && (
+          {/* Confetti for high scores, new best survival runs OR streak milestones (7, 14, 30 days) */}
+          {((isSurvival ? isHighScore : isGreatScore) || (isDailyChallenge && [7, 14, 30].includes(dailyStats.currentStreak))) && (
             <ConfettiCannon
               count={200}
               origin={{ x: -10, y: 0 }}
@@ -863,8 +1472,12 @@ export default function GameScreen() {
                           <Text style={[styles.shareScoreNumber, { color: getScoreColor().text }]}>
                             {correctCount}
                           </Text>
-                          <Text style={styles.shareScoreDivider}>/</Text>
-                          <Text style={styles.shareScoreTotal}>{totalQuestions}</Text>
+                          {!isSurvival && (
+                            <>
+                              <Text style={styles.shareScoreDivider}>/</Text>
+                              <Text style={styles.shareScoreTotal}>{totalQuestions}</Text>
+                            </>
+                          )}
                         </View>
                       </View>
 
@@ -885,7 +1498,13 @@ export default function GameScreen() {
                           </View>
                           <Text style={styles.sharePillDot}>•</Text>
                           <View style={styles.sharePill}>
-                            <Text style={styles.sharePillText}>{totalQuestions} Questions</Text>
+                            <Text style={styles.sharePillText}>
+                              {isSurvival ? 'Survival Run' : `${totalQuestions} Questions`}
+                            </Text>
+                          </View>
+                          <Text style={styles.sharePillDot}>•</Text>
+                          <View style={styles.sharePill}>
+                            <Text style={styles.sharePillText}>{getCollectionsLabel(gameCollections)}</Text>
                           </View>
                         </View>
 
@@ -997,42 +1616,71 @@ export default function GameScreen() {
                     </TouchableOpacity>
                   </>
                 )}
+                <TouchableOpacity
+                  style={styles.subtleShareLink}
+                  onPress={handleViewDailyHistory}
+                  accessibilityLabel="View daily challenge history"
+                  accessibilityRole="button"
+                >
+                  <ThemedText style={[styles.subtleShareText, { color: colors.tint }]}>
+                    View history
+                  </ThemedText>
+                </TouchableOpacity>
               </View>
             </Animated.View>
           ) : (
             /* Regular Game - Uses card */
             <AnimatedSummaryCard colors={colors} visible={showSummaryCard}>
               <ThemedText style={styles.summaryTitle}>
-                Session Complete!
+                {isSurvival ? 'Run Over!' : 'Session Complete!'}
+              </ThemedText>
+              <ThemedText style={styles.summaryCollections}>
+                {getCollectionsLabel(gameCollections)}
               </ThemedText>
 
               <View style={styles.scoreCircleWrapper}>
                 <ScoreRing
-                  progress={correctCount / TOTAL_QUESTIONS}
+                  progress={correctCount / summaryTotal}
                   score={correctCount}
-                  total={TOTAL_QUESTIONS}
+                  total={summaryTotal}
                   size={160}
                   strokeWidth={4}
                 />
                 <Animated.View style={[styles.scoreCircle, { backgroundColor: getScoreColor().bg }, animatedCircleStyle]}>
                   <AnimatedScore
                     animatedValue={scoreAnimation}
-                    total={TOTAL_QUESTIONS}
+                    total={summaryTotal}
                     style={[styles.scoreText, { color: getScoreColor().text }]}
                   />
                 </Animated.View>
               </View>
               <ThemedText style={styles.summaryMessage}>
-                {correctCount === TOTAL_QUESTIONS ? "Perfect score!" :
-                 correctCount >= 8 ? "Great job!" :
-                 correctCount >= 5 ? "Good effort!" :
+                {isSurvival ? (isHighScore ? "New best run!" : `Best run: ${summaryTotal}`) :
+                 correctCount === totalQuestions ? "Perfect score!" :
+                 scoreShare >= GREAT_SCORE_SHARE ? "Great job!" :
+                 scoreShare >= GOOD_SCORE_SHARE ? "Good effort!" :
                  "Keep practicing!"}
               </ThemedText>
+              <ThemedText style={styles.summaryPoints}>
+                {isSurvival
+                  ? `${sessionPoints} points`
+                  : `${sessionPoints} of ${totalQuestions * (POINTS_PER_QUESTION + (isSpeed ? SPEED_MAX_BONUS : 0))} points`}
+              </ThemedText>
+
+              {sessionAnswers.length > 0 && (
+                <SessionReview
+                  answers={sessionAnswers}
+                  colors={colors}
+                  onRetryMissed={handleRetryMissed}
+                  onAddMissedToFavorites={handleFavoriteMissed}
+                  favoritesAdded={missedFavorited}
+                />
+              )}
 
               <View style={styles.summaryButtons}>
                 <GradientButton
                   onPress={handlePlayAgain}
-                  label="Play Again"
+                  label={isStudy ? "Keep Studying" : "Play Again"}
                   variant="teal"
                 />
 
@@ -1071,8 +1719,9 @@ export default function GameScreen() {
           <LeaderboardPrompt
             visible={showLeaderboardPrompt}
             score={correctCount}
-            totalQuestions={TOTAL_QUESTIONS}
-            difficulty={effectiveMode}
+            totalQuestions={totalQuestions}
+            difficulty={scoreCategory}
+            isSurvivalRun={isSurvival}
             isNewHighScore={isHighScore}
             hasNickname={!!nickname}
             nickname={nickname}
@@ -1101,10 +1750,18 @@ export default function GameScreen() {
               <ThemedView style={styles.resultContainer}>
                 <AnimatedResultCard
                   isCorrect={isCorrect}
-                  userGuess={userGuess}
+                  userGuess={timedOut && !userGuess.trim() ? "—" : userGuess}
                   correctAnswer={getCorrectAnswer()}
                   fullReference={getFullReference()}
                   colors={colors}
+                  guessNote={timedOut ? "Time ran out" : referenceProblem}
+                  result={lastResult}
+                  mode={effectiveMode}
+                  recall={lastRecall}
+                  cloze={lastCloze}
+                  scramble={lastScramble}
+                  speedBonus={lastSpeedBonus}
+                  hints={usedHints}
                 />
               </ThemedView>
             )}
@@ -1118,17 +1775,73 @@ export default function GameScreen() {
                 }
               ]}
             >
-              <ThemedText style={styles.scriptureText}>
-                "{currentScripture.text}"
-              </ThemedText>
+              {isScramble && scramblePuzzle ? (
+                hasGuessed ? (
+                  <ThemedText style={styles.scriptureText}>
+                    "{currentScripture.text}"
+                  </ThemedText>
+                ) : (
+                  <>
+                    <ThemedText style={[styles.reverseReference, styles.scrambleReference]}>
+                      {formatReference(currentScripture.reference)}
+                    </ThemedText>
+                    <WordScramble
+                      // Remount per question so the tiles start fresh
+                      key={questionCount}
+                      puzzle={scramblePuzzle}
+                      colors={colors}
+                      onComplete={handleScrambleComplete}
+                    />
+                  </>
+                )
+              ) : isCloze && clozePassage ? (
+                <ClozeText
+                  cloze={clozePassage}
+                  answers={clozeAnswers}
+                  colors={colors}
+                  activeBlank={hasGuessed ? undefined : activeBlank}
+                  onSelectBlank={hasGuessed ? undefined : handleSelectBlank}
+                  result={hasGuessed ? lastCloze : null}
+                />
+              ) : isReverse ? (
+                <>
+                  <ThemedText style={styles.reverseReference}>
+                    {formatReference(currentScripture.reference)}
+                  </ThemedText>
+                  <ThemedText style={styles.reverseHint}>
+                    {effectiveMode === "easy"
+                      ? "Type a key phrase from this passage"
+                      : effectiveMode === "medium"
+                        ? "Type at least half of this passage"
+                        : "Type this passage word for word"}
+                  </ThemedText>
+                </>
+              ) : (
+                <ThemedText style={styles.scriptureText}>
+                  "{currentScripture.text}"
+                </ThemedText>
+              )}
             </ThemedView>
 
+            {!hasGuessed && availableHints.length > 0 && (
+              <HintBar
+                scripture={currentScripture}
+                available={availableHints}
+                used={usedHints}
+                onUseHint={handleUseHint}
+                colors={colors}
+                disabled={loading}
+              />
+            )}
+
             {/* Add padding at the bottom of ScrollView for better appearance */}
             <View style={{ paddingBottom: 20 }} />
           </ScrollView>
         </ThemedView>
 
         {!hasGuessed ? (
+          // Scramble tiles live with the passage, so there's nothing to type
+          isScramble ? null : (
           <ThemedView
             style={[
               styles.inputContainer,
@@ -1139,26 +1852,79 @@ export default function GameScreen() {
             ]}
           >
             <ThemedText style={styles.guessLabel}>
-              What's the reference?
+              {isCloze
+                ? "Fill in the blanks"
+                : isReverse ? "How does it go?" : "What's the reference?"}
             </ThemedText>
-            <AnimatedInput
-              value={userGuess}
-              onChangeText={handleGuessChange}
-              placeholder={getPlaceholderText()}
-              colors={colors}
-              colorScheme={colorScheme ?? 'light'}
-              onSubmitEditing={handleSubmitGuess}
-              inputRef={inputRef as React.RefObject<TextInput>}
-              shouldShake={inputShouldShake}
-              onShakeComplete={() => setInputShouldShake(false)}
-            />
-            <AnimatedSubmitButton
-              onPress={handleSubmitGuess}
-              loading={loading}
-              disabled={loading}
-              label="Submit"
-            />
+            {isCloze ? (
+              <AnimatedInput
+                value={clozeAnswers[activeBlank] ?? ""}
+                onChangeText={handleClozeAnswerChange}
+                placeholder={`Blank ${activeBlank + 1} of ${clozePassage?.blanks.length ?? 0}`}
+                colors={colors}
+                colorScheme={colorScheme ?? 'light'}
+                onSubmitEditing={handleClozeSubmitEditing}
+                inputRef={inputRef as React.RefObject<TextInput>}
+                shouldShake={inputShouldShake}
+                onShakeComplete={() => setInputShouldShake(false)}
+                accessibilityLabel={`Word for blank ${activeBlank + 1}`}
+              />
+            ) : isReverse ? (
+              <AnimatedInput
+                value={userGuess}
+                onChangeText={handleGuessChange}
+                placeholder={getPlaceholderText()}
+                colors={colors}
+                colorScheme={colorScheme ?? 'light'}
+                onSubmitEditing={handleSubmitGuess}
+                inputRef={inputRef as React.RefObject<TextInput>}
+                shouldShake={inputShouldShake}
+                onShakeComplete={() => setInputShouldShake(false)}
+                multiline
+                accessibilityLabel="Type the passage from memory"
+              />
+            ) : isMultipleChoice ? (
+              <AnswerChoices
+                choices={answerChoices}
+                onSelect={handleSelectChoice}
+                colors={colors}
+                disabled={loading}
+              />
+            ) : answerInput === 'picker' ? (
+              <ReferencePicker
+                // Remount per question so the picker starts fresh
+                key={questionCount}
+                mode={effectiveMode}
+                onChange={handleGuessChange}
+                colors={colors}
+                collections={gameCollections}
+              />
+            ) : (
+              <AnimatedInput
+                value={userGuess}
+                onChangeText={handleGuessChange}
+                placeholder={getPlaceholderText()}
+                colors={colors}
+                colorScheme={colorScheme ?? 'light'}
+                onSubmitEditing={handleSubmitGuess}
+                inputRef={inputRef as React.RefObject<TextInput>}
+                shouldShake={inputShouldShake}
+                onShakeComplete={() => setInputShouldShake(false)}
+                errorMessage={referenceProblem && `${referenceProblem}. Submit again to answer anyway.`}
+                suggestions={getBookSuggestions(userGuess)}
+                onSelectSuggestion={handleSelectSuggestion}
+              />
+            )}
+            {!isMultipleChoice && (
+              <AnimatedSubmitButton
+                onPress={handleSubmitGuess}
+                loading={loading}
+                disabled={loading}
+                label="Submit"
+              />
+            )}
           </ThemedView>
+          )
         ) : (
           <ThemedView
             style={[
@@ -1169,9 +1935,20 @@ export default function GameScreen() {
               }
             ]}
           >
+            <TouchableOpacity
+              style={[styles.secondaryAction, styles.memorizeAction, { borderColor: colors.border }]}
+              onPress={handleMemorize}
+              accessibilityLabel="Memorize this passage"
+              accessibilityRole="button"
+            >
+              <Ionicons name="bulb-outline" size={18} color={colors.textSecondary} />
+              <ThemedText style={[styles.secondaryActionText, { color: colors.textSecondary }]}>
+                Memorize This Passage
+              </ThemedText>
+            </TouchableOpacity>
             <GradientButton
               onPress={handleNextScripture}
-              label={questionCount >= totalQuestions ? "See Results" : "Next Scripture"}
+              label={(isSurvival ? livesLeft === 0 : questionCount >= totalQuestions) ? "See Results" : "Next Scripture"}
               variant="teal"
             />
           </ThemedView>
@@ -1190,6 +1967,12 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  studyDoneText: {
+    fontSize: 16,
+    textAlign: "center",
+    marginTop: 12,
+    paddingHorizontal: 32,
+  },
   content: {
     flex: 1,
     padding: 20,
@@ -1214,6 +1997,22 @@ const styles = StyleSheet.create({
     fontFamily: "Times New Roman",
     textAlign: "left",
   },
+  reverseReference: {
+    fontSize: 26,
+    lineHeight: 34,
+    fontWeight: "bold",
+    fontFamily: "Times New Roman",
+    textAlign: "center",
+  },
+  scrambleReference: {
+    marginBottom: 16,
+  },
+  reverseHint: {
+    fontSize: 14,
+    color: "#888888",
+    textAlign: "center",
+    marginTop: 8,
+  },
   inputContainer: {
     padding: 20,
     borderTopWidth: 1,
@@ -1257,7 +2056,12 @@ const styles = StyleSheet.create({
     fontSize: 22,
     fontWeight: "600",
     letterSpacing: -0.3,
-    marginBottom: 24,
+    marginBottom: 4,
+  },
+  summaryCollections: {
+    fontSize: 14,
+    opacity: 0.6,
+    marginBottom: 20,
   },
   scoreCircleWrapper: {
     position: 'relative',
@@ -1283,6 +2087,11 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontFamily: "Times New Roman",
   },
+  summaryPoints: {
+    fontSize: 14,
+    color: "#888888",
+    marginTop: 4,
+  },
   summaryButtons: {
     width: "100%",
     marginTop: 24,
@@ -1457,6 +2266,8 @@ const styles = StyleSheet.create({
   // Pills row styles
   sharePillsRow: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
     alignItems: 'center',
     gap: 8,
   },
@@ -1604,6 +2415,10 @@ const styles = StyleSheet.create({
     borderRadius: 10,
     borderWidth: 1,
   },
+  memorizeAction: {
+    flex: 0,
+    marginBottom: 12,
+  },
   secondaryActionText: {
     fontSize: 15,
     fontWeight: '500',
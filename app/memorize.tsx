@@ -0,0 +1,308 @@
+import React, { useMemo, useRef, useState } from "react";
+import {
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  View,
+  ScrollView,
+  Text,
+  TextInput,
+  Keyboard,
+} from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router, useLocalSearchParams, Stack } from "expo-router";
+import * as Haptics from "expo-haptics";
+import { Ionicons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { GradientButton } from "@/components/GradientButton";
+import { AnimatedInput } from "@/components/game/AnimatedInput";
+import { WordDiff } from "@/components/game/WordDiff";
+import { Colors } from "@/constants/Colors";
+import { MEMORIZE_ROUNDS, MEMORIZE_GRADING_MODE } from "@/constants/Memorize";
+import { getScriptureById } from "@/data/scriptureData";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useSound } from "@/hooks/useSound";
+import { useMemorizeProgress } from "@/hooks/useMemorizeProgress";
+import { RecallResult, Scripture } from "@/types/scripture";
+import { formatReference } from "@/utils/scriptureUtils";
+import { abbreviatePassage, gradeRecall } from "@/utils/textUtils";
+
+/**
+ * First-letter memorization: the player types a passage over several rounds
+ * while more and more of it is reduced to first letters, ending with the
+ * passage hidden entirely.
+ */
+export default function MemorizeScreen() {
+  const { scriptureId } = useLocalSearchParams<{ scriptureId: string }>();
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { playCorrect, playWrong } = useSound();
+  const { getRoundsCleared, recordRoundsCleared } = useMemorizeProgress();
+
+  const scripture = useMemo<Scripture | null>(
+    () => (scriptureId ? getScriptureById(scriptureId) ?? null : null),
+    [scriptureId]
+  );
+
+  const [round, setRound] = useState(0);
+  const [guess, setGuess] = useState("");
+  const [result, setResult] = useState<RecallResult | null>(null);
+  const [inputShouldShake, setInputShouldShake] = useState(false);
+  const inputRef = useRef<TextInput>(null);
+
+  const totalRounds = MEMORIZE_ROUNDS.length;
+  const currentRound = MEMORIZE_ROUNDS[round];
+  const isLastRound = round === totalRounds - 1;
+  const isMemorized = isLastRound && !!result?.isCorrect;
+
+  const reference = scripture ? formatReference(scripture.reference) : "";
+  const displayText = useMemo(
+    () =>
+      scripture
+        ? abbreviatePassage(scripture.text, currentRound.abbreviatedShare, reference)
+        : "",
+    [scripture, currentRound.abbreviatedShare, reference]
+  );
+
+  if (!scripture) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ title: "Memorize" }} />
+        <ThemedText>This passage couldn't be loaded.</ThemedText>
+      </SafeAreaView>
+    );
+  }
+
+  const bestRounds = getRoundsCleared(scripture);
+
+  const handleCheck = () => {
+    if (!guess.trim()) {
+      setInputShouldShake(true);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      return;
+    }
+
+    Keyboard.dismiss();
+    const graded = gradeRecall(scripture.text, guess, MEMORIZE_GRADING_MODE);
+    setResult(graded);
+
+    if (graded.isCorrect) {
+      recordRoundsCleared(scripture, round + 1);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      playCorrect();
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      playWrong();
+    }
+  };
+
+  const handleNextRound = () => {
+    setRound((prev) => prev + 1);
+    setGuess("");
+    setResult(null);
+  };
+
+  const handleTryAgain = () => {
+    setResult(null);
+    inputRef.current?.focus();
+  };
+
+  const handlePracticeAgain = () => {
+    setRound(0);
+    setGuess("");
+    setResult(null);
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={["left", "right"]}>
+      <Stack.Screen
+        options={{
+          headerTitle: () => (
+            <View style={{ alignItems: "center" }}>
+              <Text style={{ color: colors.text, fontSize: 17, fontWeight: "600" }}>
+                Memorize
+              </Text>
+              <Text style={{ color: colors.text, fontSize: 12, opacity: 0.6 }}>
+                Round {round + 1} of {totalRounds}
+              </Text>
+            </View>
+          ),
+          headerBackTitle: "Back",
+          headerStyle: {
+            backgroundColor: colors.background,
+          },
+          headerTintColor: colors.tint,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === "ios" ? "padding" : "height"}
+        style={styles.container}
+      >
+        <ThemedView style={styles.content}>
+          <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
+            <ThemedText style={styles.reference}>{reference}</ThemedText>
+            <ThemedText style={styles.roundLabel}>{currentRound.label}</ThemedText>
+            <ThemedText style={styles.bestLabel}>
+              Best: {bestRounds} of {totalRounds} rounds cleared
+            </ThemedText>
+
+            <ThemedView
+              style={[
+                styles.passageContainer,
+                { borderColor: colors.border, backgroundColor: colors.card },
+              ]}
+            >
+              {currentRound.hidden && !result ? (
+                <View style={styles.hiddenPassage}>
+                  <Ionicons name="eye-off-outline" size={28} color={colors.icon} />
+                  <ThemedText style={styles.hiddenText}>
+                    Type the whole passage from memory
+                  </ThemedText>
+                </View>
+              ) : result && !result.isCorrect ? (
+                <WordDiff parts={result.diff} colors={colors} />
+              ) : (
+                <ThemedText style={styles.passageText}>
+                  {result ? scripture.text : displayText}
+                </ThemedText>
+              )}
+            </ThemedView>
+
+            {result && (
+              <View style={styles.resultRow}>
+                <Ionicons
+                  name={result.isCorrect ? "checkmark-circle" : "close-circle"}
+                  size={22}
+                  color={result.isCorrect ? colors.success : colors.error}
+                />
+                <ThemedText style={styles.resultText}>
+                  {isMemorized
+                    ? "Memorized! You typed it with nothing to go on."
+                    : result.isCorrect
+                      ? "Round cleared"
+                      : `${result.matchedWords} of ${result.totalWords} words. Highlighted words were missed.`}
+                </ThemedText>
+              </View>
+            )}
+
+            <View style={{ paddingBottom: 20 }} />
+          </ScrollView>
+        </ThemedView>
+
+        <ThemedView
+          style={[
+            styles.bottomContainer,
+            { borderTopColor: colors.border, backgroundColor: colors.card },
+          ]}
+        >
+          {!result ? (
+            <>
+              <AnimatedInput
+                value={guess}
+                onChangeText={setGuess}
+                placeholder="Type the passage..."
+                colors={colors}
+                colorScheme={colorScheme ?? "light"}
+                onSubmitEditing={handleCheck}
+                inputRef={inputRef as React.RefObject<TextInput>}
+                shouldShake={inputShouldShake}
+                onShakeComplete={() => setInputShouldShake(false)}
+                multiline
+                accessibilityLabel="Type the passage"
+              />
+              <GradientButton onPress={handleCheck} label="Check" variant="teal" />
+            </>
+          ) : isMemorized ? (
+            <>
+              <GradientButton onPress={() => router.back()} label="Done" variant="teal" />
+              <GradientButton onPress={handlePracticeAgain} label="Practice Again" variant="warm" />
+            </>
+          ) : result.isCorrect ? (
+            <GradientButton onPress={handleNextRound} label="Next Round" variant="teal" />
+          ) : (
+            <GradientButton onPress={handleTryAgain} label="Try Again" variant="teal" />
+          )}
+        </ThemedView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+  },
+  reference: {
+    fontSize: 24,
+    lineHeight: 32,
+    fontWeight: "bold",
+    fontFamily: "Times New Roman",
+    textAlign: "center",
+  },
+  roundLabel: {
+    fontSize: 15,
+    textAlign: "center",
+    marginTop: 4,
+  },
+  bestLabel: {
+    fontSize: 13,
+    opacity: 0.6,
+    textAlign: "center",
+    marginTop: 2,
+    marginBottom: 16,
+  },
+  passageContainer: {
+    padding: 20,
+    borderRadius: 12,
+    borderWidth: 1,
+    elevation: 2,
+    shadowColor: "#000",
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    minHeight: 150,
+  },
+  passageText: {
+    fontSize: 18,
+    lineHeight: 26,
+    fontFamily: "Times New Roman",
+  },
+  hiddenPassage: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 8,
+  },
+  hiddenText: {
+    fontSize: 14,
+    color: "#888888",
+    textAlign: "center",
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 8,
+    marginTop: 16,
+  },
+  resultText: {
+    flex: 1,
+    fontSize: 15,
+  },
+  bottomContainer: {
+    padding: 20,
+    borderTopWidth: 1,
+    gap: 12,
+  },
+});
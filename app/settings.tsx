@@ -25,12 +25,16 @@ import { TutorialModal } from '@/components/TutorialModal';
 import { NicknameModal } from '@/components/NicknameModal';
 import { TimePickerModal } from '@/components/TimePickerModal';
 import { Colors } from '@/constants/Colors';
+import { GOOD_SCORE_SHARE, GREAT_SCORE_SHARE } from '@/constants/Scoring';
+import { DEFAULT_SESSION_LENGTH, getSessionQuestionCount } from '@/constants/SessionLengths';
+import { allScriptures } from '@/data/scriptureData';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { useTutorial } from '@/hooks/useTutorial';
 import { useSound } from '@/hooks/useSound';
 import { useDailyChallengeNotifications } from '@/hooks/useDailyChallengeNotifications';
 import { useTheme, ThemePreference } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
+import { useGamePreferences } from '@/contexts/GamePreferencesContext';
 
 // Enable LayoutAnimation on Android
 if (Platform.OS === 'android' && UIManager.setLayoutAnimationEnabledExperimental) {
@@ -52,6 +56,7 @@ const THEME_OPTIONS: { value: ThemePreference; label: string; icon: keyof typeof
 const SECTION_CONFIG = {
   appearance: { icon: 'color-palette-outline' as const, title: 'Appearance' },
   sound: { icon: 'volume-high-outline' as const, title: 'Sound' },
+  gameplay: { icon: 'game-controller-outline' as const, title: 'Gameplay' },
   notifications: { icon: 'notifications-outline' as const, title: 'Notifications' },
   leaderboard: { icon: 'trophy-outline' as const, title: 'Leaderboard' },
   account: { icon: 'person-outline' as const, title: 'Account' },
@@ -59,13 +64,16 @@ const SECTION_CONFIG = {
   about: { icon: 'information-circle-outline' as const, title: 'About' },
 };
 
-// Helper function to get score color
-const getScoreColor = (score: number): string => {
-  if (score >= 8) return '#4CAF50'; // Green
-  if (score >= 5) return '#FFA726'; // Amber
+// Helper function to get score color from the share of questions answered
+const getScoreColor = (score: number, maxScore: number): string => {
+  if (score >= maxScore * GREAT_SCORE_SHARE) return '#4CAF50'; // Green
+  if (score >= maxScore * GOOD_SCORE_SHARE) return '#FFA726'; // Amber
   return '#EF5350'; // Red
 };
 
+// The high scores shown are the default-length boards, so they're out of that many questions
+const HIGH_SCORE_MAX = getSessionQuestionCount(DEFAULT_SESSION_LENGTH, allScriptures.length);
+
 // Section Header Component
 interface SectionHeaderProps {
   icon: keyof typeof Ionicons.glyphMap;
@@ -186,7 +194,7 @@ interface ScoreProgressBarProps {
 
 const ScoreProgressBar: React.FC<ScoreProgressBarProps> = ({ label, score, maxScore }) => {
   const progress = useRef(new Animated.Value(0)).current;
-  const scoreColor = getScoreColor(score);
+  const scoreColor = getScoreColor(score, maxScore);
 
   useEffect(() => {
     Animated.spring(progress, {
@@ -317,6 +325,7 @@ export default function SettingsScreen() {
   const { showTutorial, dismissTutorial, openTutorial } = useTutorial();
   const { preference, setPreference, soundEnabled, setSoundEnabled } = useTheme();
   const { playCorrect } = useSound();
+  const { strictSpelling, setStrictSpelling, answerInput, setAnswerInput } = useGamePreferences();
   const {
     nickname,
     hasJoinedLeaderboard,
@@ -437,6 +446,16 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleStrictSpellingToggle = (value: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setStrictSpelling(value);
+  };
+
+  const handleAnswerInputToggle = (value: boolean) => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    setAnswerInput(value ? 'picker' : 'type');
+  };
+
   const handleNotificationToggle = async (value: boolean) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     if (value) {
@@ -485,6 +504,24 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleViewStats = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.back();
+    // Small delay to let the modal close before navigating
+    setTimeout(() => {
+      router.push('/stats');
+    }, 100);
+  };
+
+  const handleViewDailyHistory = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    router.back();
+    // Small delay to let the modal close before navigating
+    setTimeout(() => {
+      router.push('/daily-history');
+    }, 100);
+  };
+
   const handleViewLeaderboard = () => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     router.back();
@@ -569,6 +606,69 @@ export default function SettingsScreen() {
           </SettingsCard>
         </View>
 
+        {/* Gameplay Section */}
+        <View style={styles.section}>
+          <SectionHeader
+            icon={SECTION_CONFIG.gameplay.icon}
+            title={SECTION_CONFIG.gameplay.title}
+            showDivider
+            tintColor={colors.tint}
+            borderColor={colors.border}
+          />
+          <SettingsCard cardColor={colors.card} borderColor={colors.border}>
+            <SettingsRow
+              label="Strict Spelling"
+              subtitle="Only accept exact book names and official abbreviations"
+              colors={colors}
+              isFirst
+              accessibilityLabel="Strict Spelling toggle"
+              accessibilityHint="Double tap to toggle whether misspelled book names are accepted"
+            >
+              <Switch
+                value={strictSpelling}
+                onValueChange={handleStrictSpellingToggle}
+                trackColor={{ false: colors.border, true: colors.tint + '60' }}
+                thumbColor={strictSpelling ? colors.tint : '#f4f3f4'}
+                accessibilityLabel="Strict spelling"
+              />
+            </SettingsRow>
+            <SettingsRow
+              label="Reference Picker"
+              subtitle="Tap a volume, book, chapter, and verse instead of typing"
+              colors={colors}
+              accessibilityLabel="Reference Picker toggle"
+              accessibilityHint="Double tap to choose answers from lists instead of typing them"
+            >
+              <Switch
+                value={answerInput === 'picker'}
+                onValueChange={handleAnswerInputToggle}
+                trackColor={{ false: colors.border, true: colors.tint + '60' }}
+                thumbColor={answerInput === 'picker' ? colors.tint : '#f4f3f4'}
+                accessibilityLabel="Reference picker"
+              />
+            </SettingsRow>
+            <SettingsRow
+              label="Passage Stats"
+              subtitle="Accuracy on each passage and the ones you miss most"
+              onPress={handleViewStats}
+              rightIcon="stats-chart-outline"
+              showChevron
+              colors={colors}
+              accessibilityHint="Double tap to view your stats for each passage"
+            />
+            <SettingsRow
+              label="Daily History"
+              subtitle="Your daily challenge calendar and streaks"
+              onPress={handleViewDailyHistory}
+              rightIcon="calendar-outline"
+              showChevron
+              colors={colors}
+              isLast
+              accessibilityHint="Double tap to view the days you played the daily challenge"
+            />
+          </SettingsCard>
+        </View>
+
         {/* Notifications Section */}
         {notificationsAvailable && (
           <View style={styles.section}>
@@ -654,9 +754,10 @@ export default function SettingsScreen() {
                   Your High Scores
                 </ThemedText>
                 <View style={styles.highScoresGrid}>
-                  <ScoreProgressBar label="Easy" score={localHighScores.easy} maxScore={10} />
-                  <ScoreProgressBar label="Medium" score={localHighScores.medium} maxScore={10} />
-                  <ScoreProgressBar label="Hard" score={localHighScores.hard} maxScore={10} />
+                  <ScoreProgressBar label="Easy" score={localHighScores.easy} maxScore={HIGH_SCORE_MAX} />
+                  <ScoreProgressBar label="Medium" score={localHighScores.medium} maxScore={HIGH_SCORE_MAX} />
+                  <ScoreProgressBar label="Hard" score={localHighScores.hard} maxScore={HIGH_SCORE_MAX} />
+                  <ScoreProgressBar label="Speed" score={localHighScores.speed} maxScore={HIGH_SCORE_MAX} />
                 </View>
               </View>
             )}
@@ -0,0 +1,388 @@
+import React, { useCallback, useMemo, useState } from "react";
+import { StyleSheet, View, ScrollView, TouchableOpacity, ActivityIndicator } from "react-native";
+import { SafeAreaView } from "react-native-safe-area-context";
+import { router, Stack, useFocusEffect } from "expo-router";
+import * as Haptics from "expo-haptics";
+import { Ionicons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { GradientButton } from "@/components/GradientButton";
+import { Colors } from "@/constants/Colors";
+import { WEAKEST_MIN_ATTEMPTS } from "@/constants/Stats";
+import { useGamePreferences } from "@/contexts/GamePreferencesContext";
+import { getScripturesByCollections, getScripturesByIds } from "@/data/scriptureData";
+import { useColorScheme } from "@/hooks/useColorScheme";
+import { useFavorites } from "@/hooks/useFavorites";
+import { useScriptureStats } from "@/hooks/useScriptureStats";
+import { GameMode, GameStats, Scripture, ScriptureStats } from "@/types/scripture";
+import { formatReference } from "@/utils/scriptureUtils";
+import { getAccuracy, getModeStats } from "@/utils/statsUtils";
+
+const DIFFICULTY_OPTIONS: { mode: GameMode; label: string }[] = [
+  { mode: "easy", label: "Easy" },
+  { mode: "medium", label: "Medium" },
+  { mode: "hard", label: "Hard" },
+];
+
+const formatAccuracy = (accuracy: number | null): string =>
+  accuracy === null ? "–" : `${Math.round(accuracy * 100)}%`;
+
+// Difficulty the player has answered most, so the list opens on passages they actually play
+const getMostPlayedMode = (stats: Record<string, ScriptureStats>): GameMode => {
+  const totals = DIFFICULTY_OPTIONS.map(({ mode }) => ({
+    mode,
+    played: Object.values(stats).reduce((sum, passage) => sum + getModeStats(passage, mode).totalPlayed, 0),
+  }));
+  return totals.reduce((best, total) => (total.played > best.played ? total : best)).mode;
+};
+
+/**
+ * Per-passage stats: how often each passage has been answered, accuracy at each
+ * difficulty, and the passages missed most, which can be practiced on their own.
+ * Favorited passages are listed below them.
+ */
+export default function StatsScreen() {
+  const colorScheme = useColorScheme();
+  const colors = Colors[colorScheme ?? "light"];
+  const { selectedCollections } = useGamePreferences();
+  const { stats, isLoading, getStats, getWeakestScriptures, refreshStats } = useScriptureStats();
+  const { favoriteIds, removeFavorite, refreshFavorites } = useFavorites();
+  const [selectedMode, setSelectedMode] = useState<GameMode | null>(null);
+
+  // Practice games record answers too, and favorites can be added from a game's summary,
+  // so reload both when coming back
+  useFocusEffect(
+    useCallback(() => {
+      refreshStats();
+      refreshFavorites();
+    }, [refreshStats, refreshFavorites])
+  );
+
+  const pool = useMemo(() => getScripturesByCollections(selectedCollections), [selectedCollections]);
+  const mode = selectedMode ?? getMostPlayedMode(stats);
+  const weakest = getWeakestScriptures(pool, mode);
+  const favorites = useMemo(() => getScripturesByIds(favoriteIds), [favoriteIds]);
+
+  const answeredCount = pool.filter((scripture) => getStats(scripture)).length;
+  const overall = pool.reduce<GameStats>(
+    (total, scripture) => {
+      const passage = getModeStats(getStats(scripture));
+      return {
+        correct: total.correct + passage.correct,
+        incorrect: total.incorrect + passage.incorrect,
+        totalPlayed: total.totalPlayed + passage.totalPlayed,
+      };
+    },
+    { correct: 0, incorrect: 0, totalPlayed: 0 }
+  );
+
+  const handleModePress = (next: GameMode) => {
+    Haptics.selectionAsync();
+    setSelectedMode(next);
+  };
+
+  const practicePassages = (passages: Scripture[]) => {
+    router.push({
+      pathname: "/game",
+      params: {
+        mode,
+        practice: "true",
+        passages: JSON.stringify(passages.map((scripture) => scripture.id)),
+      },
+    });
+  };
+
+  const handlePractice = () => practicePassages(weakest);
+
+  const handlePracticeFavorites = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    practicePassages(favorites);
+  };
+
+  const handleRemoveFavorite = (scripture: Scripture) => {
+    Haptics.selectionAsync();
+    removeFavorite(scripture);
+  };
+
+  if (isLoading) {
+    return (
+      <SafeAreaView style={[styles.container, styles.centered]}>
+        <Stack.Screen options={{ title: "Passage Stats" }} />
+        <ActivityIndicator size="large" color={colors.tint} />
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={[styles.container, { backgroundColor: colors.background }]} edges={["left", "right", "bottom"]}>
+      <Stack.Screen
+        options={{
+          title: "Passage Stats",
+          headerBackTitle: "Back",
+          headerStyle: {
+            backgroundColor: colors.background,
+          },
+          headerTintColor: colors.tint,
+          headerShadowVisible: false,
+        }}
+      />
+
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false}>
+        <View style={[styles.summaryCard, { backgroundColor: colors.card, borderColor: colors.border }]}>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryValue}>{answeredCount}</ThemedText>
+            <ThemedText style={styles.summaryLabel}>of {pool.length} passages answered</ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryValue}>{overall.totalPlayed}</ThemedText>
+            <ThemedText style={styles.summaryLabel}>answers</ThemedText>
+          </View>
+          <View style={styles.summaryItem}>
+            <ThemedText style={styles.summaryValue}>{formatAccuracy(getAccuracy(overall))}</ThemedText>
+            <ThemedText style={styles.summaryLabel}>accuracy</ThemedText>
+          </View>
+        </View>
+
+        <ThemedText style={styles.sectionTitle}>Weakest Passages</ThemedText>
+        <View style={styles.chipRow}>
+          {DIFFICULTY_OPTIONS.map((option) => {
+            const isSelected = option.mode === mode;
+            return (
+              <TouchableOpacity
+                key={option.mode}
+                style={[
+                  styles.chip,
+                  { borderColor: isSelected ? colors.tint : colors.border },
+                  isSelected && { backgroundColor: `${colors.tint}15` },
+                ]}
+                onPress={() => handleModePress(option.mode)}
+                activeOpacity={0.7}
+                accessibilityRole="tab"
+                accessibilityState={{ selected: isSelected }}
+                accessibilityLabel={`${option.label} difficulty`}
+              >
+                <ThemedText style={[styles.chipText, isSelected && { color: colors.tint }]}>
+                  {option.label}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {weakest.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="stats-chart-outline" size={40} color={colors.icon} />
+            <ThemedText style={styles.emptyText}>
+              Passages you miss after answering them at least {WEAKEST_MIN_ATTEMPTS} times will show up here.
+            </ThemedText>
+          </View>
+        ) : (
+          weakest.map((scripture) => {
+            const passage = getStats(scripture);
+            return (
+              <View
+                key={scripture.id}
+                style={[styles.passageRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+              >
+                <View style={styles.passageHeader}>
+                  <ThemedText style={styles.passageReference}>{formatReference(scripture.reference)}</ThemedText>
+                  <ThemedText style={[styles.passageAccuracy, { color: colors.error }]}>
+                    {formatAccuracy(getAccuracy(getModeStats(passage, mode)))}
+                  </ThemedText>
+                </View>
+                <View style={styles.modeRow}>
+                  {DIFFICULTY_OPTIONS.map((option) => (
+                    <ThemedText key={option.mode} style={[styles.modeStat, { color: colors.textSecondary }]}>
+                      {option.label} {formatAccuracy(getAccuracy(getModeStats(passage, option.mode)))}
+                    </ThemedText>
+                  ))}
+                </View>
+                <ThemedText style={[styles.passageMeta, { color: colors.textSecondary }]}>
+                  {passage?.attempts ?? 0} attempts · last seen{" "}
+                  {passage ? new Date(passage.lastSeen).toLocaleDateString() : "never"}
+                </ThemedText>
+              </View>
+            );
+          })
+        )}
+
+        <View style={[styles.sectionHeader, styles.favoritesHeader]}>
+          <ThemedText style={[styles.sectionTitle, styles.sectionHeaderTitle]}>Favorites</ThemedText>
+          {favorites.length > 0 && (
+            <TouchableOpacity
+              onPress={handlePracticeFavorites}
+              accessibilityRole="button"
+              accessibilityLabel="Practice favorite passages"
+            >
+              <ThemedText style={[styles.sectionAction, { color: colors.tint }]}>Practice</ThemedText>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {favorites.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Ionicons name="star-outline" size={40} color={colors.icon} />
+            <ThemedText style={styles.emptyText}>
+              Add passages you missed from the end of a game to keep them here.
+            </ThemedText>
+          </View>
+        ) : (
+          favorites.map((scripture) => (
+            <View
+              key={scripture.id}
+              style={[styles.passageRow, styles.favoriteRow, { backgroundColor: colors.card, borderColor: colors.border }]}
+            >
+              <View style={styles.favoriteContent}>
+                <ThemedText style={styles.passageReference}>{formatReference(scripture.reference)}</ThemedText>
+                <ThemedText style={[styles.passageMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {scripture.text}
+                </ThemedText>
+              </View>
+              <TouchableOpacity
+                onPress={() => handleRemoveFavorite(scripture)}
+                hitSlop={8}
+                accessibilityRole="button"
+                accessibilityLabel={`Remove ${formatReference(scripture.reference)} from favorites`}
+              >
+                <Ionicons name="star" size={22} color={colors.tint} />
+              </TouchableOpacity>
+            </View>
+          ))
+        )}
+      </ScrollView>
+
+      <View style={[styles.bottomContainer, { borderTopColor: colors.border, backgroundColor: colors.card }]}>
+        <GradientButton
+          onPress={handlePractice}
+          label="Practice These"
+          variant="teal"
+          disabled={weakest.length === 0}
+        />
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    padding: 20,
+  },
+  summaryCard: {
+    flexDirection: "row",
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 24,
+  },
+  summaryItem: {
+    flex: 1,
+    alignItems: "center",
+  },
+  summaryValue: {
+    fontSize: 22,
+    lineHeight: 28,
+    fontWeight: "700",
+  },
+  summaryLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    textAlign: "center",
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    marginBottom: 12,
+  },
+  sectionHeaderTitle: {
+    marginBottom: 0,
+  },
+  sectionAction: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  favoritesHeader: {
+    marginTop: 16,
+  },
+  chipRow: {
+    flexDirection: "row",
+    gap: 8,
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 16,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  emptyState: {
+    alignItems: "center",
+    gap: 12,
+    paddingVertical: 32,
+  },
+  emptyText: {
+    fontSize: 14,
+    opacity: 0.6,
+    textAlign: "center",
+  },
+  passageRow: {
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  favoriteRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  favoriteContent: {
+    flex: 1,
+  },
+  passageHeader: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+  },
+  passageReference: {
+    fontSize: 16,
+    fontWeight: "600",
+    fontFamily: "Times New Roman",
+  },
+  passageAccuracy: {
+    fontSize: 16,
+    fontWeight: "700",
+  },
+  modeRow: {
+    flexDirection: "row",
+    gap: 12,
+    marginTop: 6,
+  },
+  modeStat: {
+    fontSize: 13,
+  },
+  passageMeta: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  bottomContainer: {
+    padding: 20,
+    borderTopWidth: 1,
+  },
+});
@@ -0,0 +1,134 @@
+import React from 'react';
+import { Pressable, View, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+} from 'react-native-reanimated';
+
+import { ThemedText } from '@/components/ThemedText';
+import { ScriptureCollection } from '@/types/scripture';
+import { ALL_COLLECTIONS, COLLECTION_DEFINITIONS } from '@/constants/Collections';
+
+// Spring config for natural feel
+const SPRING_CONFIG = {
+  damping: 15,
+  stiffness: 150,
+};
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+interface CollectionChipProps {
+  collection: ScriptureCollection;
+  selected: boolean;
+  onPress: () => void;
+  colorScheme: 'light' | 'dark' | null;
+}
+
+function CollectionChip({ collection, selected, onPress, colorScheme }: CollectionChipProps) {
+  const scale = useSharedValue(1);
+  const isDark = colorScheme === 'dark';
+  const definition = COLLECTION_DEFINITIONS[collection];
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  // Warm accent to match the difficulty segments
+  const selectedBg = isDark ? '#b45309' : '#fcd34d';
+  const selectedText = isDark ? 'white' : '#78350f';
+  const idleBorder = isDark ? 'rgba(245, 158, 11, 0.35)' : 'rgba(180, 83, 9, 0.25)';
+  const idleText = isDark ? '#f59e0b' : '#b45309';
+
+  return (
+    <AnimatedPressable
+      style={[
+        styles.chip,
+        selected
+          ? { backgroundColor: selectedBg, borderColor: selectedBg }
+          : { borderColor: idleBorder },
+        animatedStyle,
+      ]}
+      onPress={onPress}
+      onPressIn={() => {
+        scale.value = withSpring(0.95, SPRING_CONFIG);
+      }}
+      onPressOut={() => {
+        scale.value = withSpring(1, SPRING_CONFIG);
+      }}
+      accessibilityRole="checkbox"
+      accessibilityState={{ checked: selected }}
+      accessibilityLabel={definition.name}
+      accessibilityHint={`Double tap to ${selected ? 'exclude' : 'include'} ${definition.name} scriptures`}
+    >
+      {selected && (
+        <Ionicons name="checkmark" size={14} color={selectedText} style={styles.chipIcon} />
+      )}
+      <ThemedText style={[styles.chipText, { color: selected ? selectedText : idleText }]}>
+        {definition.shortName}
+      </ThemedText>
+    </AnimatedPressable>
+  );
+}
+
+interface CollectionFilterProps {
+  selectedCollections: ScriptureCollection[];
+  onToggle: (collection: ScriptureCollection) => void;
+  colorScheme: 'light' | 'dark' | null;
+}
+
+/**
+ * Row of toggleable chips for choosing which standard works a game draws from.
+ * At least one collection always stays selected.
+ */
+export function CollectionFilter({ selectedCollections, onToggle, colorScheme }: CollectionFilterProps) {
+  const handleToggle = (collection: ScriptureCollection) => {
+    const isLastSelected =
+      selectedCollections.length === 1 && selectedCollections[0] === collection;
+    if (isLastSelected) {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+      return;
+    }
+    Haptics.selectionAsync();
+    onToggle(collection);
+  };
+
+  return (
+    <View style={styles.container} accessibilityRole="list">
+      {ALL_COLLECTIONS.map((collection) => (
+        <CollectionChip
+          key={collection}
+          collection={collection}
+          selected={selectedCollections.includes(collection)}
+          onPress={() => handleToggle(collection)}
+          colorScheme={colorScheme}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+  },
+  chipIcon: {
+    marginRight: 4,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -14,6 +14,7 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useFocusEffect } from 'expo-router';
 import { ThemedText } from '@/components/ThemedText';
+import { STREAK_FREEZE_MAX } from '@/constants/Daily';
 import { useDailyChallenge } from '@/hooks/useDailyChallenge';
 import { useColorScheme } from '@/hooks/useColorScheme';
 
@@ -30,6 +31,8 @@ const SPRING_CONFIG = {
   stiffness: 150,
 };
 
+const FREEZE_COLOR = '#60a5fa';
+
 // Animated number component for streak counter
 function AnimatedNumber({ value, color }: { value: number; color: string }) {
   const animatedValue = useSharedValue(0);
@@ -155,6 +158,8 @@ export function DailyChallengeCard({ onPress }: DailyChallengeCardProps) {
 
   const textColor = getTextColor();
   const subtitleColor = getSubtitleColor();
+  const streakFreezes = stats.streakFreezes ?? 0;
+  const showFreezes = stats.currentStreak > 0 || streakFreezes > 0;
 
   return (
     <Animated.View style={[styles.container, animatedContainerStyle]}>
@@ -163,7 +168,7 @@ export function DailyChallengeCard({ onPress }: DailyChallengeCardProps) {
         onPressIn={handlePressIn}
         onPressOut={handlePressOut}
         accessibilityRole="button"
-        accessibilityLabel={`Daily Challenge. ${todayCompleted ? 'Completed' : 'New scripture available'}. ${stats.currentStreak} day streak.`}
+        accessibilityLabel={`Daily Challenge. ${todayCompleted ? 'Completed' : 'New scripture available'}. ${stats.currentStreak} day streak. ${streakFreezes} streak ${streakFreezes === 1 ? 'freeze' : 'freezes'}.`}
         accessibilityHint={todayCompleted ? 'Double tap to view your result' : 'Double tap to start the daily challenge'}
       >
         <LinearGradient
@@ -204,22 +209,39 @@ export function DailyChallengeCard({ onPress }: DailyChallengeCardProps) {
               </View>
             </View>
 
-            {/* Right: Streak */}
-            <View style={styles.streakSection}>
-              {stats.currentStreak > 0 ? (
-                <>
-                  <Ionicons name="flame" size={18} color="#ff6b35" />
-                  <View style={styles.streakTextContainer}>
-                    <AnimatedNumber value={stats.currentStreak} color={textColor} />
-                    <ThemedText style={[styles.streakLabel, { color: textColor }]}>
-                      {getStreakText()}
-                    </ThemedText>
-                  </View>
-                </>
-              ) : (
-                <ThemedText style={[styles.streakTextSmall, { color: subtitleColor }]}>
-                  {getStreakText()}
-                </ThemedText>
+            {/* Right: Streak and banked freezes */}
+            <View style={styles.rightSection}>
+              <View style={styles.streakSection}>
+                {stats.currentStreak > 0 ? (
+                  <>
+                    <Ionicons name="flame" size={18} color="#ff6b35" />
+                    <View style={styles.streakTextContainer}>
+                      <AnimatedNumber value={stats.currentStreak} color={textColor} />
+                      <ThemedText style={[styles.streakLabel, { color: textColor }]}>
+                        {getStreakText()}
+                      </ThemedText>
+                    </View>
+                  </>
+                ) : (
+                  <ThemedText style={[styles.streakTextSmall, { color: subtitleColor }]}>
+                    {getStreakText()}
+                  </ThemedText>
+                )}
+              </View>
+              {showFreezes && (
+                <View style={styles.freezeRow}>
+                  {Array.from({ length: STREAK_FREEZE_MAX }, (_, i) => (
+                    <Ionicons
+                      key={i}
+                      name={i < streakFreezes ? 'snow' : 'snow-outline'}
+                      size={14}
+                      color={i < streakFreezes ? FREEZE_COLOR : subtitleColor}
+                    />
+                  ))}
+                  <ThemedText style={[styles.freezeLabel, { color: subtitleColor }]}>
+                    {streakFreezes} {streakFreezes === 1 ? 'freeze' : 'freezes'}
+                  </ThemedText>
+                </View>
               )}
             </View>
           </View>
@@ -277,6 +299,10 @@ const styles = StyleSheet.create({
     fontSize: 13,
     fontWeight: '500',
   },
+  rightSection: {
+    alignItems: 'center',
+    marginLeft: 10,
+  },
   streakSection: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -284,7 +310,17 @@ const styles = StyleSheet.create({
     paddingHorizontal: 14,
     paddingVertical: 10,
     borderRadius: 22,
-    marginLeft: 10,
+  },
+  freezeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginTop: 6,
+  },
+  freezeLabel: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 2,
   },
   streakTextContainer: {
     flexDirection: 'row',
@@ -12,13 +12,15 @@ import { ThemedText } from '@/components/ThemedText';
 import { AvatarWithRank } from '@/components/AvatarWithRank';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
-import { LeaderboardEntry as LeaderboardEntryType } from '@/types/scripture';
+import { getBoardSessionLength } from '@/constants/SessionLengths';
+import { LeaderboardEntry as LeaderboardEntryType, LeaderboardMetric } from '@/types/scripture';
 
 interface Props {
   entry: LeaderboardEntryType;
   rank: number;
   isCurrentUser: boolean;
   index?: number; // For staggered animation
+  metric?: LeaderboardMetric; // Which value to display
 }
 
 // Medal colors for top 3 glow effect
@@ -28,9 +30,11 @@ const MEDAL_COLORS = {
   3: '#CD7F32', // Bronze
 };
 
-export function LeaderboardEntry({ entry, rank, isCurrentUser, index = 0 }: Props) {
+export function LeaderboardEntry({ entry, rank, isCurrentUser, index = 0, metric = 'score' }: Props) {
   const colorScheme = useColorScheme();
   const colors = Colors[colorScheme ?? 'light'];
+  // Scores out of the session length, or a plain count for all-scripture sessions
+  const sessionLength = getBoardSessionLength(entry.difficulty);
 
   // Animation values
   const animationProgress = useSharedValue(0);
@@ -113,7 +117,15 @@ export function LeaderboardEntry({ entry, rank, isCurrentUser, index = 0 }: Prop
         animatedStyle,
       ]}
       accessibilityRole="button"
-      accessibilityLabel={`Rank ${rank}, ${entry.nickname}, score ${entry.score} out of 10${isCurrentUser ? ', this is you' : ''}`}
+      accessibilityLabel={`Rank ${rank}, ${entry.nickname}, ${
+        metric === 'points'
+          ? `${entry.points ?? 0} points`
+          : metric === 'survival'
+            ? `survival run of ${entry.survival ?? 0}`
+            : sessionLength === 'all'
+              ? `${entry.score} correct`
+              : `score ${entry.score} out of ${sessionLength}`
+      }${isCurrentUser ? ', this is you' : ''}`}
     >
       {/* Left accent bar for current user */}
       {isCurrentUser && (
@@ -151,7 +163,13 @@ export function LeaderboardEntry({ entry, rank, isCurrentUser, index = 0 }: Prop
 
         <View style={[styles.scoreContainer, { backgroundColor: `${colors.tint}15` }]}>
           <ThemedText style={[styles.score, { color: colors.tint }]}>
-            {entry.score}/10
+            {metric === 'points'
+              ? `${entry.points ?? 0} pts`
+              : metric === 'survival'
+                ? `${entry.survival ?? 0} run`
+                : sessionLength === 'all'
+                  ? `${entry.score}`
+                  : `${entry.score}/${sessionLength}`}
           </ThemedText>
         </View>
       </View>
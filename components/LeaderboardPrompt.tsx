@@ -18,14 +18,16 @@ import { BaseModal } from '@/components/BaseModal';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 import { Ionicons } from '@expo/vector-icons';
-import { GameMode } from '@/types/scripture';
+import { ScoreCategory } from '@/types/scripture';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface Props {
   visible: boolean;
   score: number;
   totalQuestions: number;
-  difficulty: GameMode;
+  difficulty: ScoreCategory;
+  // Survival runs have no question total; the score is the run length
+  isSurvivalRun?: boolean;
   isNewHighScore: boolean;
   hasNickname: boolean;
   nickname?: string | null;
@@ -40,6 +42,7 @@ export function LeaderboardPrompt({
   score,
   totalQuestions,
   difficulty,
+  isSurvivalRun = false,
   isNewHighScore,
   hasNickname,
   nickname,
@@ -228,9 +231,15 @@ export function LeaderboardPrompt({
         return 'Medium';
       case 'hard':
         return 'Hard';
+      case 'speed':
+        return 'Speed';
     }
   };
 
+  const scoreDescription = isSurvivalRun
+    ? `Survival run of ${score}`
+    : `Score ${score} out of ${totalQuestions}`;
+
   return (
     <>
       <BaseModal
@@ -238,7 +247,7 @@ export function LeaderboardPrompt({
         onClose={onClose}
         animationType="spring"
         testID="leaderboard-prompt-modal"
-        accessibilityLabel={`Score ${score} out of ${totalQuestions}. Save to leaderboard?`}
+        accessibilityLabel={`${scoreDescription}. Save to leaderboard?`}
       >
         <View style={styles.content}>
           {/* Trophy Icon with Bounce */}
@@ -247,16 +256,18 @@ export function LeaderboardPrompt({
           </Animated.View>
 
           <ThemedText style={styles.title} accessibilityRole="header">
-            {isNewHighScore ? 'New High Score!' : 'Great Score!'}
+            {isSurvivalRun
+              ? isNewHighScore ? 'New Best Run!' : 'Great Run!'
+              : isNewHighScore ? 'New High Score!' : 'Great Score!'}
           </ThemedText>
 
           {/* Animated Score Display */}
           <Animated.View style={[styles.scoreContainer, scoreAnimatedStyle]}>
-            <ThemedText style={styles.score} accessibilityLabel={`${score} out of ${totalQuestions}`}>
-              {displayedScore}/{totalQuestions}
+            <ThemedText style={styles.score} accessibilityLabel={scoreDescription}>
+              {isSurvivalRun ? displayedScore : `${displayedScore}/${totalQuestions}`}
             </ThemedText>
             <ThemedText style={styles.difficulty}>
-              {getDifficultyLabel()} Mode
+              {isSurvivalRun ? `Survival · ${getDifficultyLabel()}` : `${getDifficultyLabel()} Mode`}
             </ThemedText>
           </Animated.View>
 
@@ -0,0 +1,132 @@
+import React, { useRef, useEffect } from 'react';
+import { View, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import * as Haptics from 'expo-haptics';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+
+export const PICKER_ITEM_HEIGHT = 44;
+const VISIBLE_ITEMS = 3;
+
+interface PickerColumnProps {
+  items: (string | number)[];
+  selectedIndex: number;
+  onSelect: (index: number) => void;
+  colors: typeof Colors.light;
+  formatItem?: (item: string | number) => string;
+  accessibilityLabel?: string;
+}
+
+/**
+ * Snapping scroll wheel showing three items with the selection centered.
+ * Scrolls to `selectedIndex` on mount only, so remount (via `key`) when
+ * the item list changes.
+ */
+export function PickerColumn({
+  items,
+  selectedIndex,
+  onSelect,
+  colors,
+  formatItem,
+  accessibilityLabel,
+}: PickerColumnProps) {
+  const scrollRef = useRef<ScrollView>(null);
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({
+      y: selectedIndex * PICKER_ITEM_HEIGHT,
+      animated: false,
+    });
+  }, []);
+
+  const handleScroll = (event: { nativeEvent: { contentOffset: { y: number } } }) => {
+    const y = event.nativeEvent.contentOffset.y;
+    const index = Math.round(y / PICKER_ITEM_HEIGHT);
+    if (index >= 0 && index < items.length && index !== selectedIndex) {
+      onSelect(index);
+      Haptics.selectionAsync();
+    }
+  };
+
+  return (
+    <View style={styles.pickerColumn} accessibilityLabel={accessibilityLabel}>
+      <ScrollView
+        ref={scrollRef}
+        showsVerticalScrollIndicator={false}
+        snapToInterval={PICKER_ITEM_HEIGHT}
+        decelerationRate="fast"
+        onMomentumScrollEnd={handleScroll}
+        contentContainerStyle={styles.pickerContent}
+      >
+        {/* Top padding for centering */}
+        <View style={{ height: PICKER_ITEM_HEIGHT }} />
+        {items.map((item, index) => {
+          const isSelected = index === selectedIndex;
+          return (
+            <TouchableOpacity
+              key={index}
+              style={styles.pickerItem}
+              onPress={() => {
+                onSelect(index);
+                scrollRef.current?.scrollTo({
+                  y: index * PICKER_ITEM_HEIGHT,
+                  animated: true,
+                });
+                Haptics.selectionAsync();
+              }}
+            >
+              <ThemedText
+                style={[
+                  styles.pickerItemText,
+                  isSelected && { color: colors.tint, fontWeight: '700' },
+                  !isSelected && { opacity: 0.4 },
+                ]}
+              >
+                {formatItem ? formatItem(item) : String(item)}
+              </ThemedText>
+            </TouchableOpacity>
+          );
+        })}
+        {/* Bottom padding for centering */}
+        <View style={{ height: PICKER_ITEM_HEIGHT }} />
+      </ScrollView>
+      {/* Selection indicator */}
+      <View pointerEvents="none" style={styles.selectionIndicatorContainer}>
+        <View style={[styles.selectionIndicator, { backgroundColor: colors.tint + '20' }]} />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  pickerColumn: {
+    width: 60,
+    height: PICKER_ITEM_HEIGHT * VISIBLE_ITEMS,
+    position: 'relative',
+  },
+  pickerContent: {
+    alignItems: 'center',
+  },
+  pickerItem: {
+    height: PICKER_ITEM_HEIGHT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pickerItemText: {
+    fontSize: 22,
+    fontWeight: '500',
+  },
+  selectionIndicatorContainer: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  selectionIndicator: {
+    height: PICKER_ITEM_HEIGHT,
+    width: '100%',
+    borderRadius: 8,
+  },
+});
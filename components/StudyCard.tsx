@@ -0,0 +1,144 @@
+import React, { useCallback, useMemo } from 'react';
+import { Pressable, View, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+} from 'react-native-reanimated';
+import { useFocusEffect } from 'expo-router';
+import { ThemedText } from '@/components/ThemedText';
+import { Colors } from '@/constants/Colors';
+import { STUDY_NEW_PER_SESSION } from '@/constants/Study';
+import { useGamePreferences } from '@/contexts/GamePreferencesContext';
+import { getScripturesByCollections } from '@/data/scriptureData';
+import { useColorScheme } from '@/hooks/useColorScheme';
+import { useStudyQueue } from '@/hooks/useStudyQueue';
+
+interface StudyCardProps {
+  onPress: () => void;
+}
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+// Spring config for natural feel
+const SPRING_CONFIG = {
+  damping: 15,
+  stiffness: 150,
+};
+
+/**
+ * Home screen entry to spaced-repetition study, showing how many passages
+ * from the selected collections are due for review today.
+ */
+export function StudyCard({ onPress }: StudyCardProps) {
+  const colorScheme = useColorScheme() ?? 'light';
+  const colors = Colors[colorScheme];
+  const { selectedCollections } = useGamePreferences();
+  const { isLoading, getDueCount, getNewCount, refreshReviews } = useStudyQueue();
+  const scale = useSharedValue(1);
+
+  // Reviews are recorded from the game screen, so reload when coming back
+  useFocusEffect(
+    useCallback(() => {
+      refreshReviews();
+    }, [refreshReviews])
+  );
+
+  const pool = useMemo(() => getScripturesByCollections(selectedCollections), [selectedCollections]);
+  const dueCount = getDueCount(pool);
+  const newCount = Math.min(getNewCount(pool), STUDY_NEW_PER_SESSION);
+  const hasWork = dueCount > 0 || newCount > 0;
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  const getSubtitleText = () => {
+    if (dueCount > 0) return `${dueCount} passage${dueCount === 1 ? '' : 's'} due today`;
+    if (newCount > 0) return `All caught up · ${newCount} new to learn`;
+    return 'All caught up for today';
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <AnimatedPressable
+      style={[
+        styles.container,
+        { backgroundColor: `${colors.tint}10`, borderColor: `${colors.tint}30` },
+        !hasWork && styles.disabled,
+        animatedStyle,
+      ]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onPress();
+      }}
+      onPressIn={() => {
+        scale.value = withSpring(0.98, SPRING_CONFIG);
+      }}
+      onPressOut={() => {
+        scale.value = withSpring(1, SPRING_CONFIG);
+      }}
+      disabled={!hasWork}
+      accessibilityRole="button"
+      accessibilityLabel={`Study. ${getSubtitleText()}`}
+      accessibilityHint="Double tap to review passages that are due"
+      accessibilityState={{ disabled: !hasWork }}
+    >
+      <Ionicons name="school-outline" size={24} color={colors.tint} />
+      <View style={styles.textContainer}>
+        <ThemedText style={[styles.title, { color: colors.tint }]}>Study</ThemedText>
+        <ThemedText style={styles.subtitle}>{getSubtitleText()}</ThemedText>
+      </View>
+      {dueCount > 0 && (
+        <View style={[styles.dueBadge, { backgroundColor: colors.tint }]}>
+          <ThemedText style={styles.dueBadgeText}>{dueCount}</ThemedText>
+        </View>
+      )}
+      <Ionicons name="chevron-forward" size={20} color={colors.tint} style={{ opacity: 0.6 }} />
+    </AnimatedPressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 16,
+    borderRadius: 14,
+    borderWidth: 1,
+    marginBottom: 12,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  textContainer: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  subtitle: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  dueBadge: {
+    minWidth: 26,
+    height: 26,
+    borderRadius: 13,
+    paddingHorizontal: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 6,
+  },
+  dueBadgeText: {
+    color: 'white',
+    fontSize: 13,
+    fontWeight: '700',
+    lineHeight: 18,
+  },
+});
@@ -1,9 +1,8 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   View,
   StyleSheet,
   TouchableOpacity,
-  ScrollView,
   Platform,
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
@@ -11,6 +10,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { ThemedText } from '@/components/ThemedText';
 import { BaseModal } from '@/components/BaseModal';
+import { PickerColumn } from '@/components/PickerColumn';
 import { Colors } from '@/constants/Colors';
 import { useColorScheme } from '@/hooks/useColorScheme';
 
@@ -25,86 +25,6 @@ interface Props {
 const HOURS = Array.from({ length: 12 }, (_, i) => i + 1); // 1-12
 const MINUTES = Array.from({ length: 12 }, (_, i) => i * 5); // 0, 5, 10, ... 55
 const PERIODS = ['AM', 'PM'];
-const ITEM_HEIGHT = 44;
-const VISIBLE_ITEMS = 3;
-
-interface PickerColumnProps {
-  items: (string | number)[];
-  selectedIndex: number;
-  onSelect: (index: number) => void;
-  colors: typeof Colors.light;
-  formatItem?: (item: string | number) => string;
-}
-
-function PickerColumn({ items, selectedIndex, onSelect, colors, formatItem }: PickerColumnProps) {
-  const scrollRef = useRef<ScrollView>(null);
-
-  useEffect(() => {
-    scrollRef.current?.scrollTo({
-      y: selectedIndex * ITEM_HEIGHT,
-      animated: false,
-    });
-  }, []);
-
-  const handleScroll = (event: { nativeEvent: { contentOffset: { y: number } } }) => {
-    const y = event.nativeEvent.contentOffset.y;
-    const index = Math.round(y / ITEM_HEIGHT);
-    if (index >= 0 && index < items.length && index !== selectedIndex) {
-      onSelect(index);
-      Haptics.selectionAsync();
-    }
-  };
-
-  return (
-    <View style={styles.pickerColumn}>
-      <ScrollView
-        ref={scrollRef}
-        showsVerticalScrollIndicator={false}
-        snapToInterval={ITEM_HEIGHT}
-        decelerationRate="fast"
-        onMomentumScrollEnd={handleScroll}
-        contentContainerStyle={styles.pickerContent}
-      >
-        {/* Top padding for centering */}
-        <View style={{ height: ITEM_HEIGHT }} />
-        {items.map((item, index) => {
-          const isSelected = index === selectedIndex;
-          return (
-            <TouchableOpacity
-              key={index}
-              style={styles.pickerItem}
-              onPress={() => {
-                onSelect(index);
-                scrollRef.current?.scrollTo({
-                  y: index * ITEM_HEIGHT,
-                  animated: true,
-                });
-                Haptics.selectionAsync();
-              }}
-            >
-              <ThemedText
-                style={[
-                  styles.pickerItemText,
-                  isSelected && { color: colors.tint, fontWeight: '700' },
-                  !isSelected && { opacity: 0.4 },
-                ]}
-              >
-                {formatItem ? formatItem(item) : String(item)}
-              </ThemedText>
-            </TouchableOpacity>
-          );
-        })}
-        {/* Bottom padding for centering */}
-        <View style={{ height: ITEM_HEIGHT }} />
-      </ScrollView>
-      {/* Selection indicator */}
-      <View pointerEvents="none" style={styles.selectionIndicatorContainer}>
-        <View style={[styles.selectionIndicator, { backgroundColor: colors.tint + '20' }]} />
-      </View>
-    </View>
-  );
-}
-
 export function TimePickerModal({
   visible,
   onClose,
@@ -262,42 +182,11 @@ const styles = StyleSheet.create({
     padding: 8,
     marginBottom: 24,
   },
-  pickerColumn: {
-    width: 60,
-    height: ITEM_HEIGHT * VISIBLE_ITEMS,
-    position: 'relative',
-  },
-  pickerContent: {
-    alignItems: 'center',
-  },
-  pickerItem: {
-    height: ITEM_HEIGHT,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  pickerItemText: {
-    fontSize: 22,
-    fontWeight: '500',
-  },
   pickerSeparator: {
     fontSize: 24,
     fontWeight: '600',
     marginHorizontal: 4,
   },
-  selectionIndicatorContainer: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  selectionIndicator: {
-    height: ITEM_HEIGHT,
-    width: '100%',
-    borderRadius: 8,
-  },
   confirmButtonContainer: {
     width: '100%',
     borderRadius: 10,
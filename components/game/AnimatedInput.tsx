@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react";
-import { StyleSheet, TextInput, View } from "react-native";
+import { Pressable, ScrollView, StyleSheet, TextInput, View } from "react-native";
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
@@ -7,6 +7,7 @@ import Animated, {
   withSequence,
 } from "react-native-reanimated";
 
+import { ThemedText } from "@/components/ThemedText";
 import { Colors } from "@/constants/Colors";
 
 /**
@@ -31,6 +32,16 @@ export interface AnimatedInputProps {
   shouldShake: boolean;
   /** Callback invoked after shake animation completes */
   onShakeComplete: () => void;
+  /** Explanation shown under the input when the guess can't be graded (e.g., "Alma has only 63 chapters") */
+  errorMessage?: string | null;
+  /** Autocomplete suggestions shown under the input */
+  suggestions?: string[];
+  /** Callback when a suggestion is tapped */
+  onSelectSuggestion?: (suggestion: string) => void;
+  /** Grow to several lines for typing a passage instead of a reference */
+  multiline?: boolean;
+  /** Screen reader label; defaults to describing a reference guess */
+  accessibilityLabel?: string;
 }
 
 /**
@@ -39,6 +50,7 @@ export interface AnimatedInputProps {
  * Features:
  * - Animated border width and glow on focus
  * - Shake animation for incorrect answer feedback
+ * - Inline error message and tappable autocomplete suggestions
  * - Theme-aware styling
  * - Teal accent color matching the app's button variant
  *
@@ -67,6 +79,11 @@ export function AnimatedInput({
   inputRef,
   shouldShake,
   onShakeComplete,
+  errorMessage,
+  suggestions = [],
+  onSelectSuggestion,
+  multiline = false,
+  accessibilityLabel = "Enter your scripture reference guess",
 }: AnimatedInputProps): React.JSX.Element {
   const [isFocused, setIsFocused] = useState(false);
   const borderWidth = useSharedValue(1);
@@ -112,49 +129,88 @@ export function AnimatedInput({
   }));
 
   return (
-    <View style={styles.inputWrapper}>
-      {/* Glow effect */}
-      <Animated.View
-        style={[
-          styles.inputGlow,
-          {
-            backgroundColor: tealFocusColor,
-            shadowColor: tealFocusColor,
-          },
-          glowStyle,
-        ]}
-      />
-      <Animated.View
-        style={[
-          styles.animatedInputContainer,
-          inputContainerStyle,
-          { backgroundColor: colors.background },
-        ]}
-      >
-        <TextInput
-          ref={inputRef}
-          style={[styles.guessInputInner, { color: colors.text }]}
-          placeholder={placeholder}
-          placeholderTextColor={colorScheme === "dark" ? "#666" : "#888"}
-          value={value}
-          onChangeText={onChangeText}
-          autoCapitalize="words"
-          returnKeyType="go"
-          onSubmitEditing={onSubmitEditing}
-          onFocus={() => setIsFocused(true)}
-          onBlur={() => setIsFocused(false)}
-          accessibilityLabel="Enter your scripture reference guess"
-          accessibilityHint={placeholder}
+    <View style={styles.container}>
+      <View style={styles.inputWrapper}>
+        {/* Glow effect */}
+        <Animated.View
+          style={[
+            styles.inputGlow,
+            {
+              backgroundColor: tealFocusColor,
+              shadowColor: tealFocusColor,
+            },
+            glowStyle,
+          ]}
         />
-      </Animated.View>
+        <Animated.View
+          style={[
+            styles.animatedInputContainer,
+            inputContainerStyle,
+            { backgroundColor: colors.background },
+          ]}
+        >
+          <TextInput
+            ref={inputRef}
+            style={[
+              styles.guessInputInner,
+              multiline && styles.multilineInput,
+              { color: colors.text },
+            ]}
+            placeholder={placeholder}
+            placeholderTextColor={colorScheme === "dark" ? "#666" : "#888"}
+            value={value}
+            onChangeText={onChangeText}
+            autoCapitalize={multiline ? "sentences" : "words"}
+            returnKeyType={multiline ? "default" : "go"}
+            multiline={multiline}
+            onSubmitEditing={onSubmitEditing}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => setIsFocused(false)}
+            accessibilityLabel={accessibilityLabel}
+            accessibilityHint={placeholder}
+          />
+        </Animated.View>
+      </View>
+
+      {errorMessage ? (
+        <ThemedText
+          style={[styles.errorText, { color: colors.error }]}
+          accessibilityRole="alert"
+        >
+          {errorMessage}
+        </ThemedText>
+      ) : suggestions.length > 0 && onSelectSuggestion ? (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          keyboardShouldPersistTaps="always"
+          contentContainerStyle={styles.suggestionsRow}
+        >
+          {suggestions.map((suggestion) => (
+            <Pressable
+              key={suggestion}
+              style={[styles.suggestionChip, { borderColor: tealFocusColor }]}
+              onPress={() => onSelectSuggestion(suggestion)}
+              accessibilityRole="button"
+              accessibilityLabel={`Use ${suggestion}`}
+            >
+              <ThemedText style={[styles.suggestionText, { color: tealFocusColor }]}>
+                {suggestion}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </ScrollView>
+      ) : null}
     </View>
   );
 }
 
 const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+  },
   inputWrapper: {
     position: "relative",
-    marginBottom: 20,
   },
   inputGlow: {
     position: "absolute",
@@ -178,6 +234,29 @@ const styles = StyleSheet.create({
     fontSize: 16,
     letterSpacing: 0,
   },
+  multilineInput: {
+    minHeight: 100,
+    maxHeight: 160,
+    textAlignVertical: "top",
+  },
+  errorText: {
+    fontSize: 14,
+    marginTop: 8,
+  },
+  suggestionsRow: {
+    gap: 8,
+    paddingTop: 8,
+  },
+  suggestionChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  suggestionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
 });
 
 export default AnimatedInput;
@@ -17,6 +17,9 @@ import { Ionicons } from "@expo/vector-icons";
 
 import { ThemedText } from "@/components/ThemedText";
 import { Colors } from "@/constants/Colors";
+import { HINT_DEFINITIONS, getHintPenalty } from "@/constants/Hints";
+import { GameMode, GuessResult, HintKind, RecallResult, ClozeResult, ScrambleResult } from "@/types/scripture";
+import { WordDiff } from "@/components/game/WordDiff";
 
 // Animation constants for consistent spring physics
 const SPRING_CONFIG = {
@@ -88,6 +91,68 @@ function AnimatedFeedbackIcon({ isCorrect, colors }: AnimatedFeedbackIconProps)
   );
 }
 
+// Per-part breakdown of a graded guess, limited to the parts the mode asks for
+interface PointsBreakdownProps {
+  result: GuessResult;
+  mode: GameMode;
+  colors: typeof Colors.light;
+  speedBonus?: number;
+  hints?: HintKind[];
+}
+
+function PointsBreakdown({ result, mode, colors, speedBonus = 0, hints = [] }: PointsBreakdownProps) {
+  const hintPenalty = getHintPenalty(hints);
+  const totalPoints = Math.max(result.points + speedBonus - hintPenalty, 0);
+  const parts: { label: string; correct: boolean; detail?: string }[] = [
+    { label: "Book", correct: result.bookCorrect },
+  ];
+  if (mode !== "easy") {
+    const offBy = result.chapterDistance;
+    parts.push({
+      label: "Chapter",
+      correct: result.chapterCorrect,
+      detail: offBy !== null && offBy > 0 ? `${offBy} off` : undefined,
+    });
+  }
+  if (mode === "hard") {
+    parts.push({ label: "Verse", correct: result.verseCorrect });
+  }
+
+  return (
+    <View style={styles.breakdown}>
+      <ThemedText style={[styles.pointsText, { color: totalPoints > 0 ? colors.tint : "#888888" }]}>
+        +{totalPoints} pts
+      </ThemedText>
+      {speedBonus > 0 && (
+        <ThemedText style={styles.breakdownLabel}>
+          Includes a +{speedBonus} speed bonus
+        </ThemedText>
+      )}
+      {hints.length > 0 && (
+        <ThemedText style={styles.breakdownLabel}>
+          −{hintPenalty} for hints: {hints.map((hint) => HINT_DEFINITIONS[hint].name).join(", ")}
+        </ThemedText>
+      )}
+      {parts.length > 1 && (
+        <View style={styles.breakdownRow}>
+          {parts.map((part) => (
+            <View key={part.label} style={styles.breakdownItem}>
+              <Ionicons
+                name={part.correct ? "checkmark-circle" : "close-circle"}
+                size={14}
+                color={part.correct ? colors.success : colors.error}
+              />
+              <ThemedText style={styles.breakdownLabel}>
+                {part.detail ? `${part.label} (${part.detail})` : part.label}
+              </ThemedText>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
 // Animated Result Card with shake for incorrect
 export interface AnimatedResultCardProps {
   isCorrect: boolean;
@@ -95,6 +160,21 @@ export interface AnimatedResultCardProps {
   correctAnswer: string;
   fullReference: string;
   colors: typeof Colors.light;
+  // Why the guess couldn't be a real reference (e.g. "Alma has only 63 chapters")
+  guessNote?: string | null;
+  // Partial-credit grading for the guess, shown as points and a breakdown
+  result?: GuessResult | null;
+  mode?: GameMode;
+  // Grading for a passage typed from memory (recall mode); replaces the guess/answer lines
+  recall?: RecallResult | null;
+  // Grading for a fill-in-the-blank passage; the passage itself shows the right words
+  cloze?: ClozeResult | null;
+  // Grading for a rebuilt word scramble, scored on mistakes and time
+  scramble?: ScrambleResult | null;
+  // Extra points for answering quickly in a speed round
+  speedBonus?: number;
+  // Hints taken before answering, each costing some of the question's points
+  hints?: HintKind[];
 }
 
 export function AnimatedResultCard({
@@ -103,6 +183,14 @@ export function AnimatedResultCard({
   correctAnswer,
   fullReference,
   colors,
+  guessNote,
+  result,
+  mode = "easy",
+  recall,
+  cloze,
+  scramble,
+  speedBonus,
+  hints,
 }: AnimatedResultCardProps) {
   const translateX = useSharedValue(0);
   const flashOpacity = useSharedValue(0);
@@ -159,7 +247,56 @@ export function AnimatedResultCard({
 
       <AnimatedFeedbackIcon isCorrect={isCorrect} colors={colors} />
 
-      {isCorrect ? (
+      {recall ? (
+        <>
+          <ThemedText
+            style={[styles.correctText, { color: isCorrect ? colors.success : colors.error }]}
+          >
+            {isCorrect ? "Correct!" : "Not quite"}
+          </ThemedText>
+          <ThemedText style={styles.recallSummary}>
+            You recalled {recall.matchedWords} of {recall.totalWords} words
+          </ThemedText>
+          <View style={[styles.diffBox, { borderColor: colors.border }]}>
+            <WordDiff parts={recall.diff} colors={colors} />
+          </View>
+          <ThemedText style={[styles.pointsText, styles.recallPoints, { color: recall.points > 0 ? colors.tint : "#888888" }]}>
+            +{recall.points} pts
+          </ThemedText>
+        </>
+      ) : cloze ? (
+        <>
+          <ThemedText
+            style={[styles.correctText, { color: isCorrect ? colors.success : colors.error }]}
+          >
+            {isCorrect ? "Correct!" : "Not quite"}
+          </ThemedText>
+          <ThemedText style={styles.recallSummary}>
+            You filled {cloze.correctBlanks} of {cloze.totalBlanks} blanks correctly
+          </ThemedText>
+          <ThemedText style={[styles.pointsText, { color: cloze.points > 0 ? colors.tint : "#888888" }]}>
+            +{cloze.points} pts
+          </ThemedText>
+        </>
+      ) : scramble ? (
+        <>
+          <ThemedText
+            style={[styles.correctText, { color: isCorrect ? colors.success : colors.error }]}
+          >
+            {isCorrect ? "Correct!" : "Not quite"}
+          </ThemedText>
+          <ThemedText style={styles.recallSummary}>
+            Rebuilt in {scramble.seconds}s with {scramble.mistakes}{" "}
+            {scramble.mistakes === 1 ? "mistake" : "mistakes"}
+          </ThemedText>
+          <ThemedText style={styles.correctReference}>
+            {fullReference}
+          </ThemedText>
+          <ThemedText style={[styles.pointsText, { color: scramble.points > 0 ? colors.tint : "#888888" }]}>
+            +{scramble.points} pts
+          </ThemedText>
+        </>
+      ) : isCorrect ? (
         <>
           <ThemedText style={[styles.correctText, { color: colors.success }]}>
             Correct!
@@ -176,6 +313,11 @@ export function AnimatedResultCard({
               {userGuess}
             </ThemedText>
           </ThemedText>
+          {guessNote && (
+            <ThemedText style={styles.guessNote}>
+              {guessNote}
+            </ThemedText>
+          )}
           <ThemedText style={styles.correctReference}>
             It was{" "}
             <ThemedText style={[styles.correctAnswerText, { color: colors.success }]}>
@@ -185,6 +327,10 @@ export function AnimatedResultCard({
         </>
       )}
 
+      {result && (
+        <PointsBreakdown result={result} mode={mode} colors={colors} speedBonus={speedBonus} hints={hints} />
+      )}
+
       {/* Full reference link */}
       <TouchableOpacity
         style={styles.fullReferenceLink}
@@ -294,6 +440,14 @@ const styles = StyleSheet.create({
   userGuessText: {
     fontWeight: "bold",
   },
+  guessNote: {
+    fontSize: 14,
+    color: "#888888",
+    fontStyle: "italic",
+    textAlign: "center",
+    marginTop: -4,
+    marginBottom: 10,
+  },
   correctReference: {
     fontSize: 18,
     textAlign: "center",
@@ -302,6 +456,44 @@ const styles = StyleSheet.create({
   correctAnswerText: {
     fontWeight: "bold",
   },
+  recallSummary: {
+    fontSize: 16,
+    textAlign: "center",
+    marginBottom: 10,
+  },
+  diffBox: {
+    width: "100%",
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+  },
+  recallPoints: {
+    marginTop: 12,
+  },
+  breakdown: {
+    alignItems: "center",
+    marginTop: 12,
+  },
+  pointsText: {
+    fontSize: 16,
+    fontWeight: "bold",
+  },
+  breakdownRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "center",
+    gap: 12,
+    marginTop: 6,
+  },
+  breakdownItem: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  breakdownLabel: {
+    fontSize: 13,
+    marginLeft: 4,
+    color: "#888888",
+  },
   fullReferenceLink: {
     marginTop: 12,
   },
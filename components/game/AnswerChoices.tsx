@@ -0,0 +1,126 @@
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import * as Haptics from "expo-haptics";
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+} from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+
+// Animation constants for consistent spring physics
+const SPRING_CONFIG = {
+  damping: 15,
+  stiffness: 150,
+};
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+const OPTION_LETTERS = ["A", "B", "C", "D", "E", "F"];
+
+interface ChoiceButtonProps {
+  label: string;
+  letter: string;
+  onPress: () => void;
+  disabled?: boolean;
+  colors: typeof Colors.light;
+}
+
+function ChoiceButton({ label, letter, onPress, disabled, colors }: ChoiceButtonProps) {
+  const scale = useSharedValue(1);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  return (
+    <AnimatedPressable
+      style={[
+        styles.choice,
+        { borderColor: colors.border, backgroundColor: colors.background },
+        animatedStyle,
+      ]}
+      onPress={onPress}
+      onPressIn={() => {
+        scale.value = withSpring(0.97, SPRING_CONFIG);
+      }}
+      onPressOut={() => {
+        scale.value = withSpring(1, SPRING_CONFIG);
+      }}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel={`Option ${letter}: ${label}`}
+      accessibilityState={{ disabled }}
+    >
+      <View style={[styles.letterBadge, { backgroundColor: `${colors.tint}20` }]}>
+        <ThemedText style={[styles.letterText, { color: colors.tint }]}>{letter}</ThemedText>
+      </View>
+      <ThemedText style={styles.choiceText}>{label}</ThemedText>
+    </AnimatedPressable>
+  );
+}
+
+interface AnswerChoicesProps {
+  choices: string[];
+  onSelect: (choice: string) => void;
+  colors: typeof Colors.light;
+  disabled?: boolean;
+}
+
+/**
+ * Multiple-choice answer buttons; tapping an option answers the question
+ */
+export function AnswerChoices({ choices, onSelect, colors, disabled }: AnswerChoicesProps) {
+  return (
+    <View style={styles.container}>
+      {choices.map((choice, index) => (
+        <ChoiceButton
+          key={choice}
+          label={choice}
+          letter={OPTION_LETTERS[index] ?? String(index + 1)}
+          onPress={() => {
+            Haptics.selectionAsync();
+            onSelect(choice);
+          }}
+          disabled={disabled}
+          colors={colors}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 10,
+    marginBottom: 20,
+  },
+  choice: {
+    flexDirection: "row",
+    alignItems: "center",
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+  },
+  letterBadge: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: 12,
+  },
+  letterText: {
+    fontSize: 14,
+    fontWeight: "bold",
+  },
+  choiceText: {
+    fontSize: 18,
+    fontFamily: "Times New Roman",
+  },
+});
+
+export default AnswerChoices;
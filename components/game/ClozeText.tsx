@@ -0,0 +1,115 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+import { ClozePassage, ClozeResult } from "@/types/scripture";
+import { splitTokenPunctuation } from "@/utils/textUtils";
+
+const BLANK_PLACEHOLDER = "______";
+
+interface ClozeTextProps {
+  cloze: ClozePassage;
+  answers: string[];             // Lines up with cloze.blanks
+  colors: typeof Colors.light;
+  activeBlank?: number;          // Position in cloze.blanks being typed
+  onSelectBlank?: (position: number) => void;
+  result?: ClozeResult | null;   // When set, shows right and wrong words instead
+}
+
+const isDash = (token: string) => /^[—–]$/.test(token);
+
+/**
+ * Passage with blanks the player fills in. Tapping a blank selects it; once
+ * graded, right words turn green and wrong ones show the expected word.
+ */
+export function ClozeText({
+  cloze,
+  answers,
+  colors,
+  activeBlank,
+  onSelectBlank,
+  result,
+}: ClozeTextProps) {
+  return (
+    <ThemedText style={styles.text}>
+      {cloze.tokens.map((token, index) => {
+        const separator = index === 0 || isDash(token) || isDash(cloze.tokens[index - 1]) ? "" : " ";
+        const position = cloze.blanks.indexOf(index);
+        if (position === -1) {
+          return <React.Fragment key={index}>{separator + token}</React.Fragment>;
+        }
+
+        const [before, , after] = splitTokenPunctuation(token);
+        const graded = result?.answers[position];
+
+        if (graded) {
+          return (
+            <React.Fragment key={index}>
+              {separator + before}
+              {graded.correct ? (
+                <ThemedText style={[styles.blankWord, { color: colors.success }]}>
+                  {graded.expected}
+                </ThemedText>
+              ) : (
+                <>
+                  {graded.given.trim() !== "" && (
+                    <ThemedText style={[styles.wrongWord, { color: colors.error }]}>
+                      {graded.given.trim()}
+                    </ThemedText>
+                  )}
+                  {graded.given.trim() !== "" && " "}
+                  <ThemedText style={[styles.blankWord, { color: colors.success }]}>
+                    {graded.expected}
+                  </ThemedText>
+                </>
+              )}
+              {after}
+            </React.Fragment>
+          );
+        }
+
+        const answer = answers[position]?.trim();
+        const isActive = position === activeBlank;
+        return (
+          <React.Fragment key={index}>
+            {separator + before}
+            <ThemedText
+              style={[
+                styles.blankWord,
+                styles.blank,
+                { color: colors.tint },
+                isActive && { backgroundColor: `${colors.tint}20` },
+              ]}
+              onPress={onSelectBlank ? () => onSelectBlank(position) : undefined}
+              accessibilityRole="button"
+              accessibilityLabel={`Blank ${position + 1}${answer ? `, ${answer}` : ", empty"}`}
+            >
+              {answer || BLANK_PLACEHOLDER}
+            </ThemedText>
+            {after}
+          </React.Fragment>
+        );
+      })}
+    </ThemedText>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 18,
+    lineHeight: 30,
+    fontFamily: "Times New Roman",
+  },
+  blankWord: {
+    fontWeight: "bold",
+  },
+  blank: {
+    textDecorationLine: "underline",
+  },
+  wrongWord: {
+    textDecorationLine: "line-through",
+  },
+});
+
+export default ClozeText;
@@ -0,0 +1,152 @@
+import React from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+} from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+import { HINT_DEFINITIONS } from "@/constants/Hints";
+import { HintKind, Scripture } from "@/types/scripture";
+import { getHintText } from "@/utils/hintUtils";
+
+// Animation constants for consistent spring physics
+const SPRING_CONFIG = {
+  damping: 15,
+  stiffness: 150,
+};
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+interface HintButtonProps {
+  hint: HintKind;
+  onPress: () => void;
+  disabled?: boolean;
+  colors: typeof Colors.light;
+}
+
+function HintButton({ hint, onPress, disabled, colors }: HintButtonProps) {
+  const scale = useSharedValue(1);
+  const { name, penalty } = HINT_DEFINITIONS[hint];
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  return (
+    <AnimatedPressable
+      style={[styles.hintButton, { borderColor: colors.border }, animatedStyle]}
+      onPress={onPress}
+      onPressIn={() => {
+        scale.value = withSpring(0.95, SPRING_CONFIG);
+      }}
+      onPressOut={() => {
+        scale.value = withSpring(1, SPRING_CONFIG);
+      }}
+      disabled={disabled}
+      accessibilityRole="button"
+      accessibilityLabel={`${name} hint, costs ${penalty} points`}
+      accessibilityState={{ disabled }}
+    >
+      <ThemedText style={styles.hintName}>{name}</ThemedText>
+      <ThemedText style={[styles.hintPenalty, { color: colors.error }]}>−{penalty}</ThemedText>
+    </AnimatedPressable>
+  );
+}
+
+interface HintBarProps {
+  scripture: Scripture;
+  available: HintKind[];
+  used: HintKind[];
+  onUseHint: (hint: HintKind) => void;
+  colors: typeof Colors.light;
+  disabled?: boolean;
+}
+
+/**
+ * Hints for a reference question: what has been revealed so far, and buttons
+ * for the rest showing what each one costs
+ */
+export function HintBar({ scripture, available, used, onUseHint, colors, disabled }: HintBarProps) {
+  const remaining = available.filter((hint) => !used.includes(hint));
+
+  return (
+    <View style={styles.container}>
+      {used.map((hint) => (
+        <View key={hint} style={[styles.revealed, { backgroundColor: `${colors.tint}10` }]}>
+          <Ionicons name="bulb" size={16} color={colors.tint} style={styles.revealedIcon} />
+          <ThemedText style={styles.revealedText}>{getHintText(hint, scripture)}</ThemedText>
+        </View>
+      ))}
+      {remaining.length > 0 && (
+        <View style={styles.buttonRow}>
+          <Ionicons name="bulb-outline" size={16} color={colors.icon} />
+          {remaining.map((hint) => (
+            <HintButton
+              key={hint}
+              hint={hint}
+              onPress={() => {
+                Haptics.selectionAsync();
+                onUseHint(hint);
+              }}
+              disabled={disabled}
+              colors={colors}
+            />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 8,
+    marginTop: 12,
+  },
+  revealed: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  revealedIcon: {
+    marginTop: 2,
+    marginRight: 8,
+  },
+  revealedText: {
+    flex: 1,
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  buttonRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    alignItems: "center",
+    gap: 8,
+  },
+  hintButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 14,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  hintName: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  hintPenalty: {
+    fontSize: 12,
+    fontWeight: "600",
+  },
+});
+
+export default HintBar;
@@ -1,11 +1,17 @@
 import React, { useEffect } from 'react';
-import { View, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet } from 'react-native';
 import Animated, {
   useSharedValue,
   useAnimatedStyle,
   withTiming,
   withSpring,
+  withSequence,
+  Easing,
 } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+
+/** Longer games show a question count instead of a row of dots */
+const MAX_PROGRESS_DOTS = 10;
 
 /** Spring configuration for smooth animations */
 const SPRING_CONFIG = {
@@ -58,6 +64,122 @@ function ProgressDot({ index, status, isCurrent, colorScheme }: ProgressDotProps
   );
 }
 
+interface CountdownBarProps {
+  secondsLeft: number;
+  totalSeconds: number;
+  colorScheme: 'light' | 'dark';
+}
+
+/**
+ * A shrinking bar for the per-question clock in speed rounds.
+ * Each tick animates smoothly toward the next second so the bar empties at zero.
+ */
+function CountdownBar({ secondsLeft, totalSeconds, colorScheme }: CountdownBarProps) {
+  const fill = useSharedValue(secondsLeft / totalSeconds);
+
+  useEffect(() => {
+    fill.value = withSequence(
+      withTiming(secondsLeft / totalSeconds, { duration: 0 }),
+      withTiming(Math.max(secondsLeft - 1, 0) / totalSeconds, {
+        duration: 1000,
+        easing: Easing.linear,
+      })
+    );
+  }, [secondsLeft, totalSeconds, fill]);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    width: `${fill.value * 100}%`,
+  }));
+
+  const ratio = secondsLeft / totalSeconds;
+  const color = ratio > 2 / 3 ? '#4CAF50' : ratio > 1 / 3 ? '#FF9800' : '#F44336';
+
+  return (
+    <View
+      style={styles.countdownContainer}
+      accessibilityLabel={`${secondsLeft} seconds left`}
+      accessibilityRole="timer"
+    >
+      <View
+        style={[
+          styles.countdownTrack,
+          { backgroundColor: colorScheme === 'dark' ? '#555' : '#ddd' },
+        ]}
+      >
+        <Animated.View style={[styles.countdownFill, { backgroundColor: color }, animatedStyle]} />
+      </View>
+      <Text style={[styles.countdownText, { color }]}>{secondsLeft}s</Text>
+    </View>
+  );
+}
+
+interface LifeHeartProps {
+  isLost: boolean;
+  colorScheme: 'light' | 'dark';
+}
+
+/**
+ * A single heart in the lives indicator. Pops when the life is lost.
+ */
+function LifeHeart({ isLost, colorScheme }: LifeHeartProps) {
+  const scale = useSharedValue(1);
+
+  useEffect(() => {
+    if (isLost) {
+      scale.value = withSequence(
+        withSpring(1.4, SPRING_CONFIG),
+        withSpring(1, SPRING_CONFIG)
+      );
+    }
+  }, [isLost, scale]);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  return (
+    <Animated.View style={animatedStyle}>
+      <Ionicons
+        name={isLost ? 'heart-outline' : 'heart'}
+        size={14}
+        color={isLost ? (colorScheme === 'dark' ? '#555' : '#ccc') : '#F44336'}
+      />
+    </Animated.View>
+  );
+}
+
+export interface LivesIndicatorProps {
+  /** Lives the player has left */
+  livesLeft: number;
+  /** Lives the run started with */
+  totalLives: number;
+  /** Correct answers so far in the run */
+  run: number;
+  /** Current color scheme for theming */
+  colorScheme: 'light' | 'dark';
+}
+
+/**
+ * Displays the remaining lives and current run length for survival games,
+ * which have no fixed number of questions to show as dots.
+ */
+export function LivesIndicator({ livesLeft, totalLives, run, colorScheme }: LivesIndicatorProps) {
+  return (
+    <View
+      style={styles.progressContainer}
+      accessibilityLabel={`${livesLeft} of ${totalLives} lives left, run of ${run}`}
+      accessibilityRole="progressbar"
+    >
+      {Array.from({ length: totalLives }).map((_, index) => (
+        <LifeHeart key={index} isLost={index >= livesLeft} colorScheme={colorScheme} />
+      ))}
+      <Text style={[styles.countText, { color: colorScheme === 'dark' ? '#ccc' : '#666' }]}>
+        Run: {run}
+      </Text>
+    </View>
+  );
+}
+
 export interface ProgressIndicatorProps {
   /** The current question number (1-indexed) */
   currentQuestion: number;
@@ -67,38 +189,64 @@ export interface ProgressIndicatorProps {
   answers: ('correct' | 'incorrect' | 'pending')[];
   /** Current color scheme for theming */
   colorScheme: 'light' | 'dark';
+  /** Seconds left on the current question's clock; shows a countdown when set */
+  secondsLeft?: number;
+  /** Seconds each question starts with */
+  totalSeconds?: number;
 }
 
 /**
  * Displays a row of dots representing game progress.
  * Each dot shows whether a question is pending, answered correctly, or incorrectly.
+ * Longer games show a running count instead of dots.
+ * Timed games also get a countdown bar for the current question.
  */
 export function ProgressIndicator({
   currentQuestion,
   totalQuestions,
   answers,
-  colorScheme
+  colorScheme,
+  secondsLeft,
+  totalSeconds,
 }: ProgressIndicatorProps) {
   return (
-    <View
-      style={styles.progressContainer}
-      accessibilityLabel={`Question ${currentQuestion} of ${totalQuestions}`}
-      accessibilityRole="progressbar"
-    >
-      {Array.from({ length: totalQuestions }).map((_, index) => (
-        <ProgressDot
-          key={index}
-          index={index}
-          status={answers[index] || 'pending'}
-          isCurrent={index === currentQuestion - 1}
+    <View style={styles.wrapper}>
+      <View
+        style={styles.progressContainer}
+        accessibilityLabel={`Question ${currentQuestion} of ${totalQuestions}`}
+        accessibilityRole="progressbar"
+      >
+        {totalQuestions > MAX_PROGRESS_DOTS ? (
+          <Text style={[styles.countText, { color: colorScheme === 'dark' ? '#ccc' : '#666' }]}>
+            {currentQuestion} / {totalQuestions} · {answers.filter((a) => a === 'correct').length} correct
+          </Text>
+        ) : (
+          Array.from({ length: totalQuestions }).map((_, index) => (
+            <ProgressDot
+              key={index}
+              index={index}
+              status={answers[index] || 'pending'}
+              isCurrent={index === currentQuestion - 1}
+              colorScheme={colorScheme}
+            />
+          ))
+        )}
+      </View>
+      {secondsLeft !== undefined && totalSeconds !== undefined && (
+        <CountdownBar
+          secondsLeft={secondsLeft}
+          totalSeconds={totalSeconds}
           colorScheme={colorScheme}
         />
-      ))}
+      )}
     </View>
   );
 }
 
 const styles = StyleSheet.create({
+  wrapper: {
+    alignItems: 'center',
+  },
   progressContainer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -111,6 +259,34 @@ const styles = StyleSheet.create({
     height: 8,
     borderRadius: 4,
   },
+  countdownContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 6,
+    width: 140,
+  },
+  countdownTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  countdownFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  countdownText: {
+    fontSize: 11,
+    fontWeight: '600',
+    minWidth: 24,
+    textAlign: 'right',
+  },
+  countText: {
+    fontSize: 11,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
   progressDotCurrent: {
     borderWidth: 1,
     borderColor: 'rgba(0,0,0,0.2)',
@@ -0,0 +1,249 @@
+import React, { useMemo, useState } from "react";
+import { ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { PickerColumn } from "@/components/PickerColumn";
+import { Colors } from "@/constants/Colors";
+import { ALL_COLLECTIONS, COLLECTION_DEFINITIONS } from "@/constants/Collections";
+import { canonBooks } from "@/data/canonCatalog";
+import { GameMode, ScriptureCollection } from "@/types/scripture";
+import { buildGuess } from "@/utils/scriptureUtils";
+
+interface ReferencePickerProps {
+  mode: GameMode;
+  onChange: (guess: string) => void;
+  colors: typeof Colors.light;
+  // Volumes to offer; defaults to all of them
+  collections?: ScriptureCollection[];
+}
+
+interface ChipProps {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+  colors: typeof Colors.light;
+  accessibilityLabel?: string;
+}
+
+function Chip({ label, selected, onPress, colors, accessibilityLabel }: ChipProps) {
+  return (
+    <TouchableOpacity
+      style={[
+        styles.chip,
+        { borderColor: selected ? colors.tint : colors.border },
+        selected && { backgroundColor: colors.tint },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+      accessibilityRole="button"
+      accessibilityState={{ selected }}
+      accessibilityLabel={accessibilityLabel ?? label}
+    >
+      <ThemedText style={[styles.chipText, selected && styles.chipTextSelected]}>
+        {label}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * Tap-through alternative to typing a reference: volume, then book, then
+ * chapter and verse wheels, showing only the levels the mode needs. Reports
+ * the same guess string a player would type.
+ */
+export function ReferencePicker({ mode, onChange, colors, collections }: ReferencePickerProps) {
+  const [collection, setCollection] = useState<ScriptureCollection | null>(null);
+  const [bookName, setBookName] = useState<string | null>(null);
+  const [chapterIndex, setChapterIndex] = useState(0);
+  const [verseIndex, setVerseIndex] = useState(0);
+
+  const volumes = useMemo(() => {
+    const offered = ALL_COLLECTIONS.filter((c) => collections?.includes(c));
+    return offered.length > 0 ? offered : ALL_COLLECTIONS;
+  }, [collections]);
+
+  const books = useMemo(
+    () => canonBooks.filter((book) => book.collection === collection),
+    [collection]
+  );
+  const book = books.find((b) => b.name === bookName);
+  const chapters = book ? book.chapterVerses.map((_, i) => i + 1) : [];
+  const verses = book
+    ? Array.from({ length: book.chapterVerses[chapterIndex] }, (_, i) => i + 1)
+    : [];
+
+  const emit = (name: string | null, chapter: number, verse: number) => {
+    onChange(name ? buildGuess(name, mode, chapter + 1, verse + 1) : "");
+  };
+
+  const handleSelectVolume = (next: ScriptureCollection) => {
+    if (next === collection) return;
+    Haptics.selectionAsync();
+    const volumeBooks = canonBooks.filter((b) => b.collection === next);
+    // D&C is a single book, so skip straight to its sections
+    const onlyBook = volumeBooks.length === 1 ? volumeBooks[0].name : null;
+    setCollection(next);
+    setBookName(onlyBook);
+    setChapterIndex(0);
+    setVerseIndex(0);
+    emit(onlyBook, 0, 0);
+  };
+
+  const handleSelectBook = (name: string) => {
+    if (name === bookName) return;
+    Haptics.selectionAsync();
+    setBookName(name);
+    setChapterIndex(0);
+    setVerseIndex(0);
+    emit(name, 0, 0);
+  };
+
+  const handleSelectChapter = (index: number) => {
+    if (!book) return;
+    // Keep the verse if the new chapter is long enough
+    const verse = Math.min(verseIndex, book.chapterVerses[index] - 1);
+    setChapterIndex(index);
+    setVerseIndex(verse);
+    emit(book.name, index, verse);
+  };
+
+  const handleSelectVerse = (index: number) => {
+    setVerseIndex(index);
+    emit(bookName, chapterIndex, index);
+  };
+
+  const preview = book ? buildGuess(book.name, mode, chapterIndex + 1, verseIndex + 1) : null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+        keyboardShouldPersistTaps="handled"
+      >
+        {volumes.map((volume) => (
+          <Chip
+            key={volume}
+            label={COLLECTION_DEFINITIONS[volume].shortName}
+            accessibilityLabel={COLLECTION_DEFINITIONS[volume].name}
+            selected={volume === collection}
+            onPress={() => handleSelectVolume(volume)}
+            colors={colors}
+          />
+        ))}
+      </ScrollView>
+
+      {books.length > 1 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+          keyboardShouldPersistTaps="handled"
+        >
+          {books.map((b) => (
+            <Chip
+              key={b.name}
+              label={b.name}
+              selected={b.name === bookName}
+              onPress={() => handleSelectBook(b.name)}
+              colors={colors}
+            />
+          ))}
+        </ScrollView>
+      )}
+
+      {book && mode !== "easy" && (
+        <View style={styles.wheels}>
+          <View style={styles.wheel}>
+            <ThemedText style={styles.wheelLabel}>
+              {book.collection === "DC" ? "Section" : "Chapter"}
+            </ThemedText>
+            <PickerColumn
+              key={book.name}
+              items={chapters}
+              selectedIndex={chapterIndex}
+              onSelect={handleSelectChapter}
+              colors={colors}
+              accessibilityLabel="Chapter"
+            />
+          </View>
+          {mode === "hard" && (
+            <>
+              <ThemedText style={styles.wheelSeparator}>:</ThemedText>
+              <View style={styles.wheel}>
+                <ThemedText style={styles.wheelLabel}>Verse</ThemedText>
+                <PickerColumn
+                  key={`${book.name}-${chapterIndex}`}
+                  items={verses}
+                  selectedIndex={verseIndex}
+                  onSelect={handleSelectVerse}
+                  colors={colors}
+                  accessibilityLabel="Verse"
+                />
+              </View>
+            </>
+          )}
+        </View>
+      )}
+
+      <ThemedText style={[styles.preview, !preview && styles.previewEmpty]}>
+        {preview ?? (collection ? "Tap a book" : "Tap a volume to begin")}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 20,
+    gap: 10,
+  },
+  chipRow: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+    borderWidth: 1,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+  chipTextSelected: {
+    color: "white",
+  },
+  wheels: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    justifyContent: "center",
+  },
+  wheel: {
+    alignItems: "center",
+  },
+  wheelLabel: {
+    fontSize: 12,
+    color: "#888888",
+    marginBottom: 4,
+  },
+  wheelSeparator: {
+    fontSize: 24,
+    fontWeight: "600",
+    marginHorizontal: 8,
+    marginBottom: 48,
+  },
+  preview: {
+    fontSize: 18,
+    textAlign: "center",
+    fontFamily: "Times New Roman",
+  },
+  previewEmpty: {
+    fontSize: 14,
+    color: "#888888",
+  },
+});
+
+export default ReferencePicker;
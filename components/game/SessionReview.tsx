@@ -0,0 +1,175 @@
+import React from "react";
+import { ScrollView, StyleSheet, TouchableOpacity, View } from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+import { SessionAnswer } from "@/types/scripture";
+import { formatReference } from "@/utils/scriptureUtils";
+
+interface ReviewRowProps {
+  answer: SessionAnswer;
+  number: number;
+  colors: typeof Colors.light;
+}
+
+function ReviewRow({ answer, number, colors }: ReviewRowProps) {
+  const { scripture, guess, correct } = answer;
+  const reference = formatReference(scripture.reference);
+
+  return (
+    <View
+      style={[styles.row, { borderColor: colors.border }]}
+      accessible
+      accessibilityLabel={`Question ${number}, ${correct ? "correct" : "incorrect"}. ${reference}. You answered ${guess || "nothing"}.`}
+    >
+      <Ionicons
+        name={correct ? "checkmark-circle" : "close-circle"}
+        size={20}
+        color={correct ? colors.success : colors.error}
+        style={styles.marker}
+      />
+      <View style={styles.rowContent}>
+        <ThemedText style={styles.passageText} numberOfLines={2}>
+          "{scripture.text}"
+        </ThemedText>
+        <ThemedText style={styles.reference}>{reference}</ThemedText>
+        {!correct && (
+          <ThemedText style={[styles.guess, { color: colors.error }]} numberOfLines={2}>
+            You answered {guess.trim() || "—"}
+          </ThemedText>
+        )}
+      </View>
+    </View>
+  );
+}
+
+interface SessionReviewProps {
+  answers: SessionAnswer[];
+  colors: typeof Colors.light;
+  onRetryMissed: () => void;
+  onAddMissedToFavorites: () => void;
+  // Whether the missed passages have already been added, so the action can show it's done
+  favoritesAdded?: boolean;
+}
+
+/**
+ * Every question from the session with its passage, the correct reference and,
+ * for misses, what was answered, plus actions for the missed passages
+ */
+export function SessionReview({
+  answers,
+  colors,
+  onRetryMissed,
+  onAddMissedToFavorites,
+  favoritesAdded = false,
+}: SessionReviewProps) {
+  const missedCount = answers.filter((answer) => !answer.correct).length;
+
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.title}>Review</ThemedText>
+      {/* Long sessions scroll within the card so the summary buttons stay in reach */}
+      <ScrollView style={styles.list} nestedScrollEnabled showsVerticalScrollIndicator={false}>
+        {answers.map((answer, index) => (
+          <ReviewRow key={`${answer.scripture.id}-${index}`} answer={answer} number={index + 1} colors={colors} />
+        ))}
+      </ScrollView>
+
+      {missedCount > 0 && (
+        <View style={styles.actions}>
+          <TouchableOpacity
+            style={[styles.action, { borderColor: colors.tint }]}
+            onPress={onRetryMissed}
+            accessibilityRole="button"
+            accessibilityLabel={`Retry the ${missedCount} missed ${missedCount === 1 ? "passage" : "passages"}`}
+          >
+            <Ionicons name="refresh" size={16} color={colors.tint} />
+            <ThemedText style={[styles.actionText, { color: colors.tint }]}>Retry Missed</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.action, { borderColor: favoritesAdded ? colors.border : colors.tint }]}
+            onPress={onAddMissedToFavorites}
+            disabled={favoritesAdded}
+            accessibilityRole="button"
+            accessibilityLabel="Add the missed passages to favorites"
+            accessibilityState={{ disabled: favoritesAdded }}
+          >
+            <Ionicons
+              name={favoritesAdded ? "star" : "star-outline"}
+              size={16}
+              color={favoritesAdded ? colors.icon : colors.tint}
+            />
+            <ThemedText style={[styles.actionText, { color: favoritesAdded ? colors.icon : colors.tint }]}>
+              {favoritesAdded ? "In Favorites" : "Add to Favorites"}
+            </ThemedText>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignSelf: "stretch",
+    marginTop: 8,
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: 8,
+  },
+  list: {
+    maxHeight: 220,
+  },
+  row: {
+    flexDirection: "row",
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  marker: {
+    marginTop: 2,
+    marginRight: 10,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  passageText: {
+    fontSize: 14,
+    lineHeight: 20,
+    fontFamily: "Times New Roman",
+    opacity: 0.8,
+  },
+  reference: {
+    fontSize: 14,
+    fontWeight: "600",
+    marginTop: 4,
+  },
+  guess: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  actions: {
+    flexDirection: "row",
+    gap: 10,
+    marginTop: 14,
+  },
+  action: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: "600",
+  },
+});
+
+export default SessionReview;
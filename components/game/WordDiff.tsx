@@ -0,0 +1,54 @@
+import React from "react";
+import { StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+import { WordDiffPart } from "@/types/scripture";
+
+interface WordDiffProps {
+  parts: WordDiffPart[];
+  colors: typeof Colors.light;
+}
+
+/**
+ * Passage text with missed words highlighted and extra typed words struck through
+ */
+export function WordDiff({ parts, colors }: WordDiffProps) {
+  return (
+    <ThemedText style={styles.text}>
+      {parts.map((part, index) => (
+        <ThemedText
+          key={index}
+          style={
+            part.status === "missed"
+              ? [styles.missed, { color: colors.error, backgroundColor: `${colors.error}18` }]
+              : part.status === "extra"
+                ? styles.extra
+                : undefined
+          }
+          accessibilityLabel={part.status === "matched" ? undefined : `${part.status}: ${part.word}`}
+        >
+          {part.word}
+          {index < parts.length - 1 ? " " : ""}
+        </ThemedText>
+      ))}
+    </ThemedText>
+  );
+}
+
+const styles = StyleSheet.create({
+  text: {
+    fontSize: 16,
+    lineHeight: 24,
+    fontFamily: "Times New Roman",
+  },
+  missed: {
+    fontWeight: "bold",
+  },
+  extra: {
+    color: "#888888",
+    textDecorationLine: "line-through",
+  },
+});
+
+export default WordDiff;
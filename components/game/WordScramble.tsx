@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Pressable, StyleSheet, View } from "react-native";
+import * as Haptics from "expo-haptics";
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+} from "react-native-reanimated";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/Colors";
+import { ScramblePuzzle } from "@/types/scripture";
+
+// Animation constants for consistent spring physics
+const SPRING_CONFIG = {
+  damping: 15,
+  stiffness: 150,
+};
+
+// How long a wrong tile stays highlighted
+const WRONG_TILE_MS = 400;
+
+const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
+
+interface TileProps {
+  label: string;
+  onPress: () => void;
+  isWrong: boolean;
+  colors: typeof Colors.light;
+}
+
+function Tile({ label, onPress, isWrong, colors }: TileProps) {
+  const scale = useSharedValue(1);
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ scale: scale.value }],
+  }));
+
+  return (
+    <AnimatedPressable
+      style={[
+        styles.tile,
+        isWrong
+          ? { borderColor: colors.error, backgroundColor: `${colors.error}18` }
+          : { borderColor: colors.border, backgroundColor: colors.background },
+        animatedStyle,
+      ]}
+      onPress={onPress}
+      onPressIn={() => {
+        scale.value = withSpring(0.95, SPRING_CONFIG);
+      }}
+      onPressOut={() => {
+        scale.value = withSpring(1, SPRING_CONFIG);
+      }}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+    >
+      <ThemedText style={styles.tileText}>{label}</ThemedText>
+    </AnimatedPressable>
+  );
+}
+
+interface WordScrambleProps {
+  puzzle: ScramblePuzzle;
+  colors: typeof Colors.light;
+  onComplete: (mistakes: number) => void;
+}
+
+/**
+ * Shuffled word tiles the player taps in passage order, one chunk at a time.
+ * Tiles tapped out of order flash red and count as mistakes.
+ */
+export function WordScramble({ puzzle, colors, onComplete }: WordScrambleProps) {
+  const [chunkIndex, setChunkIndex] = useState(0);
+  const [placedCount, setPlacedCount] = useState(0);
+  const [usedTiles, setUsedTiles] = useState<number[]>([]);
+  const [wrongTile, setWrongTile] = useState<number | null>(null);
+  const mistakesRef = useRef(0);
+
+  useEffect(() => {
+    if (wrongTile === null) return;
+    const timeout = setTimeout(() => setWrongTile(null), WRONG_TILE_MS);
+    return () => clearTimeout(timeout);
+  }, [wrongTile]);
+
+  const chunk = puzzle.chunks[chunkIndex];
+  if (!chunk) return null;
+
+  const builtText = [
+    ...puzzle.chunks.slice(0, chunkIndex).flatMap((c) => c.pieces),
+    ...chunk.pieces.slice(0, placedCount),
+  ].join(" ");
+
+  const handleTilePress = (position: number) => {
+    const piece = chunk.pieces[chunk.shuffled[position]];
+    // Compare text so repeated words can be placed from either tile
+    if (piece !== chunk.pieces[placedCount]) {
+      mistakesRef.current += 1;
+      setWrongTile(position);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      return;
+    }
+
+    Haptics.selectionAsync();
+    const nextCount = placedCount + 1;
+    if (nextCount < chunk.pieces.length) {
+      setPlacedCount(nextCount);
+      setUsedTiles((prev) => [...prev, position]);
+    } else if (chunkIndex < puzzle.chunks.length - 1) {
+      setChunkIndex(chunkIndex + 1);
+      setPlacedCount(0);
+      setUsedTiles([]);
+    } else {
+      setPlacedCount(nextCount);
+      setUsedTiles((prev) => [...prev, position]);
+      onComplete(mistakesRef.current);
+    }
+  };
+
+  return (
+    <View>
+      {puzzle.chunks.length > 1 && (
+        <ThemedText style={styles.chunkLabel}>
+          Part {chunkIndex + 1} of {puzzle.chunks.length}
+        </ThemedText>
+      )}
+      <View style={[styles.builtContainer, { borderColor: colors.border }]}>
+        <ThemedText style={styles.builtText}>
+          {builtText || " "}
+        </ThemedText>
+      </View>
+      <View style={styles.tiles}>
+        {chunk.shuffled.map((_, position) =>
+          usedTiles.includes(position) ? null : (
+            <Tile
+              key={`${chunkIndex}-${position}`}
+              label={chunk.pieces[chunk.shuffled[position]]}
+              onPress={() => handleTilePress(position)}
+              isWrong={wrongTile === position}
+              colors={colors}
+            />
+          )
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  chunkLabel: {
+    fontSize: 13,
+    opacity: 0.6,
+    textAlign: "center",
+    marginBottom: 8,
+  },
+  builtContainer: {
+    minHeight: 60,
+    borderBottomWidth: 1,
+    paddingBottom: 12,
+    marginBottom: 16,
+  },
+  builtText: {
+    fontSize: 18,
+    lineHeight: 26,
+    fontFamily: "Times New Roman",
+  },
+  tiles: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: 8,
+  },
+  tile: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  tileText: {
+    fontSize: 16,
+    fontFamily: "Times New Roman",
+  },
+});
+
+export default WordScramble;
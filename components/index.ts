@@ -46,6 +46,8 @@ export { BadgeEarnedModal } from './BadgeEarnedModal';
 
 // Feature components
 export { DailyChallengeCard } from './DailyChallengeCard';
+export { StudyCard } from './StudyCard';
+export { CollectionFilter } from './CollectionFilter';
 export { LeaderboardEntry } from './LeaderboardEntry';
 export { LeaderboardPrompt } from './LeaderboardPrompt';
 export { Avatar } from './Avatar';
@@ -0,0 +1,38 @@
+import { ScriptureCollection } from '@/types/scripture';
+
+export interface CollectionDefinition {
+  id: ScriptureCollection;
+  name: string;
+  shortName: string;
+}
+
+export const COLLECTION_DEFINITIONS: Record<ScriptureCollection, CollectionDefinition> = {
+  OT: {
+    id: 'OT',
+    name: 'Old Testament',
+    shortName: 'OT',
+  },
+  NT: {
+    id: 'NT',
+    name: 'New Testament',
+    shortName: 'NT',
+  },
+  BOM: {
+    id: 'BOM',
+    name: 'Book of Mormon',
+    shortName: 'BoM',
+  },
+  DC: {
+    id: 'DC',
+    name: 'Doctrine and Covenants',
+    shortName: 'D&C',
+  },
+  PGP: {
+    id: 'PGP',
+    name: 'Pearl of Great Price',
+    shortName: 'PGP',
+  },
+};
+
+// Canonical order used for display and for building scripture pools
+export const ALL_COLLECTIONS: ScriptureCollection[] = ['OT', 'NT', 'BOM', 'DC', 'PGP'];
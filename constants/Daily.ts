@@ -0,0 +1,10 @@
+// First day of the daily schedule (YYYY-MM-DD). Until then every build keeps the old
+// pick by hashing the date, so players on the previous release see the same passage
+// while the update rolls out; the schedule then begins on the first Sunday of the
+// following month. Released cycles are counted from this day, so it must never move.
+export const DAILY_SCHEDULE_START = '2026-11-01';
+
+// A streak freeze is earned every this many days of streak, and at most this many are banked.
+// firestore.rules repeats the cap when validating synced stats; change both together.
+export const STREAK_FREEZE_EARN_DAYS = 7;
+export const STREAK_FREEZE_MAX = 2;
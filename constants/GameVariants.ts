@@ -0,0 +1,45 @@
+import { GameVariant } from '@/types/scripture';
+
+export interface GameVariantDefinition {
+  id: GameVariant;
+  name: string;
+  description: string;
+}
+
+export const GAME_VARIANT_DEFINITIONS: Record<GameVariant, GameVariantDefinition> = {
+  reference: {
+    id: 'reference',
+    name: 'Reference',
+    description: 'Read the passage and name the reference',
+  },
+  reverse: {
+    id: 'reverse',
+    name: 'Recall',
+    description: 'See the reference and type the passage',
+  },
+  cloze: {
+    id: 'cloze',
+    name: 'Fill In',
+    description: 'Fill in the missing words of the passage',
+  },
+  scramble: {
+    id: 'scramble',
+    name: 'Scramble',
+    description: 'Put the shuffled words of the passage back in order',
+  },
+};
+
+// Display order on the home screen
+export const ALL_GAME_VARIANTS: GameVariant[] = ['reference', 'reverse', 'cloze', 'scramble'];
+
+/**
+ * Short label for a game's format, e.g. "Fill In" or "Multiple Choice",
+ * or null for the standard typed-reference game
+ */
+export const getGameFormatLabel = (
+  variant?: GameVariant,
+  multipleChoice?: boolean
+): string | null => {
+  if (variant && variant !== 'reference') return GAME_VARIANT_DEFINITIONS[variant].name;
+  return multipleChoice ? 'Multiple Choice' : null;
+};
@@ -0,0 +1,46 @@
+import { GameMode, HintKind } from '@/types/scripture';
+
+export interface HintDefinition {
+  id: HintKind;
+  name: string;
+  penalty: number; // Points taken off the question when the hint is used
+}
+
+export const HINT_DEFINITIONS: Record<HintKind, HintDefinition> = {
+  volume: {
+    id: 'volume',
+    name: 'Volume',
+    penalty: 10,
+  },
+  bookLetter: {
+    id: 'bookLetter',
+    name: 'First Letter',
+    penalty: 20,
+  },
+  chapter: {
+    id: 'chapter',
+    name: 'Chapter',
+    penalty: 25,
+  },
+  context: {
+    id: 'context',
+    name: 'Nearby Verse',
+    penalty: 15,
+  },
+};
+
+// Display order in the game, roughly from least to most revealing
+export const ALL_HINTS: HintKind[] = ['volume', 'context', 'bookLetter', 'chapter'];
+
+/**
+ * Hints that make sense for a difficulty: easy only asks for the book,
+ * so the chapter isn't offered there
+ */
+export const getModeHints = (mode: GameMode): HintKind[] =>
+  mode === 'easy' ? ALL_HINTS.filter((hint) => hint !== 'chapter') : ALL_HINTS;
+
+/**
+ * Total points taken off a question for the hints used
+ */
+export const getHintPenalty = (hints: HintKind[]): number =>
+  hints.reduce((total, hint) => total + HINT_DEFINITIONS[hint].penalty, 0);
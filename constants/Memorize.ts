@@ -0,0 +1,21 @@
+import { GameMode } from '@/types/scripture';
+
+export interface MemorizeRound {
+  label: string;
+  abbreviatedShare: number;  // 0-1 share of words reduced to their first letter
+  hidden: boolean;           // Passage not shown at all
+}
+
+// Rounds of the first-letter technique, from the full text to typing it blind.
+// Each round abbreviates every word the previous one did, plus more.
+export const MEMORIZE_ROUNDS: MemorizeRound[] = [
+  { label: 'Full text', abbreviatedShare: 0, hidden: false },
+  { label: 'A quarter of the words as first letters', abbreviatedShare: 0.25, hidden: false },
+  { label: 'Half of the words as first letters', abbreviatedShare: 0.5, hidden: false },
+  { label: 'Most of the words as first letters', abbreviatedShare: 0.75, hidden: false },
+  { label: 'First letters only', abbreviatedShare: 1, hidden: false },
+  { label: 'From memory', abbreviatedShare: 1, hidden: true },
+];
+
+// Typed passages are graded like Hard recall
+export const MEMORIZE_GRADING_MODE: GameMode = 'hard';
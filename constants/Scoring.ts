@@ -0,0 +1,79 @@
+import { GameMode } from '@/types/scripture';
+
+// Every question is worth the same, so sessions of any mode compare fairly
+export const POINTS_PER_QUESTION = 100;
+
+export interface PointsScheme {
+  book: number;
+  chapter: number;
+  verse: number;
+}
+
+// How a question's points are split across the parts each mode asks for
+export const POINTS_SCHEMES: Record<GameMode, PointsScheme> = {
+  easy: { book: 100, chapter: 0, verse: 0 },
+  medium: { book: 50, chapter: 50, verse: 0 },
+  hard: { book: 40, chapter: 30, verse: 30 },
+};
+
+// Share of the chapter points for a near miss, indexed by chapters off
+export const NEAR_CHAPTER_CREDIT = [1, 0.5, 0.25, 0.25];
+
+// Share of a passage's words needed to pass a recall question: a key phrase
+// on easy, most of the passage on hard
+export const RECALL_THRESHOLDS: Record<GameMode, number> = {
+  easy: 0.15,
+  medium: 0.5,
+  hard: 0.9,
+};
+
+// Share of typed words that must belong to the passage, so padding a
+// guess with common words doesn't pass
+export const MIN_RECALL_PRECISION = 0.6;
+
+// Share of a passage's words blanked in fill-in-the-blank, capped so long
+// passages stay manageable
+export const CLOZE_BLANKS: Record<GameMode, { ratio: number; max: number }> = {
+  easy: { ratio: 0.08, max: 3 },
+  medium: { ratio: 0.15, max: 6 },
+  hard: { ratio: 0.25, max: 10 },
+};
+
+// Share of blanks that must be right to pass a fill-in-the-blank question
+export const CLOZE_PASS_SHARE = 0.75;
+
+// Words per tile in word scramble: phrases on easy, single words on hard
+export const SCRAMBLE_WORDS_PER_TILE: Record<GameMode, number> = {
+  easy: 3,
+  medium: 2,
+  hard: 1,
+};
+
+// Long passages are rebuilt a sentence or so at a time
+export const SCRAMBLE_MIN_CHUNK_WORDS = 6;
+export const SCRAMBLE_MAX_CHUNK_WORDS = 24;
+
+// Points lost per wrong tile, and for taking longer than the time allowed
+// per tile (the full time penalty is reached at twice the allowed time)
+export const SCRAMBLE_MISTAKE_PENALTY = 10;
+export const SCRAMBLE_SECONDS_PER_TILE = 3;
+export const SCRAMBLE_MAX_TIME_PENALTY = 30;
+
+// Points needed for a scramble question to count as correct
+export const SCRAMBLE_PASS_POINTS = 60;
+
+// Speed rounds: seconds on the clock per question, and the most bonus points
+// a correct answer earns (all of it for answering at once, none at the buzzer)
+export const SPEED_SECONDS_PER_QUESTION = 15;
+export const SPEED_MAX_BONUS = 50;
+
+// Speed rounds always ask for the book so every speed score is comparable
+export const SPEED_GAME_MODE: GameMode = 'easy';
+
+// Share of a session's questions answered correctly for the top result tier
+// (confetti, "Great job!" and a green score) and the middle one (amber)
+export const GREAT_SCORE_SHARE = 0.8;
+export const GOOD_SCORE_SHARE = 0.5;
+
+// Survival runs end once this many questions have been missed
+export const SURVIVAL_LIVES = 3;
@@ -0,0 +1,54 @@
+import {
+  GameMode,
+  LeaderboardBoard,
+  ScoreBoard,
+  ScoreCategory,
+  SessionLength,
+  SurvivalBoard,
+} from '@/types/scripture';
+
+// Display order on the home screen and leaderboard
+export const SESSION_LENGTHS: SessionLength[] = [3, 5, 10, 25, 'all'];
+
+export const DEFAULT_SESSION_LENGTH: SessionLength = 3;
+
+/**
+ * Read a session length from a route param or stored preference,
+ * falling back to the default for anything unrecognized
+ */
+export const parseSessionLength = (value?: string | null): SessionLength => {
+  if (value === 'all') return 'all';
+  const length = Number(value);
+  return SESSION_LENGTHS.includes(length as SessionLength)
+    ? (length as SessionLength)
+    : DEFAULT_SESSION_LENGTH;
+};
+
+/**
+ * Short label for a session length, e.g. "10" or "All"
+ */
+export const getSessionLengthLabel = (length: SessionLength): string =>
+  length === 'all' ? 'All' : String(length);
+
+/**
+ * Number of questions a session plays, never more than the pool holds
+ */
+export const getSessionQuestionCount = (length: SessionLength, poolSize: number): number =>
+  length === 'all' ? poolSize : Math.min(length, poolSize);
+
+/**
+ * High score and leaderboard key for a category at a session length
+ */
+export const getScoreBoard = (category: ScoreCategory, length: SessionLength): ScoreBoard =>
+  length === DEFAULT_SESSION_LENGTH ? category : `${category}-${length}`;
+
+/**
+ * Leaderboard key for a difficulty's survival runs, which have no session length
+ */
+export const getSurvivalBoard = (mode: GameMode): SurvivalBoard => `${mode}-survival`;
+
+/**
+ * Session length a high score or leaderboard key was earned at (the default for survival boards)
+ */
+export const getBoardSessionLength = (board: LeaderboardBoard): SessionLength =>
+  parseSessionLength(board.split('-')[1] ?? String(DEFAULT_SESSION_LENGTH));
@@ -0,0 +1,8 @@
+// Most recent graded answers kept in the answer log; older ones only live on in the totals
+export const ANSWER_LOG_LIMIT = 500;
+
+// Passages need this many answers at a difficulty before they can rank among the weakest
+export const WEAKEST_MIN_ATTEMPTS = 2;
+
+// Passages in the weakest list and in a practice game launched from it
+export const WEAKEST_PASSAGES_COUNT = 10;
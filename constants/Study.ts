@@ -0,0 +1,19 @@
+import { GameMode } from '@/types/scripture';
+
+// Study sessions ask for the full reference so a passage is only "known" once it's exact
+export const STUDY_GAME_MODE: GameMode = 'hard';
+
+// Most passages in one study session, and how many of those may be new
+export const STUDY_SESSION_SIZE = 10;
+export const STUDY_NEW_PER_SESSION = 5;
+
+// SM-2 ease factor: where new passages start and the floor it can drop to
+export const STUDY_DEFAULT_EASE = 2.5;
+export const STUDY_MIN_EASE = 1.3;
+
+// Days until the first and second reviews after a passage is recalled
+export const STUDY_FIRST_INTERVAL = 1;
+export const STUDY_SECOND_INTERVAL = 6;
+
+// Recall quality (0-5) below this sends the passage back to the start
+export const STUDY_PASSING_QUALITY = 3;
@@ -24,7 +24,7 @@ import {
   FieldValue,
 } from 'firebase/firestore';
 import { auth, db, GoogleAuthProvider, GOOGLE_WEB_CLIENT_ID, GOOGLE_IOS_CLIENT_ID } from '@/config/firebase';
-import { UserProfile, GameMode, HighScores, AuthProvider as AuthProviderType } from '@/types/scripture';
+import { UserProfile, ScoreBoard, HighScores, BestRuns, GameMode, AuthProvider as AuthProviderType } from '@/types/scripture';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Google from 'expo-auth-session/providers/google';
 import { AuthSessionResult } from 'expo-auth-session';
@@ -50,6 +50,8 @@ function isFirebaseError(error: unknown): error is { code: string; message: stri
 }
 
 const LOCAL_HIGH_SCORES_KEY = '@scripture_mastery_high_scores';
+const LOCAL_HIGH_POINTS_KEY = '@scripture_mastery_high_points';
+const LOCAL_BEST_RUNS_KEY = '@scripture_mastery_best_runs';
 
 interface AuthContextType {
   user: User | null;
@@ -58,10 +60,16 @@ interface AuthContextType {
   nickname: string | null;
   hasJoinedLeaderboard: boolean;
   localHighScores: HighScores;
+  // Best partial-credit points per difficulty, tracked alongside correct answers
+  localHighPoints: HighScores;
+  // Longest survival run per difficulty
+  localBestRuns: BestRuns;
   setNickname: (nickname: string) => Promise<void>;
-  updateHighScore: (difficulty: GameMode, score: number) => Promise<boolean>;
-  isNewHighScore: (difficulty: GameMode, score: number) => boolean;
-  joinLeaderboard: (nickname: string, difficulty: GameMode, score: number) => Promise<void>;
+  updateHighScore: (difficulty: ScoreBoard, score: number) => Promise<boolean>;
+  isNewHighScore: (difficulty: ScoreBoard, score: number) => boolean;
+  updateHighPoints: (difficulty: ScoreBoard, points: number) => Promise<boolean>;
+  updateBestRun: (difficulty: GameMode, run: number) => Promise<boolean>;
+  joinLeaderboard: (nickname: string, difficulty: ScoreBoard, score: number, points?: number) => Promise<void>;
   // Hybrid auth
   authProvider: AuthProviderType;
   isGoogleLinked: boolean;
@@ -80,7 +88,8 @@ interface AuthContextType {
   signOut: () => Promise<void>;
 }
 
-const defaultHighScores: HighScores = { easy: 0, medium: 0, hard: 0 };
+const defaultHighScores: HighScores = { easy: 0, medium: 0, hard: 0, speed: 0 };
+const defaultBestRuns: BestRuns = { easy: 0, medium: 0, hard: 0 };
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -89,6 +98,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [localHighScores, setLocalHighScores] = useState<HighScores>(defaultHighScores);
+  const [localHighPoints, setLocalHighPoints] = useState<HighScores>(defaultHighScores);
+  const [localBestRuns, setLocalBestRuns] = useState<BestRuns>(defaultBestRuns);
   const [isGoogleLoading, setIsGoogleLoading] = useState(false);
   const [isAppleLoading, setIsAppleLoading] = useState(false);
   const [isAppleAvailable, setIsAppleAvailable] = useState(false);
@@ -308,9 +319,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     const loadLocalHighScores = async () => {
       try {
-        const stored = await AsyncStorage.getItem(LOCAL_HIGH_SCORES_KEY);
+        const [stored, storedPoints, storedRuns] = await Promise.all([
+          AsyncStorage.getItem(LOCAL_HIGH_SCORES_KEY),
+          AsyncStorage.getItem(LOCAL_HIGH_POINTS_KEY),
+          AsyncStorage.getItem(LOCAL_BEST_RUNS_KEY),
+        ]);
+        // Merge over defaults so scores saved before a category existed still load
         if (stored) {
-          setLocalHighScores(JSON.parse(stored));
+          setLocalHighScores({ ...defaultHighScores, ...JSON.parse(stored) });
+        }
+        if (storedPoints) {
+          setLocalHighPoints({ ...defaultHighScores, ...JSON.parse(storedPoints) });
+        }
+        if (storedRuns) {
+          setLocalBestRuns({ ...defaultBestRuns, ...JSON.parse(storedRuns) });
         }
       } catch (error) {
         console.error('Error loading local high scores:', error);
@@ -329,6 +351,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Save local high points to AsyncStorage
+  const saveLocalHighPoints = useCallback(async (points: HighScores) => {
+    try {
+      await AsyncStorage.setItem(LOCAL_HIGH_POINTS_KEY, JSON.stringify(points));
+      setLocalHighPoints(points);
+    } catch (error) {
+      console.error('Error saving local high points:', error);
+    }
+  }, []);
+
+  // Save local best survival runs to AsyncStorage
+  const saveLocalBestRuns = useCallback(async (runs: BestRuns) => {
+    try {
+      await AsyncStorage.setItem(LOCAL_BEST_RUNS_KEY, JSON.stringify(runs));
+      setLocalBestRuns(runs);
+    } catch (error) {
+      console.error('Error saving local best runs:', error);
+    }
+  }, []);
+
   // Initialize anonymous auth
   useEffect(() => {
     let isMounted = true;
@@ -378,7 +420,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           nickname: data.nickname || null,
           createdAt: data.createdAt?.toDate() || new Date(),
           lastPlayed: data.lastPlayed?.toDate() || new Date(),
-          highScores: data.highScores || defaultHighScores,
+          highScores: { ...defaultHighScores, ...data.highScores },
+          highPoints: { ...defaultHighScores, ...data.highPoints },
+          bestRuns: { ...defaultBestRuns, ...data.bestRuns },
           hasJoinedLeaderboard: data.hasJoinedLeaderboard || false,
           authProvider: data.authProvider || 'anonymous',
           email: data.email || null,
@@ -435,15 +479,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   );
 
   const isNewHighScore = useCallback(
-    (difficulty: GameMode, score: number): boolean => {
+    (difficulty: ScoreBoard, score: number): boolean => {
       // Check against local high scores (works whether they've joined leaderboard or not)
-      return score > localHighScores[difficulty];
+      return score > (localHighScores[difficulty] ?? 0);
     },
     [localHighScores]
   );
 
   const updateHighScore = useCallback(
-    async (difficulty: GameMode, score: number): Promise<boolean> => {
+    async (difficulty: ScoreBoard, score: number): Promise<boolean> => {
       const isNew = isNewHighScore(difficulty, score);
 
       if (isNew) {
@@ -478,12 +522,84 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     [user, userProfile, localHighScores, isNewHighScore, saveLocalHighScores]
   );
 
+  const updateHighPoints = useCallback(
+    async (difficulty: ScoreBoard, points: number): Promise<boolean> => {
+      const isNew = points > (localHighPoints[difficulty] ?? 0);
+
+      if (isNew) {
+        const newPoints = { ...localHighPoints, [difficulty]: points };
+        await saveLocalHighPoints(newPoints);
+
+        // If user has a profile in Firestore, update there too
+        if (user && userProfile) {
+          try {
+            const userRef = doc(db, 'users', user.uid);
+            await updateDoc(userRef, {
+              [`highPoints.${difficulty}`]: points,
+            });
+            setUserProfile((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    highPoints: { ...(prev.highPoints ?? defaultHighScores), [difficulty]: points },
+                  }
+                : null
+            );
+          } catch (error) {
+            console.error('Error updating high points in Firestore:', error);
+          }
+        }
+      }
+
+      return isNew;
+    },
+    [user, userProfile, localHighPoints, saveLocalHighPoints]
+  );
+
+  const updateBestRun = useCallback(
+    async (difficulty: GameMode, run: number): Promise<boolean> => {
+      const isNew = run > localBestRuns[difficulty];
+
+      if (isNew) {
+        const newRuns = { ...localBestRuns, [difficulty]: run };
+        await saveLocalBestRuns(newRuns);
+
+        // If user has a profile in Firestore, update there too
+        if (user && userProfile) {
+          try {
+            const userRef = doc(db, 'users', user.uid);
+            await updateDoc(userRef, {
+              [`bestRuns.${difficulty}`]: run,
+            });
+            setUserProfile((prev) =>
+              prev
+                ? {
+                    ...prev,
+                    bestRuns: { ...(prev.bestRuns ?? defaultBestRuns), [difficulty]: run },
+                  }
+                : null
+            );
+          } catch (error) {
+            console.error('Error updating best run in Firestore:', error);
+          }
+        }
+      }
+
+      return isNew;
+    },
+    [user, userProfile, localBestRuns, saveLocalBestRuns]
+  );
+
   const joinLeaderboard = useCallback(
-    async (nickname: string, difficulty: GameMode, score: number) => {
+    async (nickname: string, difficulty: ScoreBoard, score: number, points?: number) => {
       if (!user) throw new Error('Not authenticated');
 
       const userRef = doc(db, 'users', user.uid);
       const now = serverTimestamp();
+      const newPoints =
+        points !== undefined && points > (localHighPoints[difficulty] ?? 0)
+          ? { ...localHighPoints, [difficulty]: points }
+          : localHighPoints;
 
       try {
         // Create or update user profile with nickname
@@ -491,6 +607,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           documentId: user.uid,
           nickname,
           highScores: { ...localHighScores, [difficulty]: score },
+          highPoints: newPoints,
+          bestRuns: localBestRuns,
           hasJoinedLeaderboard: true,
           lastPlayed: now,
           authProvider: userProfile?.authProvider || (user.isAnonymous ? 'anonymous' : 'google'),
@@ -506,6 +624,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         // Update local state
         const newScores = { ...localHighScores, [difficulty]: score };
         await saveLocalHighScores(newScores);
+        await saveLocalHighPoints(newPoints);
 
         setUserProfile({
           documentId: user.uid,
@@ -513,6 +632,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           createdAt: userProfile?.createdAt || new Date(),
           lastPlayed: new Date(),
           highScores: newScores,
+          highPoints: newPoints,
+          bestRuns: localBestRuns,
           hasJoinedLeaderboard: true,
           authProvider: userProfile?.authProvider || (user.isAnonymous ? 'anonymous' : 'google'),
           email: userProfile?.email || null,
@@ -524,7 +645,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         throw error;
       }
     },
-    [user, userProfile, localHighScores, saveLocalHighScores]
+    [user, userProfile, localHighScores, localHighPoints, localBestRuns, saveLocalHighScores, saveLocalHighPoints]
   );
 
   const promptGoogleSignIn = useCallback(async (): Promise<AuthSessionResult | null> => {
@@ -598,9 +719,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         nickname: userProfile?.nickname ?? null,
         hasJoinedLeaderboard: userProfile?.hasJoinedLeaderboard ?? false,
         localHighScores,
+        localHighPoints,
+        localBestRuns,
         setNickname,
         updateHighScore,
         isNewHighScore,
+        updateHighPoints,
+        updateBestRun,
         joinLeaderboard,
         // Hybrid auth
         authProvider,
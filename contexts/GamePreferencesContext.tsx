@@ -0,0 +1,211 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { AnswerInputMethod, GameVariant, ScriptureCollection, SessionLength } from '@/types/scripture';
+import { ALL_COLLECTIONS } from '@/constants/Collections';
+import { ALL_GAME_VARIANTS } from '@/constants/GameVariants';
+import { DEFAULT_SESSION_LENGTH, parseSessionLength } from '@/constants/SessionLengths';
+
+interface GamePreferencesContextType {
+  selectedCollections: ScriptureCollection[];
+  setSelectedCollections: (collections: ScriptureCollection[]) => void;
+  toggleCollection: (collection: ScriptureCollection) => void;
+  strictSpelling: boolean;
+  setStrictSpelling: (enabled: boolean) => void;
+  answerInput: AnswerInputMethod;
+  setAnswerInput: (method: AnswerInputMethod) => void;
+  multipleChoice: boolean;
+  setMultipleChoice: (enabled: boolean) => void;
+  gameVariant: GameVariant;
+  setGameVariant: (variant: GameVariant) => void;
+  sessionLength: SessionLength;
+  setSessionLength: (length: SessionLength) => void;
+}
+
+const COLLECTIONS_STORAGE_KEY = '@scripture_mastery_collections';
+const STRICT_SPELLING_STORAGE_KEY = '@scripture_mastery_strict_spelling';
+const ANSWER_INPUT_STORAGE_KEY = '@scripture_mastery_answer_input';
+const MULTIPLE_CHOICE_STORAGE_KEY = '@scripture_mastery_multiple_choice';
+const GAME_VARIANT_STORAGE_KEY = '@scripture_mastery_game_variant';
+const SESSION_LENGTH_STORAGE_KEY = '@scripture_mastery_session_length';
+
+export const GamePreferencesContext = createContext<GamePreferencesContextType | undefined>(undefined);
+
+/**
+ * Keep only known collections, in canonical order, falling back to all
+ * collections so a game always has something to draw from.
+ */
+function sanitizeCollections(collections: unknown): ScriptureCollection[] {
+  if (!Array.isArray(collections)) return ALL_COLLECTIONS;
+  const valid = ALL_COLLECTIONS.filter((c) => collections.includes(c));
+  return valid.length > 0 ? valid : ALL_COLLECTIONS;
+}
+
+export function GamePreferencesProvider({ children }: { children: React.ReactNode }) {
+  const [selectedCollections, setSelectedCollectionsState] = useState<ScriptureCollection[]>(ALL_COLLECTIONS);
+  const [strictSpelling, setStrictSpellingState] = useState(false);
+  const [answerInput, setAnswerInputState] = useState<AnswerInputMethod>('type');
+  const [multipleChoice, setMultipleChoiceState] = useState(false);
+  const [gameVariant, setGameVariantState] = useState<GameVariant>('reference');
+  const [sessionLength, setSessionLengthState] = useState<SessionLength>(DEFAULT_SESSION_LENGTH);
+
+  useEffect(() => {
+    const loadPreferences = async () => {
+      try {
+        const [
+          storedCollections,
+          storedStrictSpelling,
+          storedAnswerInput,
+          storedMultipleChoice,
+          storedGameVariant,
+          storedSessionLength,
+        ] = await Promise.all([
+          AsyncStorage.getItem(COLLECTIONS_STORAGE_KEY),
+          AsyncStorage.getItem(STRICT_SPELLING_STORAGE_KEY),
+          AsyncStorage.getItem(ANSWER_INPUT_STORAGE_KEY),
+          AsyncStorage.getItem(MULTIPLE_CHOICE_STORAGE_KEY),
+          AsyncStorage.getItem(GAME_VARIANT_STORAGE_KEY),
+          AsyncStorage.getItem(SESSION_LENGTH_STORAGE_KEY),
+        ]);
+        if (storedCollections) {
+          setSelectedCollectionsState(sanitizeCollections(JSON.parse(storedCollections)));
+        }
+        if (storedStrictSpelling !== null) {
+          setStrictSpellingState(storedStrictSpelling === 'true');
+        }
+        if (storedAnswerInput === 'type' || storedAnswerInput === 'picker') {
+          setAnswerInputState(storedAnswerInput);
+        }
+        if (storedMultipleChoice !== null) {
+          setMultipleChoiceState(storedMultipleChoice === 'true');
+        }
+        if (ALL_GAME_VARIANTS.includes(storedGameVariant as GameVariant)) {
+          setGameVariantState(storedGameVariant as GameVariant);
+        }
+        if (storedSessionLength !== null) {
+          setSessionLengthState(parseSessionLength(storedSessionLength));
+        }
+      } catch (error) {
+        console.error('Error loading game preferences:', error);
+      }
+    };
+
+    loadPreferences();
+  }, []);
+
+  const setSelectedCollections = useCallback(async (collections: ScriptureCollection[]) => {
+    const sanitized = sanitizeCollections(collections);
+    setSelectedCollectionsState(sanitized);
+    try {
+      await AsyncStorage.setItem(COLLECTIONS_STORAGE_KEY, JSON.stringify(sanitized));
+    } catch (error) {
+      console.error('Error saving collection preference:', error);
+    }
+  }, []);
+
+  const toggleCollection = useCallback(
+    (collection: ScriptureCollection) => {
+      const isSelected = selectedCollections.includes(collection);
+      // Never allow deselecting the last remaining collection
+      if (isSelected && selectedCollections.length === 1) return;
+      setSelectedCollections(
+        isSelected
+          ? selectedCollections.filter((c) => c !== collection)
+          : [...selectedCollections, collection]
+      );
+    },
+    [selectedCollections, setSelectedCollections]
+  );
+
+  const setStrictSpelling = useCallback(async (enabled: boolean) => {
+    setStrictSpellingState(enabled);
+    try {
+      await AsyncStorage.setItem(STRICT_SPELLING_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.error('Error saving strict spelling preference:', error);
+    }
+  }, []);
+
+  const setAnswerInput = useCallback(async (method: AnswerInputMethod) => {
+    setAnswerInputState(method);
+    try {
+      await AsyncStorage.setItem(ANSWER_INPUT_STORAGE_KEY, method);
+    } catch (error) {
+      console.error('Error saving answer input preference:', error);
+    }
+  }, []);
+
+  const setMultipleChoice = useCallback(async (enabled: boolean) => {
+    setMultipleChoiceState(enabled);
+    try {
+      await AsyncStorage.setItem(MULTIPLE_CHOICE_STORAGE_KEY, String(enabled));
+    } catch (error) {
+      console.error('Error saving multiple choice preference:', error);
+    }
+  }, []);
+
+  const setGameVariant = useCallback(async (variant: GameVariant) => {
+    setGameVariantState(variant);
+    try {
+      await AsyncStorage.setItem(GAME_VARIANT_STORAGE_KEY, variant);
+    } catch (error) {
+      console.error('Error saving game variant preference:', error);
+    }
+  }, []);
+
+  const setSessionLength = useCallback(async (length: SessionLength) => {
+    setSessionLengthState(length);
+    try {
+      await AsyncStorage.setItem(SESSION_LENGTH_STORAGE_KEY, String(length));
+    } catch (error) {
+      console.error('Error saving session length preference:', error);
+    }
+  }, []);
+
+  const contextValue = useMemo<GamePreferencesContextType>(
+    () => ({
+      selectedCollections,
+      setSelectedCollections,
+      toggleCollection,
+      strictSpelling,
+      setStrictSpelling,
+      answerInput,
+      setAnswerInput,
+      multipleChoice,
+      setMultipleChoice,
+      gameVariant,
+      setGameVariant,
+      sessionLength,
+      setSessionLength,
+    }),
+    [
+      selectedCollections,
+      setSelectedCollections,
+      toggleCollection,
+      strictSpelling,
+      setStrictSpelling,
+      answerInput,
+      setAnswerInput,
+      multipleChoice,
+      setMultipleChoice,
+      gameVariant,
+      setGameVariant,
+      sessionLength,
+      setSessionLength,
+    ]
+  );
+
+  return (
+    <GamePreferencesContext.Provider value={contextValue}>
+      {children}
+    </GamePreferencesContext.Provider>
+  );
+}
+
+export function useGamePreferences() {
+  const context = useContext(GamePreferencesContext);
+  if (context === undefined) {
+    throw new Error('useGamePreferences must be used within a GamePreferencesProvider');
+  }
+  return context;
+}
@@ -1,106 +1,112 @@
 // data/bookOfMormonScriptures.ts
-import { Scripture } from '../types/scripture';
+import { ScriptureEntry } from '../types/scripture';
 
 // Book of Mormon scripture mastery references
-export const bookOfMormonScriptures: Scripture[] = [
+export const bookOfMormonScriptures: ScriptureEntry[] = [
   {
     text: "And it came to pass that I, Nephi, said unto my father: I will go and do the things which the Lord hath commanded, for I know that the Lord giveth no commandments unto the children of men, save he shall prepare a way for them that they may accomplish the thing which he commandeth them.",
-    reference: { book: "1 Nephi", chapter: 3, verse: 7 },
+    reference: { book: "1 Nephi", chapter: 3, verses: [{ start: 7 }] },
+    context: { position: "after", text: "And it came to pass that when my father had heard these words he was exceedingly glad, for he knew that I had been blessed of the Lord." },
   },
   {
     text: "And I did read many things unto them which were written in the books of Moses; but that I might more fully persuade them to believe in the Lord their Redeemer I did read unto them that which was written by the prophet Isaiah; for I did liken all scriptures unto us, that it might be for our profit and learning.",
-    reference: { book: "1 Nephi", chapter: 19, verse: 23 },
+    reference: { book: "1 Nephi", chapter: 19, verses: [{ start: 23 }] },
   },
   {
     text: "Adam fell that men might be; and men are, that they might have joy.",
-    reference: { book: "2 Nephi", chapter: 2, verse: 25 },
+    reference: { book: "2 Nephi", chapter: 2, verses: [{ start: 25 }] },
   },
   {
     text: "Wherefore, men are free according to the flesh; and all things are given them which are expedient unto man. And they are free to choose liberty and eternal life, through the great Mediator of all men, or to choose captivity and death, according to the captivity and power of the devil; for he seeketh that all men might be miserable like unto himself.",
-    reference: { book: "2 Nephi", chapter: 2, verse: 27 },
+    reference: { book: "2 Nephi", chapter: 2, verses: [{ start: 27 }] },
   },
   {
     text: "O that cunning plan of the evil one! O the vainness, and the frailties, and the foolishness of men! When they are learned they think they are wise, and they hearken not unto the counsel of God, for they set it aside, supposing they know of themselves, wherefore, their wisdom is foolishness and it profiteth them not. And they shall perish.\n\nBut to be learned is good if they hearken unto the counsels of God.",
-    reference: { book: "2 Nephi", chapter: 9, verse: "28-29" },
+    reference: { book: "2 Nephi", chapter: 9, verses: [{ start: 28, end: 29 }] },
   },
   {
     text: "Yea, and there shall be many which shall teach after this manner, false and vain and foolish doctrines, and shall be puffed up in their hearts, and shall seek deep to hide their counsels from the Lord; and their works shall be in the dark.\n\nAnd the blood of the saints shall cry from the ground against them.\n\nYea, they have all gone out of the way; they have become corrupted.",
-    reference: { book: "2 Nephi", chapter: 28, verse: "7-9" },
+    reference: { book: "2 Nephi", chapter: 28, verses: [{ start: 7, end: 9 }] },
   },
   {
     text: "Angels speak by the power of the Holy Ghost; wherefore, they speak the words of Christ. Wherefore, I said unto you, feast upon the words of Christ; for behold, the words of Christ will tell you all things what ye should do.",
-    reference: { book: "2 Nephi", chapter: 32, verse: 3 },
+    reference: { book: "2 Nephi", chapter: 32, verses: [{ start: 3 }] },
+    context: { position: "after", text: "Wherefore, now after I have spoken these words, if ye cannot understand them it will be because ye ask not, neither do ye knock; wherefore, ye are not brought into the light, but must perish in the dark." },
   },
   {
     text: "And now, my beloved brethren, I perceive that ye ponder still in your hearts; and it grieveth me that I must speak concerning this thing. For if ye would hearken unto the Spirit which teacheth a man to pray, ye would know that ye must pray; for the evil spirit teacheth not a man to pray, but teacheth him that he must not pray.\n\nBut behold, I say unto you that ye must pray always, and not faint; that ye must not perform any thing unto the Lord save in the first place ye shall pray unto the Father in the name of Christ, that he will consecrate thy performance unto thee, that thy performance may be for the welfare of thy soul.",
-    reference: { book: "2 Nephi", chapter: 32, verse: "8-9" },
+    reference: { book: "2 Nephi", chapter: 32, verses: [{ start: 8, end: 9 }] },
   },
   {
     text: "But before ye seek for riches, seek ye for the kingdom of God.\n\nAnd after ye have obtained a hope in Christ ye shall obtain riches, if ye seek them; and ye will seek them for the intent to do good—to clothe the naked, and to feed the hungry, and to liberate the captive, and administer relief to the sick and the afflicted.",
-    reference: { book: "Jacob", chapter: 2, verse: "18-19" },
+    reference: { book: "Jacob", chapter: 2, verses: [{ start: 18, end: 19 }] },
   },
   {
     text: "And behold, I tell you these things that ye may learn wisdom; that ye may learn that when ye are in the service of your fellow beings ye are only in the service of your God.",
-    reference: { book: "Mosiah", chapter: 2, verse: 17 },
+    reference: { book: "Mosiah", chapter: 2, verses: [{ start: 17 }] },
+    context: { position: "after", text: "Behold, ye have called me your king; and if I, whom ye call your king, do labor to serve you, then ought not ye to labor to serve one another?" },
   },
   {
     text: "For the natural man is an enemy to God, and has been from the fall of Adam, and will be, forever and ever, unless he yields to the enticings of the Holy Spirit, and putteth off the natural man and becometh a saint through the atonement of Christ the Lord, and becometh as a child, submissive, meek, humble, patient, full of love, willing to submit to all things which the Lord seeth fit to inflict upon him, even as a child doth submit to his father.",
-    reference: { book: "Mosiah", chapter: 3, verse: 19 },
+    reference: { book: "Mosiah", chapter: 3, verses: [{ start: 19 }] },
+    context: { position: "after", text: "And now I say unto you, that the time shall come when the knowledge of a Savior shall spread throughout every nation, kindred, tongue, and people." },
   },
   {
     text: "But this much I can tell you, that if ye do not watch yourselves, and your thoughts, and your words, and your deeds, and observe the commandments of God, and continue in the faith of what ye have heard concerning the coming of our Lord, even unto the end of your lives, ye must perish. And now, O man, remember, and perish not.",
-    reference: { book: "Mosiah", chapter: 4, verse: 30 },
+    reference: { book: "Mosiah", chapter: 4, verses: [{ start: 30 }] },
   },
   {
     text: "And now, as I said concerning faith—faith is not to have a perfect knowledge of things; therefore if ye have faith ye hope for things which are not seen, which are true.",
-    reference: { book: "Alma", chapter: 32, verse: 21 },
+    reference: { book: "Alma", chapter: 32, verses: [{ start: 21 }] },
   },
   {
     text: "Therefore, this life became a probationary state; a time to prepare to meet God; a time to prepare for that endless state which has been spoken of by us, which is after the resurrection of the dead.\n\nAnd now, as I said unto you before, as ye have had so many witnesses, therefore, I beseech of you that ye do not procrastinate the day of your repentance until the end; for after this day of life, which is given us to prepare for eternity, behold, if we do not improve our time while in this life, then cometh the night of darkness wherein there can be no labor performed.\n\nYe cannot say, when ye are brought to that awful crisis, that I will repent, that I will return to my God. Nay, ye cannot say this; for that same spirit which doth possess your bodies at the time that ye go out of this life, that same spirit will have power to possess your body in that eternal world.",
-    reference: { book: "Alma", chapter: 34, verse: "32-34" },
+    reference: { book: "Alma", chapter: 34, verses: [{ start: 32, end: 34 }] },
   },
   {
     text: "Now ye may suppose that this is foolishness in me; but behold I say unto you, that by small and simple things are great things brought to pass; and small means in many instances doth confound the wise.\n\nAnd the Lord God doth work by means to bring about his great and eternal purposes; and by very small means the Lord doth confound the wise and bringeth about the salvation of many souls.",
-    reference: { book: "Alma", chapter: 37, verse: "6-7" },
+    reference: { book: "Alma", chapter: 37, verses: [{ start: 6, end: 7 }] },
   },
   {
     text: "O, remember, my son, and learn wisdom in thy youth; yea, learn in thy youth to keep the commandments of God.",
-    reference: { book: "Alma", chapter: 37, verse: 35 },
+    reference: { book: "Alma", chapter: 37, verses: [{ start: 35 }] },
   },
   {
     text: "Do not suppose, because it has been spoken concerning restoration, that ye shall be restored from sin to happiness. Behold, I say unto you, wickedness never was happiness.",
-    reference: { book: "Alma", chapter: 41, verse: 10 },
+    reference: { book: "Alma", chapter: 41, verses: [{ start: 10 }] },
   },
   {
     text: "And now, my sons, remember, remember that it is upon the rock of our Redeemer, who is Christ, the Son of God, that ye must build your foundation; that when the devil shall send forth his mighty winds, yea, his shafts in the whirlwind, yea, when all his hail and his mighty storm shall beat upon you, it shall have no power over you to drag you down to the gulf of misery and endless wo, because of the rock upon which ye are built, which is a sure foundation, a foundation whereon if men build they cannot fall.",
-    reference: { book: "Helaman", chapter: 5, verse: 12 },
+    reference: { book: "Helaman", chapter: 5, verses: [{ start: 12 }] },
   },
   {
     text: "For verily, verily I say unto you, he that hath the spirit of contention is not of me, but is of the devil, who is the father of contention, and he stirreth up the hearts of men to contend with anger, one with another.",
-    reference: { book: "3 Nephi", chapter: 11, verse: 29 },
+    reference: { book: "3 Nephi", chapter: 11, verses: [{ start: 29 }] },
   },
   {
     text: "Therefore, what manner of men ought ye to be? Verily I say unto you, even as I am.",
-    reference: { book: "3 Nephi", chapter: 27, verse: 27 },
+    reference: { book: "3 Nephi", chapter: 27, verses: [{ start: 27 }] },
   },
   {
     text: "And now, I, Moroni, would speak somewhat concerning these things; I would show unto the world that faith is things which are hoped for and not seen; wherefore, dispute not because ye see not, for ye receive no witness until after the trial of your faith.",
-    reference: { book: "Ether", chapter: 12, verse: 6 },
+    reference: { book: "Ether", chapter: 12, verses: [{ start: 6 }] },
   },
   {
     text: "And if men come unto me I will show unto them their weakness. I give unto men weakness that they may be humble; and my grace is sufficient for all men that humble themselves before me; for if they humble themselves before me, and have faith in me, then will I make weak things become strong unto them.",
-    reference: { book: "Ether", chapter: 12, verse: 27 },
+    reference: { book: "Ether", chapter: 12, verses: [{ start: 27 }] },
+    context: { position: "after", text: "Behold, I will show unto the Gentiles their weakness, and I will show unto them that faith, hope and charity bringeth unto me—the fountain of all righteousness." },
   },
   {
     text: "For behold, the Spirit of Christ is given to every man, that he may know good from evil; wherefore, I show unto you the way to judge; for every thing which inviteth to do good, and to persuade to believe in Christ, is sent forth by the power and gift of Christ; wherefore ye may know with a perfect knowledge it is of God.\n\nBut whatsoever thing persuadeth men to do evil, and believe not in Christ, and deny him, and serve not God, then ye may know with a perfect knowledge it is of the devil; for after this manner doth the devil work, for he persuadeth no man to do good, no, not one; neither do his angels; neither do they who subject themselves unto him.",
-    reference: { book: "Moroni", chapter: 7, verse: "16-17" },
+    reference: { book: "Moroni", chapter: 7, verses: [{ start: 16, end: 17 }] },
   },
   {
     text: "And charity suffereth long, and is kind, and envieth not, and is not puffed up, seeketh not her own, is not easily provoked, thinketh no evil, and rejoiceth not in iniquity but rejoiceth in the truth, beareth all things, believeth all things, hopeth all things, endureth all things.",
-    reference: { book: "Moroni", chapter: 7, verse: 45 },
+    reference: { book: "Moroni", chapter: 7, verses: [{ start: 45 }] },
   },
   {
     text: "And when ye shall receive these things, I would exhort you that ye would ask God, the Eternal Father, in the name of Christ, if these things are not true; and if ye shall ask with a sincere heart, with real intent, having faith in Christ, he will manifest the truth of it unto you, by the power of the Holy Ghost.\n\nAnd by the power of the Holy Ghost ye may know the truth of all things.",
-    reference: { book: "Moroni", chapter: 10, verse: "4-5" },
+    reference: { book: "Moroni", chapter: 10, verses: [{ start: 4, end: 5 }] },
+    context: { position: "after", text: "And whatsoever thing is good is just and true; wherefore, nothing that is good denieth the Christ, but acknowledgeth that he is." },
   },
 ];
\ No newline at end of file
@@ -0,0 +1,134 @@
+// data/dailySchedule.ts
+import { DAILY_SCHEDULE_START } from '../constants/Daily';
+
+export interface DailyScheduleVersion {
+  // First day (YYYY-MM-DD) a cycle can start with these passages in it
+  from: string;
+  scriptureIds: readonly string[];
+}
+
+// Passages in the daily schedule, by the release that added them. A cycle takes
+// every passage from the versions that had begun by its first day, so passages
+// added later wait for the next cycle instead of reshuffling the one in progress.
+// When adding passages to the data files, add a version with their ids, starting
+// a few days after the release reaches players. Never edit a released version.
+export const DAILY_SCHEDULE_VERSIONS: readonly DailyScheduleVersion[] = [
+  {
+    from: DAILY_SCHEDULE_START,
+    scriptureIds: [
+      'genesis-1-26-27',
+      'genesis-39-9',
+      'exodus-20-3-17',
+      'exodus-33-11',
+      'leviticus-19-18',
+      'deuteronomy-7-3-4',
+      'joshua-1-8',
+      'joshua-24-15',
+      '1-samuel-16-7',
+      'job-19-25-26',
+      'psalm-24-3-4',
+      'proverbs-3-5-6',
+      'isaiah-1-18',
+      'isaiah-29-13-14',
+      'isaiah-53-3-5',
+      'isaiah-55-8-9',
+      'jeremiah-16-16',
+      'ezekiel-37-15-17',
+      'daniel-2-44-45',
+      'amos-3-7',
+      'malachi-3-8-10',
+      'malachi-4-5-6',
+      'matthew-5-14-16',
+      'matthew-6-24',
+      'matthew-16-15-19',
+      'matthew-25-40',
+      'luke-24-36-39',
+      'john-3-5',
+      'john-7-17',
+      'john-10-16',
+      'john-14-15',
+      'john-17-3',
+      'acts-7-55-56',
+      'romans-1-16',
+      '1-corinthians-10-13',
+      '1-corinthians-15-20-22',
+      '1-corinthians-15-29',
+      '1-corinthians-15-40-42',
+      'ephesians-4-11-14',
+      '2-thessalonians-2-1-3',
+      '2-timothy-3-1-5',
+      '2-timothy-3-16-17',
+      'hebrews-5-4',
+      'james-1-5-6',
+      'james-2-17-18',
+      'revelation-14-6-7',
+      'revelation-20-12-13',
+      '1-nephi-3-7',
+      '1-nephi-19-23',
+      '2-nephi-2-25',
+      '2-nephi-2-27',
+      '2-nephi-9-28-29',
+      '2-nephi-28-7-9',
+      '2-nephi-32-3',
+      '2-nephi-32-8-9',
+      'jacob-2-18-19',
+      'mosiah-2-17',
+      'mosiah-3-19',
+      'mosiah-4-30',
+      'alma-32-21',
+      'alma-34-32-34',
+      'alma-37-6-7',
+      'alma-37-35',
+      'alma-41-10',
+      'helaman-5-12',
+      '3-nephi-11-29',
+      '3-nephi-27-27',
+      'ether-12-6',
+      'ether-12-27',
+      'moroni-7-16-17',
+      'moroni-7-45',
+      'moroni-10-4-5',
+      'd-c-1-37-38',
+      'd-c-8-2-3',
+      'd-c-10-5',
+      'd-c-14-7',
+      'd-c-18-10_15-16',
+      'd-c-19-16-19',
+      'd-c-25-12',
+      'd-c-58-26-27',
+      'd-c-58-42-43',
+      'd-c-59-9-10',
+      'd-c-64-9-11',
+      'd-c-64-23',
+      'd-c-76-22-24',
+      'd-c-82-3',
+      'd-c-82-10',
+      'd-c-84-33-39',
+      'd-c-88-123-124',
+      'd-c-89-18-21',
+      'd-c-121-34-36',
+      'd-c-130-18-19',
+      'd-c-130-20-21',
+      'd-c-130-22-23',
+      'd-c-131-1-4',
+      'd-c-137-7-10',
+      'moses-1-39',
+      'moses-7-18',
+      'abraham-3-22-23',
+      'joseph-smith-history-1-15-20',
+      'articles-of-faith-1-1',
+      'articles-of-faith-1-2',
+      'articles-of-faith-1-3',
+      'articles-of-faith-1-4',
+      'articles-of-faith-1-5',
+      'articles-of-faith-1-6',
+      'articles-of-faith-1-7',
+      'articles-of-faith-1-8',
+      'articles-of-faith-1-9',
+      'articles-of-faith-1-10',
+      'articles-of-faith-1-11',
+      'articles-of-faith-1-12',
+      'articles-of-faith-1-13',
+    ],
+  },
+];
@@ -1,106 +1,105 @@
 // data/doctrineAndCovenantsScriptures.ts
-import { Scripture } from '../types/scripture';
+import { ScriptureEntry } from '../types/scripture';
 
 // Doctrine and Covenants scripture mastery references
-export const doctrineAndCovenantsScriptures: Scripture[] = [
-  {
-    text: "After I had retired to the place where I had previously designed to go, having looked around me, and finding myself alone, I kneeled down and began to offer up the desires of my heart to God. I had scarcely done so, when immediately I was seized upon by some power which entirely overcame me, and had such an astonishing influence over me as to bind my tongue so that I could not speak. Thick darkness gathered around me, and it seemed to me for a time as if I were doomed to sudden destruction.\n\nBut, exerting all my powers to call upon God to deliver me out of the power of this enemy which had seized upon me, and at the very moment when I was ready to sink into despair and abandon myself to destruction—not to an imaginary ruin, but to the power of some actual being from the unseen world, who had such marvelous power as I had never before felt in any being—just at this moment of great alarm, I saw a pillar of light exactly over my head, above the brightness of the sun, which descended gradually until it fell upon me.\n\nIt no sooner appeared than I found myself delivered from the enemy which held me bound. When the light rested upon me I saw two Personages, whose brightness and glory defy all description, standing above me in the air. One of them spake unto me, calling me by name and said, pointing to the other—This is My Beloved Son. Hear Him!\n\nMy object in going to inquire of the Lord was to know which of all the sects was right, that I might know which to join. No sooner, therefore, did I get possession of myself, so as to be able to speak, than I asked the Personages who stood above me in the light, which of all the sects was right (for at this time it had never entered into my heart that all were wrong)—and which I should join.\n\nI was answered that I must join none of them, for they were all wrong; and the Personage who addressed me said that all their creeds were an abomination in his sight; that those professors were all corrupt; that: 'they draw near to me with their lips, but their hearts are far from me, they teach for doctrines the commandments of men, having a form of godliness, but they deny the power thereof.'",
-    reference: { book: "Joseph Smith—History", chapter: 1, verse: "15-20" },
-  },
+export const doctrineAndCovenantsScriptures: ScriptureEntry[] = [
   {
     text: "Search these commandments, for they are true and faithful, and the prophecies and promises which are in them shall all be fulfilled.\n\nWhat I the Lord have spoken, I have spoken, and I excuse not myself; and though the heavens and the earth pass away, my word shall not pass away, but shall all be fulfilled, whether by mine own voice or by the voice of my servants, it is the same.",
-    reference: { book: "D&C", chapter: 1, verse: "37-38" },
+    reference: { book: "D&C", chapter: 1, verses: [{ start: 37, end: 38 }] },
+    context: { position: "after", text: "For behold, and lo, the Lord is God, and the Spirit beareth record, and the record is true, and the truth abideth forever and ever. Amen." },
   },
   {
     text: "Yea, behold, I will tell you in your mind and in your heart, by the Holy Ghost, which shall come upon you and which shall dwell in your heart.\n\nNow, behold, this is the spirit of revelation; behold, this is the spirit by which Moses brought the children of Israel through the Red Sea on dry ground.",
-    reference: { book: "D&C", chapter: 8, verse: "2-3" },
+    reference: { book: "D&C", chapter: 8, verses: [{ start: 2, end: 3 }] },
   },
   {
     text: "Pray always, that you may come off conqueror; yea, that you may conquer Satan, and that you may escape the hands of the servants of Satan that do uphold his work.",
-    reference: { book: "D&C", chapter: 10, verse: 5 },
+    reference: { book: "D&C", chapter: 10, verses: [{ start: 5 }] },
   },
   {
     text: "And, if you keep my commandments and endure to the end you shall have eternal life, which gift is the greatest of all the gifts of God.",
-    reference: { book: "D&C", chapter: 14, verse: 7 },
+    reference: { book: "D&C", chapter: 14, verses: [{ start: 7 }] },
   },
   {
     text: "Remember the worth of souls is great in the sight of God;\n\nAnd how great is his joy in the soul that repenteth!\n\nAnd if it so be that you should labor all your days in crying repentance unto this people, and bring, save it be one soul unto me, how great shall be your joy with him in the kingdom of my Father!",
-    reference: { book: "D&C", chapter: 18, verse: "10, 15-16" },
+    reference: { book: "D&C", chapter: 18, verses: [{ start: 10 }, { start: 15, end: 16 }] },
   },
   {
     text: "For behold, I, God, have suffered these things for all, that they might not suffer if they would repent;\n\nBut if they would not repent they must suffer even as I;\n\nWhich suffering caused myself, even God, the greatest of all, to tremble because of pain, and to bleed at every pore, and to suffer both body and spirit—and would that I might not drink the bitter cup, and shrink—\n\nNevertheless, glory be to the Father, and I partook and finished my preparations unto the children of men.",
-    reference: { book: "D&C", chapter: 19, verse: "16-19" },
+    reference: { book: "D&C", chapter: 19, verses: [{ start: 16, end: 19 }] },
   },
   {
     text: "For my soul delighteth in the song of the heart; yea, the song of the righteous is a prayer unto me, and it shall be answered with a blessing upon their heads.",
-    reference: { book: "D&C", chapter: 25, verse: 12 },
+    reference: { book: "D&C", chapter: 25, verses: [{ start: 12 }] },
   },
   {
     text: "For behold, it is not meet that I should command in all things; for he that is compelled in all things, the same is a slothful and not a wise servant; wherefore he receiveth no reward.\n\nVerily I say, men should be anxiously engaged in a good cause, and do many things of their own free will, and bring to pass much righteousness;",
-    reference: { book: "D&C", chapter: 58, verse: "26-27" },
+    reference: { book: "D&C", chapter: 58, verses: [{ start: 26, end: 27 }] },
+    context: { position: "after", text: "For the power is in them, wherein they are agents unto themselves. And inasmuch as men do good they shall in nowise lose their reward." },
   },
   {
     text: "Behold, he who has repented of his sins, the same is forgiven, and I, the Lord, remember them no more.\n\nBy this ye may know if a man repenteth of his sins—behold, he will confess them and forsake them.",
-    reference: { book: "D&C", chapter: 58, verse: "42-43" },
+    reference: { book: "D&C", chapter: 58, verses: [{ start: 42, end: 43 }] },
   },
   {
     text: "And that thou mayest more fully keep thyself unspotted from the world, thou shalt go to the house of prayer and offer up thy sacraments upon my holy day;\n\nFor verily this is a day appointed unto you to rest from your labors, and to pay thy devotions unto the Most High;",
-    reference: { book: "D&C", chapter: 59, verse: "9-10" },
+    reference: { book: "D&C", chapter: 59, verses: [{ start: 9, end: 10 }] },
   },
   {
     text: "Wherefore, I say unto you, that ye ought to forgive one another; for he that forgiveth not his brother his trespasses standeth condemned before the Lord; for there remaineth in him the greater sin.\n\nI, the Lord, will forgive whom I will forgive, but of you it is required to forgive all men.\n\nAnd ye ought to say in your hearts—let God judge between me and thee, and reward thee according to thy deeds.",
-    reference: { book: "D&C", chapter: 64, verse: "9-11" },
+    reference: { book: "D&C", chapter: 64, verses: [{ start: 9, end: 11 }] },
   },
   {
     text: "Behold, now it is called today until the coming of the Son of Man, and verily it is a day of sacrifice, and a day for the tithing of my people; for he that is tithed shall not be burned at his coming.",
-    reference: { book: "D&C", chapter: 64, verse: 23 },
+    reference: { book: "D&C", chapter: 64, verses: [{ start: 23 }] },
   },
   {
     text: "And now, after the many testimonies which have been given of him, this is the testimony, last of all, which we give of him: That he lives!\n\nFor we saw him, even on the right hand of God; and we heard the voice bearing record that he is the Only Begotten of the Father—\n\nThat by him, and through him, and of him, the worlds are and were created, and the inhabitants thereof are begotten sons and daughters unto God.",
-    reference: { book: "D&C", chapter: 76, verse: "22-24" },
+    reference: { book: "D&C", chapter: 76, verses: [{ start: 22, end: 24 }] },
   },
   {
     text: "For of him unto whom much is given much is required; and he who sins against the greater light shall receive the greater condemnation.",
-    reference: { book: "D&C", chapter: 82, verse: 3 },
+    reference: { book: "D&C", chapter: 82, verses: [{ start: 3 }] },
   },
   {
     text: "I, the Lord, am bound when ye do what I say; but when ye do not what I say, ye have no promise.",
-    reference: { book: "D&C", chapter: 82, verse: 10 },
+    reference: { book: "D&C", chapter: 82, verses: [{ start: 10 }] },
+    context: { position: "before", text: "Behold, I give unto you directions how you may act before me, that it may turn to you for your salvation." },
   },
   {
     text: "For whoso is faithful unto the obtaining these two priesthoods of which I have spoken, and the magnifying their calling, are sanctified by the Spirit unto the renewing of their bodies.\n\nThey become the sons of Moses and of Aaron and the seed of Abraham, and the church and kingdom, and the elect of God.\n\nAnd also all they who receive this priesthood receive me, saith the Lord;\n\nFor he that receiveth my servants receiveth me;\n\nAnd he that receiveth me receiveth my Father;\n\nAnd he that receiveth my Father receiveth my Father's kingdom; therefore all that my Father hath shall be given unto him.\n\nAnd this is according to the oath and covenant which belongeth to the priesthood.",
-    reference: { book: "D&C", chapter: 84, verse: "33-39" },
+    reference: { book: "D&C", chapter: 84, verses: [{ start: 33, end: 39 }] },
   },
   {
     text: "Therefore, cease from all your light speeches, from all laughter, from all your lustful desires, from all your pride and light-mindedness, and from all your wicked doings.\n\nAppoint among yourselves a teacher, and let not all be spokesmen at once; but let one speak at a time and let all listen unto his sayings, that when all have spoken that all may be edified of all, and that every man may have an equal privilege.",
-    reference: { book: "D&C", chapter: 88, verse: "123-124" },
+    reference: { book: "D&C", chapter: 88, verses: [{ start: 123, end: 124 }] },
   },
   {
     text: "And all saints who remember to keep and do these sayings, walking in obedience to the commandments, shall receive health in their navel and marrow to their bones;\n\nAnd shall find wisdom and great treasures of knowledge, even hidden treasures;\n\nAnd shall run and not be weary, and shall walk and not faint.\n\nAnd I, the Lord, give unto them a promise, that the destroying angel shall pass by them, as the children of Israel, and not slay them. Amen.",
-    reference: { book: "D&C", chapter: 89, verse: "18-21" },
+    reference: { book: "D&C", chapter: 89, verses: [{ start: 18, end: 21 }] },
   },
   {
     text: "Behold, there are many called, but few are chosen. And why are they not chosen?\n\nBecause their hearts are set so much upon the things of this world, and aspire to the honors of men, that they do not learn this one lesson—\n\nThat the rights of the priesthood are inseparably connected with the powers of heaven, and that the powers of heaven cannot be controlled nor handled only upon the principles of righteousness.",
-    reference: { book: "D&C", chapter: 121, verse: "34-36" },
+    reference: { book: "D&C", chapter: 121, verses: [{ start: 34, end: 36 }] },
   },
   {
     text: "Whatever principle of intelligence we attain unto in this life, it will rise with us in the resurrection.\n\nAnd if a person gains more knowledge and intelligence in this life through his diligence and obedience than another, he will have so much the advantage in the world to come.",
-    reference: { book: "D&C", chapter: 130, verse: "18-19" },
+    reference: { book: "D&C", chapter: 130, verses: [{ start: 18, end: 19 }] },
   },
   {
     text: "There is a law, irrevocably decreed in heaven before the foundations of this world, upon which all blessings are predicated—\n\nAnd when we obtain any blessing from God, it is by obedience to that law upon which it is predicated.",
-    reference: { book: "D&C", chapter: 130, verse: "20-21" },
+    reference: { book: "D&C", chapter: 130, verses: [{ start: 20, end: 21 }] },
   },
   {
     text: "The Father has a body of flesh and bones as tangible as man's; the Son also; but the Holy Ghost has not a body of flesh and bones, but is a personage of Spirit. Were it not so, the Holy Ghost could not dwell in us.\n\nA man may receive the Holy Ghost, and it may descend upon him and not tarry with him.",
-    reference: { book: "D&C", chapter: 130, verse: "22-23" },
+    reference: { book: "D&C", chapter: 130, verses: [{ start: 22, end: 23 }] },
   },
   {
     text: "In the celestial glory there are three heavens or degrees;\n\nAnd in order to obtain the highest, a man must enter into this order of the priesthood [meaning the new and everlasting covenant of marriage];\n\nAnd if he does not, he cannot obtain it.\n\nHe may enter into the other, but that is the end of his kingdom; he cannot have an increase.",
-    reference: { book: "D&C", chapter: 131, verse: "1-4" },
+    reference: { book: "D&C", chapter: 131, verses: [{ start: 1, end: 4 }] },
   },
   {
     text: "And also all who have died without a knowledge of this gospel, who would have received it if they had been permitted to tarry, shall be heirs of the celestial kingdom of God;\n\nAlso all that shall die henceforth without a knowledge of it, who would have received it with all their hearts, shall be heirs of that kingdom;\n\nFor I, the Lord, will judge all men according to their works, according to the desire of their hearts.\n\nAnd I also beheld that all children who die before they arrive at the years of accountability are saved in the celestial kingdom of heaven.",
-    reference: { book: "D&C", chapter: 137, verse: "7-10" },
+    reference: { book: "D&C", chapter: 137, verses: [{ start: 7, end: 10 }] },
   },
 ];
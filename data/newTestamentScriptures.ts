@@ -1,106 +1,117 @@
 // data/newTestamentScriptures.ts
-import { Scripture } from '../types/scripture';
+import { ScriptureEntry } from '../types/scripture';
 
 // New Testament scripture mastery references
-export const newTestamentScriptures: Scripture[] = [
+export const newTestamentScriptures: ScriptureEntry[] = [
   {
     text: "Ye are the light of the world. A city that is set on an hill cannot be hid.\n\nNeither do men light a candle, and put it under a bushel, but on a candlestick; and it giveth light unto all that are in the house.\n\nLet your light so shine before men, that they may see your good works, and glorify your Father which is in heaven.",
-    reference: { book: "Matthew", chapter: 5, verse: "14-16" },
+    reference: { book: "Matthew", chapter: 5, verses: [{ start: 14, end: 16 }] },
   },
   {
     text: "No man can serve two masters: for either he will hate the one, and love the other; or else he will hold to the one, and despise the other. Ye cannot serve God and mammon.",
-    reference: { book: "Matthew", chapter: 6, verse: 24 },
+    reference: { book: "Matthew", chapter: 6, verses: [{ start: 24 }] },
   },
   {
     text: "He saith unto them, But whom say ye that I am? And Simon Peter answered and said, Thou art the Christ, the Son of the living God.\n\nAnd Jesus answered and said unto him, Blessed art thou, Simon Bar-jona: for flesh and blood hath not revealed it unto thee, but my Father which is in heaven.\n\nAnd I say also unto thee, That thou art Peter, and upon this rock I will build my church; and the gates of hell shall not prevail against it.\n\nAnd I will give unto thee the keys of the kingdom of heaven: and whatsoever thou shalt bind on earth shall be bound in heaven: and whatsoever thou shalt loose on earth shall be loosed in heaven.",
-    reference: { book: "Matthew", chapter: 16, verse: "15-19" },
+    reference: { book: "Matthew", chapter: 16, verses: [{ start: 15, end: 19 }] },
   },
   {
     text: "And the King shall answer and say unto them, Verily I say unto you, Inasmuch as ye have done it unto one of the least of these my brethren, ye have done it unto me.",
-    reference: { book: "Matthew", chapter: 25, verse: 40 },
+    reference: { book: "Matthew", chapter: 25, verses: [{ start: 40 }] },
+    context: { position: "after", text: "Then shall he say also unto them on the left hand, Depart from me, ye cursed, into everlasting fire, prepared for the devil and his angels:" },
   },
   {
     text: "But as they thus spake, Jesus himself stood in the midst of them, and saith unto them, Peace be unto you.\n\nBut they were terrified and affrighted, and supposed that they had seen a spirit.\n\nAnd he said unto them, Why are ye troubled? and why do thoughts arise in your hearts?\n\nBehold my hands and my feet, that it is I myself: handle me, and see; for a spirit hath not flesh and bones, as ye see me have.",
-    reference: { book: "Luke", chapter: 24, verse: "36-39" },
+    reference: { book: "Luke", chapter: 24, verses: [{ start: 36, end: 39 }] },
+    context: { position: "after", text: "And when he had thus spoken, he shewed them his hands and his feet." },
   },
   {
     text: "Jesus answered, Verily, verily, I say unto thee, Except a man be born of water and of the Spirit, he cannot enter into the kingdom of God.",
-    reference: { book: "John", chapter: 3, verse: 5 },
+    reference: { book: "John", chapter: 3, verses: [{ start: 5 }] },
+    context: { position: "after", text: "That which is born of the flesh is flesh; and that which is born of the Spirit is spirit." },
   },
   {
     text: "If any man will do his will, he shall know of the doctrine, whether it be of God, or whether I speak of myself.",
-    reference: { book: "John", chapter: 7, verse: 17 },
+    reference: { book: "John", chapter: 7, verses: [{ start: 17 }] },
+    context: { position: "after", text: "He that speaketh of himself seeketh his own glory: but he that seeketh his glory that sent him, the same is true, and no unrighteousness is in him." },
   },
   {
     text: "And other sheep I have, which are not of this fold: them also I must bring, and they shall hear my voice; and there shall be one fold, and one shepherd.",
-    reference: { book: "John", chapter: 10, verse: 16 },
+    reference: { book: "John", chapter: 10, verses: [{ start: 16 }] },
   },
   {
     text: "If ye love me, keep my commandments.",
-    reference: { book: "John", chapter: 14, verse: 15 },
+    reference: { book: "John", chapter: 14, verses: [{ start: 15 }] },
+    context: { position: "after", text: "And I will pray the Father, and he shall give you another Comforter, that he may abide with you for ever;" },
   },
   {
     text: "And this is life eternal, that they might know thee the only true God, and Jesus Christ, whom thou hast sent.",
-    reference: { book: "John", chapter: 17, verse: 3 },
+    reference: { book: "John", chapter: 17, verses: [{ start: 3 }] },
+    context: { position: "after", text: "I have glorified thee on the earth: I have finished the work which thou gavest me to do." },
   },
   {
     text: "But he, being full of the Holy Ghost, looked up stedfastly into heaven, and saw the glory of God, and Jesus standing on the right hand of God,\n\nAnd said, Behold, I see the heavens opened, and the Son of man standing on the right hand of God.",
-    reference: { book: "Acts", chapter: 7, verse: "55-56" },
+    reference: { book: "Acts", chapter: 7, verses: [{ start: 55, end: 56 }] },
   },
   {
     text: "For I am not ashamed of the gospel of Christ: for it is the power of God unto salvation to every one that believeth; to the Jew first, and also to the Greek.",
-    reference: { book: "Romans", chapter: 1, verse: 16 },
+    reference: { book: "Romans", chapter: 1, verses: [{ start: 16 }] },
+    context: { position: "after", text: "For therein is the righteousness of God revealed from faith to faith: as it is written, The just shall live by faith." },
   },
   {
     text: "There hath no temptation taken you but such as is common to man: but God is faithful, who will not suffer you to be tempted above that ye are able; but will with the temptation also make a way to escape, that ye may be able to bear it.",
-    reference: { book: "1 Corinthians", chapter: 10, verse: 13 },
+    reference: { book: "1 Corinthians", chapter: 10, verses: [{ start: 13 }] },
+    context: { position: "after", text: "Wherefore, my dearly beloved, flee from idolatry." },
   },
   {
     text: "But now is Christ risen from the dead, and become the firstfruits of them that slept.\n\nFor since by man came death, by man came also the resurrection of the dead.\n\nFor as in Adam all die, even so in Christ shall all be made alive.",
-    reference: { book: "1 Corinthians", chapter: 15, verse: "20-22" },
+    reference: { book: "1 Corinthians", chapter: 15, verses: [{ start: 20, end: 22 }] },
+    context: { position: "after", text: "But every man in his own order: Christ the firstfruits; afterward they that are Christ's at his coming." },
   },
   {
     text: "Else what shall they do which are baptized for the dead, if the dead rise not at all? why are they then baptized for the dead?",
-    reference: { book: "1 Corinthians", chapter: 15, verse: 29 },
+    reference: { book: "1 Corinthians", chapter: 15, verses: [{ start: 29 }] },
   },
   {
     text: "There are also celestial bodies, and bodies terrestrial: but the glory of the celestial is one, and the glory of the terrestrial is another.\n\nThere is one glory of the sun, and another glory of the moon, and another glory of the stars: for one star differeth from another star in glory.\n\nSo also is the resurrection of the dead. It is sown in corruption; it is raised in incorruption:",
-    reference: { book: "1 Corinthians", chapter: 15, verse: "40-42" },
+    reference: { book: "1 Corinthians", chapter: 15, verses: [{ start: 40, end: 42 }] },
   },
   {
     text: "And he gave some, apostles; and some, prophets; and some, evangelists; and some, pastors and teachers;\n\nFor the perfecting of the saints, for the work of the ministry, for the edifying of the body of Christ:\n\nTill we all come in the unity of the faith, and of the knowledge of the Son of God, unto a perfect man, unto the measure of the stature of the fulness of Christ:\n\nThat we henceforth be no more children, tossed to and fro, and carried about with every wind of doctrine, by the sleight of men, and cunning craftiness, whereby they lie in wait to deceive;",
-    reference: { book: "Ephesians", chapter: 4, verse: "11-14" },
+    reference: { book: "Ephesians", chapter: 4, verses: [{ start: 11, end: 14 }] },
   },
   {
     text: "Now we beseech you, brethren, by the coming of our Lord Jesus Christ, and by our gathering together unto him,\n\nThat ye be not soon shaken in mind, or be troubled, neither by spirit, nor by word, nor by letter as from us, as that the day of Christ is at hand.\n\nLet no man deceive you by any means: for that day shall not come, except there come a falling away first, and that man of sin be revealed, the son of perdition;",
-    reference: { book: "2 Thessalonians", chapter: 2, verse: "1-3" },
+    reference: { book: "2 Thessalonians", chapter: 2, verses: [{ start: 1, end: 3 }] },
   },
   {
     text: "This know also, that in the last days perilous times shall come.\n\nFor men shall be lovers of their own selves, covetous, boasters, proud, blasphemers, disobedient to parents, unthankful, unholy,\n\nWithout natural affection, trucebreakers, false accusers, incontinent, fierce, despisers of those that are good,\n\nTraitors, heady, highminded, lovers of pleasures more than lovers of God;\n\nHaving a form of godliness, but denying the power thereof: from such turn away.",
-    reference: { book: "2 Timothy", chapter: 3, verse: "1-5" },
+    reference: { book: "2 Timothy", chapter: 3, verses: [{ start: 1, end: 5 }] },
   },
   {
     text: "All scripture is given by inspiration of God, and is profitable for doctrine, for reproof, for correction, for instruction in righteousness:\n\nThat the man of God may be perfect, throughly furnished unto all good works.",
-    reference: { book: "2 Timothy", chapter: 3, verse: "16-17" },
+    reference: { book: "2 Timothy", chapter: 3, verses: [{ start: 16, end: 17 }] },
   },
   {
     text: "And no man taketh this honour unto himself, but he that is called of God, as was Aaron.",
-    reference: { book: "Hebrews", chapter: 5, verse: 4 },
+    reference: { book: "Hebrews", chapter: 5, verses: [{ start: 4 }] },
+    context: { position: "after", text: "So also Christ glorified not himself to be made an high priest; but he that said unto him, Thou art my Son, to day have I begotten thee." },
   },
   {
     text: "If any of you lack wisdom, let him ask of God, that giveth to all men liberally, and upbraideth not; and it shall be given him.\n\nBut let him ask in faith, nothing wavering. For he that wavereth is like a wave of the sea driven with the wind and tossed.",
-    reference: { book: "James", chapter: 1, verse: "5-6" },
+    reference: { book: "James", chapter: 1, verses: [{ start: 5, end: 6 }] },
+    context: { position: "after", text: "For let not that man think that he shall receive any thing of the Lord." },
   },
   {
     text: "Even so faith, if it hath not works, is dead, being alone.\n\nYea, a man may say, Thou hast faith, and I have works: shew me thy faith without thy works, and I will shew thee my faith by my works.",
-    reference: { book: "James", chapter: 2, verse: "17-18" },
+    reference: { book: "James", chapter: 2, verses: [{ start: 17, end: 18 }] },
   },
   {
     text: "And I saw another angel fly in the midst of heaven, having the everlasting gospel to preach unto them that dwell on the earth, and to every nation, and kindred, and tongue, and people,\n\nSaying with a loud voice, Fear God, and give glory to him; for the hour of his judgment is come: and worship him that made heaven, and earth, and the sea, and the fountains of waters.",
-    reference: { book: "Revelation", chapter: 14, verse: "6-7" },
+    reference: { book: "Revelation", chapter: 14, verses: [{ start: 6, end: 7 }] },
   },
   {
     text: "And I saw the dead, small and great, stand before God; and the books were opened: and another book was opened, which is the book of life: and the dead were judged out of those things which were written in the books, according to their works.\n\nAnd the sea gave up the dead which were in it; and death and hell delivered up the dead which were in them: and they were judged every man according to their works.",
-    reference: { book: "Revelation", chapter: 20, verse: "12-13" },
+    reference: { book: "Revelation", chapter: 20, verses: [{ start: 12, end: 13 }] },
   },
 ];
\ No newline at end of file
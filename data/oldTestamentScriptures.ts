@@ -1,106 +1,100 @@
 // data/oldTestamentScriptures.ts
-import { Scripture } from '../types/scripture';
+import { ScriptureEntry } from '../types/scripture';
 
 // Old Testament scripture mastery references
-export const oldTestamentScriptures: Scripture[] = [
-  {
-    text: "For behold, this is my work and my glory—to bring to pass the immortality and eternal life of man.",
-    reference: { book: "Moses", chapter: 1, verse: 39 },
-  },
-  {
-    text: "And the Lord called his people Zion, because they were of one heart and one mind, and dwelt in righteousness; and there was no poor among them.",
-    reference: { book: "Moses", chapter: 7, verse: 18 },
-  },
-  {
-    text: "Now the Lord had shown unto me, Abraham, the intelligences that were organized before the world was; and among all these there were many of the noble and great ones;\n\nAnd God saw these souls that they were good, and he stood in the midst of them, and he said: These I will make my rulers; for he stood among those that were spirits, and he saw that they were good; and he said unto me: Abraham, thou art one of them; thou wast chosen before thou wast born.",
-    reference: { book: "Abraham", chapter: 3, verse: "22-23" },
-  },
+export const oldTestamentScriptures: ScriptureEntry[] = [
   {
     text: "And God said, Let us make man in our image, after our likeness: and let them have dominion over the fish of the sea, and over the fowl of the air, and over the cattle, and over all the earth, and over every creeping thing that creepeth upon the earth.\n\nSo God created man in his own image, in the image of God created he him; male and female created he them.",
-    reference: { book: "Genesis", chapter: 1, verse: "26-27" },
+    reference: { book: "Genesis", chapter: 1, verses: [{ start: 26, end: 27 }] },
   },
   {
     text: "How can I do this great wickedness, and sin against God?",
-    reference: { book: "Genesis", chapter: 39, verse: 9 },
+    reference: { book: "Genesis", chapter: 39, verses: [{ start: 9 }] },
+    context: { position: "after", text: "And it came to pass, as she spake to Joseph day by day, that he hearkened not unto her, to lie by her, or to be with her." },
   },
   {
     text: "Thou shalt have no other gods before me.\n\nThou shalt not make unto thee any graven image...\n\nThou shalt not take the name of the Lord thy God in vain...\n\nRemember the sabbath day, to keep it holy...\n\nHonour thy father and thy mother...\n\nThou shalt not kill.\n\nThou shalt not commit adultery.\n\nThou shalt not steal.\n\nThou shalt not bear false witness against thy neighbour.\n\nThou shalt not covet...",
-    reference: { book: "Exodus", chapter: 20, verse: "3-17" },
+    reference: { book: "Exodus", chapter: 20, verses: [{ start: 3, end: 17 }] },
   },
   {
     text: "And the Lord spake unto Moses face to face, as a man speaketh unto his friend.",
-    reference: { book: "Exodus", chapter: 33, verse: 11 },
+    reference: { book: "Exodus", chapter: 33, verses: [{ start: 11 }] },
   },
   {
     text: "Thou shalt not avenge, nor bear any grudge against the children of thy people, but thou shalt love thy neighbour as thyself: I am the Lord.",
-    reference: { book: "Leviticus", chapter: 19, verse: 18 },
+    reference: { book: "Leviticus", chapter: 19, verses: [{ start: 18 }] },
   },
   {
     text: "Neither shalt thou make marriages with them; thy daughter thou shalt not give unto his son, nor his daughter shalt thou take unto thy son.\n\nFor they will turn away thy son from following me, that they may serve other gods: so will the anger of the Lord be kindled against you, and destroy thee suddenly.",
-    reference: { book: "Deuteronomy", chapter: 7, verse: "3-4" },
+    reference: { book: "Deuteronomy", chapter: 7, verses: [{ start: 3, end: 4 }] },
   },
   {
     text: "This book of the law shall not depart out of thy mouth; but thou shalt meditate therein day and night, that thou mayest observe to do according to all that is written therein: for then thou shalt make thy way prosperous, and then thou shalt have good success.",
-    reference: { book: "Joshua", chapter: 1, verse: 8 },
+    reference: { book: "Joshua", chapter: 1, verses: [{ start: 8 }] },
   },
   {
     text: "And if it seem evil unto you to serve the Lord, choose you this day whom ye will serve; whether the gods which your fathers served that were on the other side of the flood, or the gods of the Amorites, in whose land ye dwell: but as for me and my house, we will serve the Lord.",
-    reference: { book: "Joshua", chapter: 24, verse: 15 },
+    reference: { book: "Joshua", chapter: 24, verses: [{ start: 15 }] },
+    context: { position: "after", text: "And the people answered and said, God forbid that we should forsake the LORD, to serve other gods;" },
   },
   {
     text: "But the Lord said unto Samuel, Look not on his countenance, or on the height of his stature; because I have refused him: for the Lord seeth not as man seeth; for man looketh on the outward appearance, but the Lord looketh on the heart.",
-    reference: { book: "1 Samuel", chapter: 16, verse: 7 },
+    reference: { book: "1 Samuel", chapter: 16, verses: [{ start: 7 }] },
+    context: { position: "after", text: "Then Jesse called Abinadab, and made him pass before Samuel. And he said, Neither hath the LORD chosen this." },
   },
   {
     text: "For I know that my redeemer liveth, and that he shall stand at the latter day upon the earth:\n\nAnd though after my skin worms destroy this body, yet in my flesh shall I see God.",
-    reference: { book: "Job", chapter: 19, verse: "25-26" },
+    reference: { book: "Job", chapter: 19, verses: [{ start: 25, end: 26 }] },
   },
   {
     text: "Who shall ascend into the hill of the Lord? or who shall stand in his holy place?\n\nHe that hath clean hands, and a pure heart; who hath not lifted up his soul unto vanity, nor sworn deceitfully.",
-    reference: { book: "Psalm", chapter: 24, verse: "3-4" },
+    reference: { book: "Psalm", chapter: 24, verses: [{ start: 3, end: 4 }] },
   },
   {
     text: "Trust in the Lord with all thine heart; and lean not unto thine own understanding.\n\nIn all thy ways acknowledge him, and he shall direct thy paths.",
-    reference: { book: "Proverbs", chapter: 3, verse: "5-6" },
+    reference: { book: "Proverbs", chapter: 3, verses: [{ start: 5, end: 6 }] },
+    context: { position: "after", text: "Be not wise in thine own eyes: fear the LORD, and depart from evil." },
   },
   {
     text: "Come now, and let us reason together, saith the Lord: though your sins be as scarlet, they shall be as white as snow; though they be red like crimson, they shall be as wool.",
-    reference: { book: "Isaiah", chapter: 1, verse: 18 },
+    reference: { book: "Isaiah", chapter: 1, verses: [{ start: 18 }] },
+    context: { position: "after", text: "If ye be willing and obedient, ye shall eat the good of the land:" },
   },
   {
     text: "Wherefore the Lord said, Forasmuch as this people draw near me with their mouth, and with their lips do honour me, but have removed their heart far from me, and their fear toward me is taught by the precept of men:\n\nTherefore, behold, I will proceed to do a marvellous work among this people, even a marvellous work and a wonder: for the wisdom of their wise men shall perish, and the understanding of their prudent men shall be hid.",
-    reference: { book: "Isaiah", chapter: 29, verse: "13-14" },
+    reference: { book: "Isaiah", chapter: 29, verses: [{ start: 13, end: 14 }] },
   },
   {
     text: "He is despised and rejected of men; a man of sorrows, and acquainted with grief: and we hid as it were our faces from him; he was despised, and we esteemed him not.\n\nSurely he hath borne our griefs, and carried our sorrows: yet we did esteem him stricken, smitten of God, and afflicted.\n\nBut he was wounded for our transgressions, he was bruised for our iniquities: the chastisement of our peace was upon him; and with his stripes we are healed.",
-    reference: { book: "Isaiah", chapter: 53, verse: "3-5" },
+    reference: { book: "Isaiah", chapter: 53, verses: [{ start: 3, end: 5 }] },
   },
   {
     text: "For my thoughts are not your thoughts, neither are your ways my ways, saith the Lord.\n\nFor as the heavens are higher than the earth, so are my ways higher than your ways, and my thoughts than your thoughts.",
-    reference: { book: "Isaiah", chapter: 55, verse: "8-9" },
+    reference: { book: "Isaiah", chapter: 55, verses: [{ start: 8, end: 9 }] },
   },
   {
     text: "Behold, I will send for many fishers, saith the Lord, and they shall fish them; and after will I send for many hunters, and they shall hunt them from every mountain, and from every hill, and out of the holes of the rocks.",
-    reference: { book: "Jeremiah", chapter: 16, verse: 16 },
+    reference: { book: "Jeremiah", chapter: 16, verses: [{ start: 16 }] },
   },
   {
     text: "Moreover, thou son of man, take thee one stick, and write upon it, For Judah, and for the children of Israel his companions: then take another stick, and write upon it, For Joseph, the stick of Ephraim, and for all the house of Israel his companions:\n\nAnd join them one to another into one stick; and they shall become one in thine hand.",
-    reference: { book: "Ezekiel", chapter: 37, verse: "15-17" },
+    reference: { book: "Ezekiel", chapter: 37, verses: [{ start: 15, end: 17 }] },
   },
   {
     text: "And in the days of these kings shall the God of heaven set up a kingdom, which shall never be destroyed: and the kingdom shall not be left to other people, but it shall break in pieces and consume all these kingdoms, and it shall stand for ever.\n\nForasmuch as thou sawest that the stone was cut out of the mountain without hands, and that it brake in pieces the iron, the brass, the clay, the silver, and the gold; the great God hath made known to the king what shall come to pass hereafter: and the dream is certain, and the interpretation thereof sure.",
-    reference: { book: "Daniel", chapter: 2, verse: "44-45" },
+    reference: { book: "Daniel", chapter: 2, verses: [{ start: 44, end: 45 }] },
   },
   {
     text: "Surely the Lord God will do nothing, but he revealeth his secret unto his servants the prophets.",
-    reference: { book: "Amos", chapter: 3, verse: 7 },
+    reference: { book: "Amos", chapter: 3, verses: [{ start: 7 }] },
+    context: { position: "after", text: "The lion hath roared, who will not fear? the Lord GOD hath spoken, who can but prophesy?" },
   },
   {
     text: "Will a man rob God? Yet ye have robbed me. But ye say, Wherein have we robbed thee? In tithes and offerings.\n\nYe are cursed with a curse: for ye have robbed me, even this whole nation.\n\nBring ye all the tithes into the storehouse, that there may be meat in mine house, and prove me now herewith, saith the Lord of hosts, if I will not open you the windows of heaven, and pour you out a blessing, that there shall not be room enough to receive it.",
-    reference: { book: "Malachi", chapter: 3, verse: "8-10" },
+    reference: { book: "Malachi", chapter: 3, verses: [{ start: 8, end: 10 }] },
   },
   {
     text: "Behold, I will send you Elijah the prophet before the coming of the great and dreadful day of the Lord:\n\nAnd he shall turn the heart of the fathers to the children, and the heart of the children to their fathers, lest I come and smite the earth with a curse.",
-    reference: { book: "Malachi", chapter: 4, verse: "5-6" },
+    reference: { book: "Malachi", chapter: 4, verses: [{ start: 5, end: 6 }] },
   },
 ];
\ No newline at end of file
@@ -0,0 +1,75 @@
+// data/pearlOfGreatPriceScriptures.ts
+import { ScriptureEntry } from '../types/scripture';
+
+// Pearl of Great Price scripture mastery references
+export const pearlOfGreatPriceScriptures: ScriptureEntry[] = [
+  {
+    text: "For behold, this is my work and my glory—to bring to pass the immortality and eternal life of man.",
+    reference: { book: "Moses", chapter: 1, verses: [{ start: 39 }] },
+    context: { position: "before", text: "And as one earth shall pass away, and the heavens thereof even so shall another come; and there is no end to my works, neither to my words." },
+  },
+  {
+    text: "And the Lord called his people Zion, because they were of one heart and one mind, and dwelt in righteousness; and there was no poor among them.",
+    reference: { book: "Moses", chapter: 7, verses: [{ start: 18 }] },
+  },
+  {
+    text: "Now the Lord had shown unto me, Abraham, the intelligences that were organized before the world was; and among all these there were many of the noble and great ones;\n\nAnd God saw these souls that they were good, and he stood in the midst of them, and he said: These I will make my rulers; for he stood among those that were spirits, and he saw that they were good; and he said unto me: Abraham, thou art one of them; thou wast chosen before thou wast born.",
+    reference: { book: "Abraham", chapter: 3, verses: [{ start: 22, end: 23 }] },
+  },
+  {
+    text: "After I had retired to the place where I had previously designed to go, having looked around me, and finding myself alone, I kneeled down and began to offer up the desires of my heart to God. I had scarcely done so, when immediately I was seized upon by some power which entirely overcame me, and had such an astonishing influence over me as to bind my tongue so that I could not speak. Thick darkness gathered around me, and it seemed to me for a time as if I were doomed to sudden destruction.\n\nBut, exerting all my powers to call upon God to deliver me out of the power of this enemy which had seized upon me, and at the very moment when I was ready to sink into despair and abandon myself to destruction—not to an imaginary ruin, but to the power of some actual being from the unseen world, who had such marvelous power as I had never before felt in any being—just at this moment of great alarm, I saw a pillar of light exactly over my head, above the brightness of the sun, which descended gradually until it fell upon me.\n\nIt no sooner appeared than I found myself delivered from the enemy which held me bound. When the light rested upon me I saw two Personages, whose brightness and glory defy all description, standing above me in the air. One of them spake unto me, calling me by name and said, pointing to the other—This is My Beloved Son. Hear Him!\n\nMy object in going to inquire of the Lord was to know which of all the sects was right, that I might know which to join. No sooner, therefore, did I get possession of myself, so as to be able to speak, than I asked the Personages who stood above me in the light, which of all the sects was right (for at this time it had never entered into my heart that all were wrong)—and which I should join.\n\nI was answered that I must join none of them, for they were all wrong; and the Personage who addressed me said that all their creeds were an abomination in his sight; that those professors were all corrupt; that: 'they draw near to me with their lips, but their hearts are far from me, they teach for doctrines the commandments of men, having a form of godliness, but they deny the power thereof.'",
+    reference: { book: "Joseph Smith—History", chapter: 1, verses: [{ start: 15, end: 20 }] },
+  },
+  {
+    text: "We believe in God, the Eternal Father, and in His Son, Jesus Christ, and in the Holy Ghost.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 1 }] },
+  },
+  {
+    text: "We believe that men will be punished for their own sins, and not for Adam's transgression.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 2 }] },
+  },
+  {
+    text: "We believe that through the Atonement of Christ, all mankind may be saved, by obedience to the laws and ordinances of the Gospel.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 3 }] },
+  },
+  {
+    text: "We believe that the first principles and ordinances of the Gospel are: first, Faith in the Lord Jesus Christ; second, Repentance; third, Baptism by immersion for the remission of sins; fourth, Laying on of hands for the gift of the Holy Ghost.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 4 }] },
+  },
+  {
+    text: "We believe that a man must be called of God, by prophecy, and by the laying on of hands by those who are in authority, to preach the Gospel and administer in the ordinances thereof.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 5 }] },
+  },
+  {
+    text: "We believe in the same organization that existed in the Primitive Church, namely, apostles, prophets, pastors, teachers, evangelists, and so forth.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 6 }] },
+  },
+  {
+    text: "We believe in the gift of tongues, prophecy, revelation, visions, healing, interpretation of tongues, and so forth.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 7 }] },
+  },
+  {
+    text: "We believe the Bible to be the word of God as far as it is translated correctly; we also believe the Book of Mormon to be the word of God.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 8 }] },
+  },
+  {
+    text: "We believe all that God has revealed, all that He does now reveal, and we believe that He will yet reveal many great and important things pertaining to the Kingdom of God.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 9 }] },
+  },
+  {
+    text: "We believe in the literal gathering of Israel and in the restoration of the Ten Tribes; that Zion (the New Jerusalem) will be built upon the American continent; that Christ will reign personally upon the earth; and, that the earth will be renewed and receive its paradisiacal glory.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 10 }] },
+  },
+  {
+    text: "We claim the privilege of worshiping Almighty God according to the dictates of our own conscience, and allow all men the same privilege, let them worship how, where, or what they may.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 11 }] },
+  },
+  {
+    text: "We believe in being subject to kings, presidents, rulers, and magistrates, in obeying, honoring, and sustaining the law.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 12 }] },
+  },
+  {
+    text: "We believe in being honest, true, chaste, benevolent, virtuous, and in doing good to all men; indeed, we may say that we follow the admonition of Paul—We believe all things, we hope all things, we have endured many things, and hope to be able to endure all things. If there is anything virtuous, lovely, or of good report or praiseworthy, we seek after these things.",
+    reference: { book: "Articles of Faith", chapter: 1, verses: [{ start: 13 }] },
+  },
+];
\ No newline at end of file
@@ -1,9 +1,35 @@
 // data/scriptureData.ts
-import { Scripture } from '../types/scripture';
-import { oldTestamentScriptures } from './oldTestamentScriptures';
-import { newTestamentScriptures } from './newTestamentScriptures';
-import { bookOfMormonScriptures } from './bookOfMormonScriptures';
-import { doctrineAndCovenantsScriptures } from './doctrineAndCovenantsScriptures';
+import { Scripture, ScriptureCollection, ScriptureEntry, ScriptureReference } from '../types/scripture';
+import { oldTestamentScriptures as oldTestamentEntries } from './oldTestamentScriptures';
+import { newTestamentScriptures as newTestamentEntries } from './newTestamentScriptures';
+import { bookOfMormonScriptures as bookOfMormonEntries } from './bookOfMormonScriptures';
+import { doctrineAndCovenantsScriptures as doctrineAndCovenantsEntries } from './doctrineAndCovenantsScriptures';
+import { pearlOfGreatPriceScriptures as pearlOfGreatPriceEntries } from './pearlOfGreatPriceScriptures';
+
+/**
+ * Stable id for a passage, derived from its reference so it survives corrections
+ * to the text, e.g. "2-nephi-9-28-29" or "d-c-18-10_15-16". Ids only use letters,
+ * digits, dashes and underscores so they're safe as Firestore field names.
+ */
+export const getScriptureId = (reference: ScriptureReference): string => {
+  const book = reference.book
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+  const verses = reference.verses
+    .map(({ start, end }) => (end !== undefined && end !== start ? `${start}-${end}` : `${start}`))
+    .join('_');
+  return `${book}-${reference.chapter}-${verses}`;
+};
+
+const withIds = (entries: ScriptureEntry[]): Scripture[] =>
+  entries.map((entry) => ({ id: getScriptureId(entry.reference), ...entry }));
+
+const oldTestamentScriptures = withIds(oldTestamentEntries);
+const newTestamentScriptures = withIds(newTestamentEntries);
+const bookOfMormonScriptures = withIds(bookOfMormonEntries);
+const doctrineAndCovenantsScriptures = withIds(doctrineAndCovenantsEntries);
+const pearlOfGreatPriceScriptures = withIds(pearlOfGreatPriceEntries);
 
 // Combine all scripture collections
 export const allScriptures: Scripture[] = [
@@ -11,10 +37,22 @@ export const allScriptures: Scripture[] = [
   ...newTestamentScriptures,
   ...bookOfMormonScriptures,
   ...doctrineAndCovenantsScriptures,
+  ...pearlOfGreatPriceScriptures,
 ];
 
+const scripturesById = new Map(allScriptures.map((scripture) => [scripture.id, scripture]));
+
+// Look up a passage by its id (undefined for ids no longer in the data set)
+export const getScriptureById = (id: string): Scripture | undefined => scripturesById.get(id);
+
+// Look up several passages in the order given, skipping unknown ids
+export const getScripturesByIds = (ids: string[]): Scripture[] =>
+  ids
+    .map((id) => scripturesById.get(id))
+    .filter((scripture): scripture is Scripture => !!scripture);
+
 // Utility function to get scriptures by collection
-export const getScripturesByCollection = (collection: 'OT' | 'NT' | 'BOM' | 'DC'): Scripture[] => {
+export const getScripturesByCollection = (collection: ScriptureCollection): Scripture[] => {
   switch (collection) {
     case 'OT':
       return oldTestamentScriptures;
@@ -24,15 +62,26 @@ export const getScripturesByCollection = (collection: 'OT' | 'NT' | 'BOM' | 'DC'
       return bookOfMormonScriptures;
     case 'DC':
       return doctrineAndCovenantsScriptures;
+    case 'PGP':
+      return pearlOfGreatPriceScriptures;
     default:
       return [];
   }
 };
 
+// Build a pool from several collections (all scriptures when none are given)
+export const getScripturesByCollections = (collections: ScriptureCollection[]): Scripture[] => {
+  if (collections.length === 0) {
+    return allScriptures;
+  }
+  return collections.flatMap(getScripturesByCollection);
+};
+
 // Export individual collections for direct access
 export {
   oldTestamentScriptures,
   newTestamentScriptures,
   bookOfMormonScriptures,
   doctrineAndCovenantsScriptures,
+  pearlOfGreatPriceScriptures,
 };
\ No newline at end of file
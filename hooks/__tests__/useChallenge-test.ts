@@ -0,0 +1,58 @@
+import { getScripturesByIds } from '@/data/scriptureData';
+import { mapChallengeDoc } from '../useChallenge';
+
+jest.mock('@/config/firebase', () => ({ db: {} }));
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: null, userProfile: null }),
+}));
+
+jest.mock('firebase/firestore', () => ({}));
+
+const stored = {
+  challengeCode: 'ABC123',
+  difficulty: 'medium',
+  questionCount: 10,
+  creatorId: 'player-1',
+  creatorNickname: 'Nephi',
+  status: 'pending',
+};
+
+describe('mapChallengeDoc', () => {
+  it('looks up passages by id', () => {
+    const scriptureIds = ['1-nephi-3-7', '2-nephi-9-28-29'];
+    const scriptures = getScripturesByIds(scriptureIds);
+
+    const challenge = mapChallengeDoc('challenge-1', { ...stored, scriptureIds, scriptures });
+
+    expect(challenge.scriptureIds).toEqual(scriptureIds);
+    expect(challenge.scriptures).toEqual(scriptures);
+  });
+
+  it('reads passages copied into challenges saved before scripture ids', () => {
+    const challenge = mapChallengeDoc('challenge-1', {
+      ...stored,
+      scriptures: [
+        { text: 'I will go and do', reference: { book: '1 Nephi', chapter: 3, verse: 7 } },
+        { text: 'But to be learned is good', reference: { book: '2 Nephi', chapter: 9, verse: '28-29' } },
+      ],
+    });
+
+    expect(challenge.scriptureIds).toEqual(['1-nephi-3-7', '2-nephi-9-28-29']);
+    expect(challenge.scriptures.map(({ reference }) => reference)).toEqual([
+      { book: '1 Nephi', chapter: 3, verses: [{ start: 7 }] },
+      { book: '2 Nephi', chapter: 9, verses: [{ start: 28, end: 29 }] },
+    ]);
+    expect(challenge.scriptures[1].text).toBe('But to be learned is good');
+  });
+
+  it('leaves out passages this version of the app does not have', () => {
+    const challenge = mapChallengeDoc('challenge-1', {
+      ...stored,
+      scriptureIds: ['1-nephi-3-7', 'a-passage-from-a-newer-app'],
+    });
+
+    expect(challenge.scriptureIds).toHaveLength(2);
+    expect(challenge.scriptures.map(({ id }) => id)).toEqual(['1-nephi-3-7']);
+  });
+});
@@ -0,0 +1,94 @@
+import * as React from 'react';
+import renderer, { act } from 'react-test-renderer';
+import { addDoc, getDocs, updateDoc, where } from 'firebase/firestore';
+
+import { LeaderboardBoard } from '@/types/scripture';
+import { useLeaderboard } from '../useLeaderboard';
+
+jest.mock('@/config/firebase', () => ({ db: {} }));
+
+jest.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({
+    user: { uid: 'player-1', isAnonymous: false },
+    userProfile: { hasJoinedLeaderboard: true, photoURL: null },
+  }),
+}));
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(() => 'leaderboard'),
+  query: jest.fn((...constraints) => constraints),
+  where: jest.fn((field, op, value) => ({ field, op, value })),
+  orderBy: jest.fn(),
+  limit: jest.fn(),
+  getDocs: jest.fn(),
+  addDoc: jest.fn(),
+  updateDoc: jest.fn(),
+  doc: jest.fn((_db, _collection, id) => id),
+  serverTimestamp: jest.fn(() => 'now'),
+  onSnapshot: jest.fn(() => () => {}),
+}));
+
+const renderLeaderboard = (board: LeaderboardBoard) => {
+  let leaderboard!: ReturnType<typeof useLeaderboard>;
+  const Probe = () => {
+    leaderboard = useLeaderboard(board);
+    return null;
+  };
+  act(() => {
+    renderer.create(<Probe />);
+  });
+  return leaderboard;
+};
+
+describe('useLeaderboard', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('keeps a survival run off the score board', async () => {
+    (getDocs as jest.Mock).mockResolvedValue({ empty: true, docs: [] });
+    const { submitSurvival } = renderLeaderboard('easy-survival');
+
+    await act(async () => {
+      await submitSurvival(12, 'Nephi');
+    });
+
+    expect(where).toHaveBeenCalledWith('difficulty', '==', 'easy-survival');
+    const written = (addDoc as jest.Mock).mock.calls[0][1];
+    expect(written).toMatchObject({ difficulty: 'easy-survival', survival: 12 });
+    expect(written).not.toHaveProperty('score');
+    expect(written).not.toHaveProperty('points');
+  });
+
+  it('only raises an existing survival run', async () => {
+    (getDocs as jest.Mock).mockResolvedValue({
+      empty: false,
+      docs: [{ id: 'entry-1', data: () => ({ survival: 20 }) }],
+    });
+    const { submitSurvival } = renderLeaderboard('hard-survival');
+
+    await act(async () => {
+      await submitSurvival(15, 'Nephi');
+    });
+    expect(updateDoc).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await submitSurvival(25, 'Nephi');
+    });
+    expect((updateDoc as jest.Mock).mock.calls[0][1]).toMatchObject({ survival: 25 });
+    expect((updateDoc as jest.Mock).mock.calls[0][1]).not.toHaveProperty('score');
+  });
+
+  it('leaves the survival field off session scores', async () => {
+    (getDocs as jest.Mock).mockResolvedValue({ empty: true, docs: [] });
+    const { submitScore } = renderLeaderboard('easy');
+
+    await act(async () => {
+      await submitScore(3, 'Nephi', null, 250);
+    });
+
+    const written = (addDoc as jest.Mock).mock.calls[0][1];
+    expect(written).toMatchObject({ difficulty: 'easy', score: 3, points: 250 });
+    expect(written).not.toHaveProperty('survival');
+  });
+});
@@ -31,6 +31,10 @@ export {
 export { useTutorial } from './useTutorial';
 export { useLeaderboard } from './useLeaderboard';
 export { useDailyChallenge } from './useDailyChallenge';
+export { useMemorizeProgress } from './useMemorizeProgress';
+export { useStudyQueue } from './useStudyQueue';
+export { useScriptureStats } from './useScriptureStats';
+export { useFavorites } from './useFavorites';
 export { useChallenge } from './useChallenge';
 export { useMyChallenges } from './useMyChallenges';
 export { useSound } from './useSound';
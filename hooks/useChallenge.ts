@@ -14,30 +14,46 @@ import {
   runTransaction,
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
+import { getScripturesByIds } from '@/data/scriptureData';
 import {
   Challenge,
   GameMode,
+  GameVariant,
   QuestionCount,
   ChallengeStatus,
   Scripture,
+  ScriptureCollection,
 } from '@/types/scripture';
 import { useAuth } from '@/contexts/AuthContext';
 import {
   getScripturesForChallenge,
   generateChallengeCode,
+  getCollectionsLabel,
+  normalizeStoredScripture,
 } from '@/utils/scriptureUtils';
 import { capitalize } from '@/utils/styleUtils';
 
 const CHALLENGE_EXPIRY_DAYS = 7;
+const MISSING_PASSAGES_ERROR =
+  "This challenge uses passages that aren't in this version of the app. Update the app to play it.";
 
 // Helper to map Firestore document/snapshot to Challenge
-function mapChallengeDoc(docId: string, data: any): Challenge {
+export function mapChallengeDoc(docId: string, data: any): Challenge {
+  // Challenges created before scripture ids copied every passage into the document
+  const scriptures: Scripture[] = data.scriptureIds
+    ? getScripturesByIds(data.scriptureIds)
+    : (data.scriptures ?? []).map(normalizeStoredScripture);
+
   return {
     id: docId,
     challengeCode: data.challengeCode,
     difficulty: data.difficulty,
     questionCount: data.questionCount,
-    scriptures: data.scriptures,
+    scriptureIds: data.scriptureIds ?? scriptures.map((scripture) => scripture.id),
+    scriptures,
+    collections: data.collections,
+    multipleChoice: data.multipleChoice ?? false,
+    variant: data.variant ?? 'reference',
     creatorId: data.creatorId,
     creatorNickname: data.creatorNickname,
     creatorPhotoURL: data.creatorPhotoURL,
@@ -58,6 +74,11 @@ function mapChallengeDoc(docId: string, data: any): Challenge {
   };
 }
 
+// A challenge saved by a newer app can name passages this one doesn't have
+function hasMissingScriptures(challenge: Challenge): boolean {
+  return challenge.scriptures.length < challenge.scriptureIds.length;
+}
+
 /**
  * Hook for managing multiplayer challenges
  */
@@ -82,7 +103,13 @@ export function useChallenge(challengeId?: string) {
       challengeRef,
       (snapshot) => {
         if (snapshot.exists()) {
-          setChallenge(mapChallengeDoc(snapshot.id, snapshot.data()));
+          const mappedChallenge = mapChallengeDoc(snapshot.id, snapshot.data());
+          if (hasMissingScriptures(mappedChallenge)) {
+            setChallenge(null);
+            setError(MISSING_PASSAGES_ERROR);
+          } else {
+            setChallenge(mappedChallenge);
+          }
         } else {
           setChallenge(null);
           setError('Challenge not found');
@@ -110,7 +137,10 @@ export function useChallenge(challengeId?: string) {
   const createChallenge = useCallback(
     async (
       difficulty: GameMode,
-      questionCount: QuestionCount
+      questionCount: QuestionCount,
+      collections: ScriptureCollection[] = [],
+      multipleChoice: boolean = false,
+      variant: GameVariant = 'reference'
     ): Promise<Challenge | null> => {
       if (!user || !userProfile?.nickname) {
         setError('You must have a nickname to create challenges');
@@ -142,7 +172,7 @@ export function useChallenge(challengeId?: string) {
         }
 
         // Generate scriptures using the challenge code as seed
-        const scriptures = getScripturesForChallenge(challengeCode, questionCount);
+        const scriptures = getScripturesForChallenge(challengeCode, questionCount, collections);
 
         // Calculate expiry date
         const expiresAt = new Date();
@@ -152,7 +182,12 @@ export function useChallenge(challengeId?: string) {
           challengeCode,
           difficulty,
           questionCount,
+          scriptureIds: scriptures.map((scripture) => scripture.id),
+          // Installed apps older than scripture ids still read the passages from here
           scriptures,
+          collections,
+          multipleChoice,
+          variant,
           creatorId: user.uid,
           creatorNickname: userProfile.nickname,
           creatorPhotoURL: userProfile.photoURL || null,
@@ -193,6 +228,9 @@ export function useChallenge(challengeId?: string) {
       difficulty: GameMode;
       questionCount: QuestionCount;
       scriptures: Scripture[];
+      collections?: ScriptureCollection[];
+      multipleChoice?: boolean;
+      variant?: GameVariant;
       creatorScore: number;
     }): Promise<Challenge | null> => {
       if (!user || !userProfile?.nickname) {
@@ -205,6 +243,9 @@ export function useChallenge(challengeId?: string) {
 
       try {
         const { challengeCode, difficulty, questionCount, scriptures, creatorScore } = params;
+        const collections = params.collections ?? [];
+        const multipleChoice = params.multipleChoice ?? false;
+        const variant = params.variant ?? 'reference';
 
         // Calculate expiry date
         const expiresAt = new Date();
@@ -214,7 +255,12 @@ export function useChallenge(challengeId?: string) {
           challengeCode,
           difficulty,
           questionCount,
+          scriptureIds: scriptures.map((scripture) => scripture.id),
+          // Installed apps older than scripture ids still read the passages from here
           scriptures,
+          collections,
+          multipleChoice,
+          variant,
           creatorId: user.uid,
           creatorNickname: userProfile.nickname,
           creatorPhotoURL: userProfile.photoURL || null,
@@ -272,6 +318,11 @@ export function useChallenge(challengeId?: string) {
 
         const docData = snapshot.docs[0];
         const foundChallenge = mapChallengeDoc(docData.id, docData.data());
+        if (hasMissingScriptures(foundChallenge)) {
+          setError(MISSING_PASSAGES_ERROR);
+          setIsLoading(false);
+          return null;
+        }
 
         setIsLoading(false);
         return foundChallenge;
@@ -455,6 +506,7 @@ export function useChallenge(challengeId?: string) {
 
       return `I challenge you to Scripture Mastery Pro!\n\n` +
         `Difficulty: ${difficultyLabel}\n` +
+        `Scriptures: ${getCollectionsLabel(challengeToShare.collections)}\n` +
         `Questions: ${challengeToShare.questionCount}\n\n` +
         `Enter code: ${challengeToShare.challengeCode}\n\n` +
         `Or tap this link:\n${getChallengeDeepLink(challengeToShare.challengeCode)}`;
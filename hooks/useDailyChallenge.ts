@@ -1,16 +1,30 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, updateDoc, FieldPath } from 'firebase/firestore';
+
+import { db } from '@/config/firebase';
+import { useAuth } from '@/contexts/AuthContext';
 import {
   DailyChallengeStats,
   DailyChallengeResult,
   DailyChallengeBadge,
   Scripture,
 } from '@/types/scripture';
-import { getDailyScripture, getTodayDateString } from '@/utils/scriptureUtils';
+import { getDailyScriptureForDate } from '@/utils/scriptureUtils';
+import { getTodayDateString, isDayBefore } from '@/utils/dateUtils';
+import {
+  applyStreakFreezes,
+  mergeDailyHistory,
+  mergeDailyStats,
+  migrateToLocalDates,
+} from '@/utils/dailyUtils';
 import { BADGE_DEFINITIONS, BadgeId } from '@/constants/Badges';
+import { STREAK_FREEZE_EARN_DAYS, STREAK_FREEZE_MAX } from '@/constants/Daily';
 
 const DAILY_CHALLENGE_STATS_KEY = '@scripture_mastery_daily_stats';
 const DAILY_CHALLENGE_HISTORY_KEY = '@scripture_mastery_daily_history';
+// Set once history has been re-keyed from UTC dates to local ones
+const DAILY_LOCAL_DATES_KEY = '@scripture_mastery_daily_local_dates';
 
 const defaultStats: DailyChallengeStats = {
   currentStreak: 0,
@@ -19,31 +33,40 @@ const defaultStats: DailyChallengeStats = {
   totalCorrect: 0,
   lastCompletedDate: null,
   badges: [],
+  streakFreezes: 0,
 };
 
 function isYesterday(dateString: string | null): boolean {
-  if (!dateString) return false;
-  const yesterday = new Date();
-  yesterday.setDate(yesterday.getDate() - 1);
-  return dateString === yesterday.toISOString().split('T')[0];
+  return isDayBefore(dateString, getTodayDateString());
 }
 
-function isToday(dateString: string | null): boolean {
-  if (!dateString) return false;
-  return dateString === getTodayDateString();
+// Dates become ISO strings in Firestore just as they do in AsyncStorage, so both read back the same
+function toFirestoreValue<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
 }
 
+/**
+ * Daily challenge streak, totals, badges and day-by-day history. Kept in AsyncStorage,
+ * and mirrored to the player's Firestore profile once they have one. Loading merges the
+ * two, so days played on another device or while offline end up on both.
+ */
 export function useDailyChallenge() {
+  const { user, userProfile } = useAuth();
+  const hasProfile = !!user && !!userProfile;
   const [stats, setStats] = useState<DailyChallengeStats>(defaultStats);
   const [todayCompleted, setTodayCompleted] = useState(false);
   const [todayResult, setTodayResult] = useState<DailyChallengeResult | null>(null);
+  const [history, setHistory] = useState<Record<string, DailyChallengeResult>>({});
   const [isLoading, setIsLoading] = useState(true);
 
   // Guard against concurrent completions (rapid taps)
   const isCompletingRef = useRef(false);
 
-  const dailyScripture: Scripture = getDailyScripture();
   const todayDateString = getTodayDateString();
+  const dailyScripture: Scripture = useMemo(
+    () => getDailyScriptureForDate(todayDateString),
+    [todayDateString]
+  );
 
   const getHistory = useCallback(async (): Promise<Record<string, DailyChallengeResult>> => {
     try {
@@ -60,22 +83,86 @@ export function useDailyChallenge() {
       setIsLoading(true);
     }
     try {
-      const storedStats = await AsyncStorage.getItem(DAILY_CHALLENGE_STATS_KEY);
-      const storedHistory = await AsyncStorage.getItem(DAILY_CHALLENGE_HISTORY_KEY);
+      let storedStats = await AsyncStorage.getItem(DAILY_CHALLENGE_STATS_KEY);
+      let storedHistory = await AsyncStorage.getItem(DAILY_CHALLENGE_HISTORY_KEY);
+
+      const usesLocalDates = await AsyncStorage.getItem(DAILY_LOCAL_DATES_KEY);
+      if (!usesLocalDates) {
+        const migrated = migrateToLocalDates(
+          storedHistory ? JSON.parse(storedHistory) : {},
+          storedStats ? JSON.parse(storedStats) : null
+        );
+        storedHistory = JSON.stringify(migrated.history);
+        storedStats = migrated.stats ? JSON.stringify(migrated.stats) : null;
+        await AsyncStorage.multiSet([
+          [DAILY_CHALLENGE_HISTORY_KEY, storedHistory],
+          ...(storedStats ? [[DAILY_CHALLENGE_STATS_KEY, storedStats] as [string, string]] : []),
+          [DAILY_LOCAL_DATES_KEY, 'true'],
+        ]);
+      }
+
+      // Bring in days played on other devices, and send up any played here while offline
+      if (user && hasProfile) {
+        try {
+          const userRef = doc(db, 'users', user.uid);
+          const remote = (await getDoc(userRef)).data();
+          const remoteHistory: Record<string, DailyChallengeResult> = remote?.dailyHistory ?? {};
+          const localHistory: Record<string, DailyChallengeResult> = storedHistory ? JSON.parse(storedHistory) : {};
+
+          const history = mergeDailyHistory(localHistory, remoteHistory);
+          const merged = mergeDailyStats(
+            storedStats ? JSON.parse(storedStats) : defaultStats,
+            remote?.dailyStats ?? defaultStats,
+            history
+          );
+
+          storedHistory = JSON.stringify(history);
+          storedStats = JSON.stringify(merged);
+          await AsyncStorage.multiSet([
+            [DAILY_CHALLENGE_HISTORY_KEY, storedHistory],
+            [DAILY_CHALLENGE_STATS_KEY, storedStats],
+          ]);
+
+          const hasUnsyncedDays = Object.keys(localHistory).some((date) => !remoteHistory[date]);
+          if (hasUnsyncedDays || !remote?.dailyStats) {
+            await updateDoc(userRef, {
+              dailyHistory: toFirestoreValue(history),
+              dailyStats: toFirestoreValue(merged),
+            });
+          }
+        } catch (error) {
+          console.error('Error syncing daily challenge with Firestore:', error);
+        }
+      }
 
       let loadedStats = defaultStats;
       if (storedStats) {
         loadedStats = JSON.parse(storedStats);
 
-        // Check if streak should be reset (missed a day)
-        if (loadedStats.lastCompletedDate &&
-            !isToday(loadedStats.lastCompletedDate) &&
-            !isYesterday(loadedStats.lastCompletedDate)) {
-          loadedStats = {
-            ...loadedStats,
-            currentStreak: 0,
-          };
-          await AsyncStorage.setItem(DAILY_CHALLENGE_STATS_KEY, JSON.stringify(loadedStats));
+        // Missed days use up banked freezes if there are enough, otherwise the streak resets
+        const history: Record<string, DailyChallengeResult> = storedHistory ? JSON.parse(storedHistory) : {};
+        const repaired = applyStreakFreezes(loadedStats, history, todayDateString);
+        if (repaired.stats !== loadedStats) {
+          loadedStats = repaired.stats;
+          storedHistory = JSON.stringify(repaired.history);
+          await AsyncStorage.multiSet([
+            [DAILY_CHALLENGE_STATS_KEY, JSON.stringify(loadedStats)],
+            [DAILY_CHALLENGE_HISTORY_KEY, storedHistory],
+          ]);
+
+          const frozenDays = Object.values(repaired.history).filter((result) => !history[result.date]);
+          if (user && hasProfile && frozenDays.length > 0) {
+            try {
+              await updateDoc(doc(db, 'users', user.uid), {
+                dailyStats: toFirestoreValue(loadedStats),
+                ...Object.fromEntries(
+                  frozenDays.map((result) => [`dailyHistory.${result.date}`, toFirestoreValue(result)])
+                ),
+              });
+            } catch (error) {
+              console.error('Error saving streak freezes to Firestore:', error);
+            }
+          }
         }
 
         setStats(loadedStats);
@@ -83,6 +170,7 @@ export function useDailyChallenge() {
 
       if (storedHistory) {
         const history: Record<string, DailyChallengeResult> = JSON.parse(storedHistory);
+        setHistory(history);
         const todayEntry = history[todayDateString];
         if (todayEntry) {
           setTodayCompleted(true);
@@ -94,7 +182,7 @@ export function useDailyChallenge() {
     } finally {
       setIsLoading(false);
     }
-  }, [todayDateString]);
+  }, [todayDateString, user, hasProfile]);
 
   useEffect(() => {
     loadStats(true); // Initial load - show loading state
@@ -135,7 +223,7 @@ export function useDailyChallenge() {
   );
 
   const completeDailyChallenge = useCallback(
-    async (correct: boolean): Promise<DailyChallengeBadge[]> => {
+    async (correct: boolean, guess?: string): Promise<DailyChallengeBadge[]> => {
       // Prevent concurrent completions from rapid taps
       if (todayCompleted || isCompletingRef.current) {
         return [];
@@ -148,6 +236,8 @@ export function useDailyChallenge() {
         completed: true,
         correct,
         timestamp: new Date(),
+        scriptureId: dailyScripture.id,
+        ...(guess !== undefined && { guess }),
       };
 
       // Calculate new streak
@@ -163,6 +253,11 @@ export function useDailyChallenge() {
         totalCorrect: correct ? stats.totalCorrect + 1 : stats.totalCorrect,
         lastCompletedDate: todayDateString,
         badges: stats.badges,
+        // Every week of streak banks a freeze for a missed day
+        streakFreezes: Math.min(
+          (stats.streakFreezes ?? 0) + (newStreak % STREAK_FREEZE_EARN_DAYS === 0 ? 1 : 0),
+          STREAK_FREEZE_MAX
+        ),
       };
 
       // Check for new badges
@@ -182,9 +277,24 @@ export function useDailyChallenge() {
 
         // Only update state after successful persistence
         setStats(newStats);
+        setHistory(history);
         setTodayCompleted(true);
         setTodayResult(newResult);
 
+        // Mirror to the profile without holding up the result. If the write doesn't
+        // reach Firestore (e.g. offline), the next load reconciles it.
+        if (user && hasProfile) {
+          updateDoc(
+            doc(db, 'users', user.uid),
+            new FieldPath('dailyHistory', todayDateString),
+            toFirestoreValue(newResult),
+            'dailyStats',
+            toFirestoreValue(newStats)
+          ).catch((error) => {
+            console.error('Error saving daily challenge to Firestore:', error);
+          });
+        }
+
         return newBadges;
       } catch (error) {
         console.error('Error saving daily challenge:', error);
@@ -193,7 +303,7 @@ export function useDailyChallenge() {
         isCompletingRef.current = false;
       }
     },
-    [stats, todayDateString, todayCompleted, checkForNewBadges, getHistory]
+    [stats, todayDateString, todayCompleted, checkForNewBadges, getHistory, user, hasProfile, dailyScripture.id]
   );
 
   return {
@@ -201,6 +311,7 @@ export function useDailyChallenge() {
     stats,
     todayCompleted,
     todayResult,
+    history,
     isLoading,
     completeDailyChallenge,
     refreshStats: loadStats,
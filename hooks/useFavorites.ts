@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { Scripture } from '@/types/scripture';
+
+const FAVORITES_KEY = '@scripture_mastery_favorites';
+
+/**
+ * Passages the player has saved to come back to, stored as scripture ids
+ * in the order they were added
+ */
+export function useFavorites() {
+  const [favoriteIds, setFavoriteIds] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const getStoredFavorites = useCallback(async (): Promise<string[]> => {
+    try {
+      const stored = await AsyncStorage.getItem(FAVORITES_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }, []);
+
+  const loadFavorites = useCallback(async () => {
+    setFavoriteIds(await getStoredFavorites());
+    setIsLoading(false);
+  }, [getStoredFavorites]);
+
+  useEffect(() => {
+    loadFavorites();
+  }, [loadFavorites]);
+
+  const saveFavorites = useCallback(async (ids: string[]) => {
+    setFavoriteIds(ids);
+    try {
+      await AsyncStorage.setItem(FAVORITES_KEY, JSON.stringify(ids));
+    } catch (error) {
+      console.error('Error saving favorites:', error);
+    }
+  }, []);
+
+  const isFavorite = useCallback(
+    (scripture: Scripture): boolean => favoriteIds.includes(scripture.id),
+    [favoriteIds]
+  );
+
+  /**
+   * Add passages to the favorites, skipping any already there
+   */
+  const addFavorites = useCallback(
+    async (scriptures: Scripture[]) => {
+      const stored = await getStoredFavorites();
+      const added = scriptures.map((scripture) => scripture.id).filter((id) => !stored.includes(id));
+      await saveFavorites([...stored, ...new Set(added)]);
+    },
+    [getStoredFavorites, saveFavorites]
+  );
+
+  const removeFavorite = useCallback(
+    async (scripture: Scripture) => {
+      const stored = await getStoredFavorites();
+      await saveFavorites(stored.filter((id) => id !== scripture.id));
+    },
+    [getStoredFavorites, saveFavorites]
+  );
+
+  return {
+    favoriteIds,
+    isLoading,
+    isFavorite,
+    addFavorites,
+    removeFavorite,
+    refreshFavorites: loadFavorites,
+  };
+}
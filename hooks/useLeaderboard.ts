@@ -14,7 +14,7 @@ import {
   Unsubscribe,
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
-import { LeaderboardEntry, GameMode } from '@/types/scripture';
+import { LeaderboardBoard, LeaderboardEntry, LeaderboardMetric } from '@/types/scripture';
 import { useAuth } from '@/contexts/AuthContext';
 
 const LEADERBOARD_LIMIT = 100;
@@ -27,13 +27,15 @@ function mapLeaderboardDoc(doc: any): LeaderboardEntry {
     documentId: data.documentId,
     nickname: data.nickname,
     difficulty: data.difficulty,
-    score: data.score,
+    score: data.score ?? 0,
+    points: data.points,
+    survival: data.survival,
     timestamp: data.timestamp?.toDate() || new Date(),
     photoURL: data.photoURL || null,
   };
 }
 
-export function useLeaderboard(difficulty: GameMode) {
+export function useLeaderboard(difficulty: LeaderboardBoard, metric: LeaderboardMetric = 'score') {
   const [entries, setEntries] = useState<LeaderboardEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -63,7 +65,7 @@ export function useLeaderboard(difficulty: GameMode) {
     const q = query(
       leaderboardRef,
       where('difficulty', '==', difficulty),
-      orderBy('score', 'desc'),
+      orderBy(metric, 'desc'),
       orderBy('timestamp', 'asc'),
       limit(LEADERBOARD_LIMIT)
     );
@@ -90,12 +92,17 @@ export function useLeaderboard(difficulty: GameMode) {
     );
 
     return () => unsubscribe();
-  }, [difficulty, user, userProfile?.hasJoinedLeaderboard]);
+  }, [difficulty, metric, user, userProfile?.hasJoinedLeaderboard]);
 
-  // Submit score to leaderboard (only keeps highest score per user per difficulty)
+  // Submit score to leaderboard (only keeps highest score and points per user per difficulty)
   // photoURL can be passed directly to avoid React state timing issues
   const submitScore = useCallback(
-    async (score: number, nickname: string, photoURLOverride?: string | null): Promise<boolean> => {
+    async (
+      score: number,
+      nickname: string,
+      photoURLOverride?: string | null,
+      points?: number
+    ): Promise<boolean> => {
       if (!user) {
         setError('Not authenticated');
         return false;
@@ -123,23 +130,28 @@ export function useLeaderboard(difficulty: GameMode) {
             nickname,
             difficulty,
             score,
+            points: points ?? 0,
             timestamp: serverTimestamp(),
             photoURL,
           });
         } else {
-          // Entry exists - only update if new score is higher
+          // Entry exists - only update if new score or points are higher
           const existingEntry = existingDocs.docs[0];
           const existingScore = existingEntry.data().score;
+          const existingPoints = existingEntry.data().points ?? 0;
+          const isHigherScore = score > existingScore;
+          const isHigherPoints = points !== undefined && points > existingPoints;
 
-          if (score > existingScore) {
+          if (isHigherScore || isHigherPoints) {
             await updateDoc(doc(db, 'leaderboard', existingEntry.id), {
-              score,
+              score: Math.max(score, existingScore),
+              points: Math.max(points ?? 0, existingPoints),
               nickname,
               timestamp: serverTimestamp(),
               photoURL,
             });
           }
-          // If score <= existing, silently skip (keep the higher score)
+          // Otherwise silently skip (keep the higher values)
         }
 
         return true;
@@ -152,6 +164,58 @@ export function useLeaderboard(difficulty: GameMode) {
     [user, difficulty, userProfile]
   );
 
+  // Submit a survival run to a survival board (only keeps the longest run per user per difficulty)
+  const submitSurvival = useCallback(
+    async (run: number, nickname: string, photoURLOverride?: string | null): Promise<boolean> => {
+      if (!user) {
+        setError('Not authenticated');
+        return false;
+      }
+
+      try {
+        const leaderboardRef = collection(db, 'leaderboard');
+
+        const existingQuery = query(
+          leaderboardRef,
+          where('documentId', '==', user.uid),
+          where('difficulty', '==', difficulty),
+          limit(1)
+        );
+        const existingDocs = await getDocs(existingQuery);
+
+        const photoURL = photoURLOverride !== undefined ? photoURLOverride : (userProfile?.photoURL || null);
+
+        if (existingDocs.empty) {
+          await addDoc(leaderboardRef, {
+            documentId: user.uid,
+            nickname,
+            difficulty,
+            survival: run,
+            timestamp: serverTimestamp(),
+            photoURL,
+          });
+        } else {
+          const existingEntry = existingDocs.docs[0];
+          if (run > (existingEntry.data().survival ?? 0)) {
+            await updateDoc(doc(db, 'leaderboard', existingEntry.id), {
+              survival: run,
+              nickname,
+              timestamp: serverTimestamp(),
+              photoURL,
+            });
+          }
+        }
+
+        return true;
+      } catch (err) {
+        console.error('Submit survival run error:', err);
+        setError('Failed to submit survival run');
+        return false;
+      }
+    },
+    [user, difficulty, userProfile]
+  );
+
   // Refresh leaderboard manually
   const refresh = useCallback(async () => {
     setIsLoading(true);
@@ -162,7 +226,7 @@ export function useLeaderboard(difficulty: GameMode) {
       const q = query(
         leaderboardRef,
         where('difficulty', '==', difficulty),
-        orderBy('score', 'desc'),
+        orderBy(metric, 'desc'),
         orderBy('timestamp', 'asc'),
         limit(LEADERBOARD_LIMIT)
       );
@@ -176,7 +240,7 @@ export function useLeaderboard(difficulty: GameMode) {
     } finally {
       setIsLoading(false);
     }
-  }, [difficulty]);
+  }, [difficulty, metric]);
 
   return {
     entries,
@@ -184,6 +248,7 @@ export function useLeaderboard(difficulty: GameMode) {
     error,
     userRank,
     submitScore,
+    submitSurvival,
     refresh,
   };
 }
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { MemorizeProgress, Scripture } from '@/types/scripture';
+import { getTodayDateString } from '@/utils/dateUtils';
+import { migrateReferenceKeys } from '@/utils/scriptureUtils';
+
+const MEMORIZE_PROGRESS_KEY = '@scripture_mastery_memorize_progress';
+
+export function useMemorizeProgress() {
+  const [progress, setProgress] = useState<Record<string, MemorizeProgress>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const getStoredProgress = useCallback(async (): Promise<Record<string, MemorizeProgress>> => {
+    try {
+      const stored = await AsyncStorage.getItem(MEMORIZE_PROGRESS_KEY);
+      // Progress saved before passages had ids is keyed by formatted reference
+      return stored ? migrateReferenceKeys(JSON.parse(stored)) : {};
+    } catch {
+      return {};
+    }
+  }, []);
+
+  useEffect(() => {
+    const loadProgress = async () => {
+      setProgress(await getStoredProgress());
+      setIsLoading(false);
+    };
+
+    loadProgress();
+  }, [getStoredProgress]);
+
+  const getRoundsCleared = useCallback(
+    (scripture: Scripture): number => progress[scripture.id]?.roundsCleared ?? 0,
+    [progress]
+  );
+
+  /**
+   * Record a run of cleared rounds, keeping the best run for the passage
+   */
+  const recordRoundsCleared = useCallback(
+    async (scripture: Scripture, roundsCleared: number) => {
+      const key = scripture.id;
+      const stored = await getStoredProgress();
+      const updated: Record<string, MemorizeProgress> = {
+        ...stored,
+        [key]: {
+          roundsCleared: Math.max(stored[key]?.roundsCleared ?? 0, roundsCleared),
+          lastPracticed: getTodayDateString(),
+        },
+      };
+      setProgress(updated);
+      try {
+        await AsyncStorage.setItem(MEMORIZE_PROGRESS_KEY, JSON.stringify(updated));
+      } catch (error) {
+        console.error('Error saving memorize progress:', error);
+      }
+    },
+    [getStoredProgress]
+  );
+
+  return {
+    progress,
+    isLoading,
+    getRoundsCleared,
+    recordRoundsCleared,
+  };
+}
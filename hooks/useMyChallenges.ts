@@ -9,17 +9,24 @@ import {
   Unsubscribe,
 } from 'firebase/firestore';
 import { db } from '@/config/firebase';
-import { Challenge } from '@/types/scripture';
+import { getScripturesByIds } from '@/data/scriptureData';
+import { Challenge, Scripture } from '@/types/scripture';
 import { useAuth } from '@/contexts/AuthContext';
+import { normalizeStoredScripture } from '@/utils/scriptureUtils';
 
 // Helper to map Firestore document to Challenge (same as useChallenge.ts)
 function mapChallengeDoc(docId: string, data: any): Challenge {
+  const scriptures: Scripture[] = data.scriptureIds
+    ? getScripturesByIds(data.scriptureIds)
+    : (data.scriptures ?? []).map(normalizeStoredScripture);
+
   return {
     id: docId,
     challengeCode: data.challengeCode,
     difficulty: data.difficulty,
     questionCount: data.questionCount,
-    scriptures: data.scriptures,
+    scriptureIds: data.scriptureIds ?? scriptures.map((scripture) => scripture.id),
+    scriptures,
     creatorId: data.creatorId,
     creatorNickname: data.creatorNickname,
     creatorPhotoURL: data.creatorPhotoURL,
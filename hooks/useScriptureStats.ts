@@ -0,0 +1,103 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { ANSWER_LOG_LIMIT } from '@/constants/Stats';
+import { AnswerRecord, GameMode, Scripture, ScriptureStats } from '@/types/scripture';
+import { migrateReferenceKeys } from '@/utils/scriptureUtils';
+import { applyAnswer, getWeakestScriptures as rankWeakest } from '@/utils/statsUtils';
+
+const SCRIPTURE_STATS_KEY = '@scripture_mastery_scripture_stats';
+const ANSWER_LOG_KEY = '@scripture_mastery_answer_log';
+
+/**
+ * How the player has done on each passage. Every graded answer is appended to a
+ * capped log and folded into per-passage totals, both kept in AsyncStorage.
+ */
+export function useScriptureStats() {
+  const [stats, setStats] = useState<Record<string, ScriptureStats>>({});
+  const [isLoading, setIsLoading] = useState(true);
+
+  const getStoredStats = useCallback(async (): Promise<Record<string, ScriptureStats>> => {
+    try {
+      const stored = await AsyncStorage.getItem(SCRIPTURE_STATS_KEY);
+      // Stats saved before passages had ids are keyed by formatted reference
+      return stored ? migrateReferenceKeys(JSON.parse(stored)) : {};
+    } catch {
+      return {};
+    }
+  }, []);
+
+  const getStoredLog = useCallback(async (): Promise<AnswerRecord[]> => {
+    try {
+      const stored = await AsyncStorage.getItem(ANSWER_LOG_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }, []);
+
+  const loadStats = useCallback(async () => {
+    setStats(await getStoredStats());
+    setIsLoading(false);
+  }, [getStoredStats]);
+
+  useEffect(() => {
+    loadStats();
+  }, [loadStats]);
+
+  /**
+   * Record a graded answer to a passage
+   */
+  const recordAnswer = useCallback(
+    async (scripture: Scripture, answer: Omit<AnswerRecord, 'scriptureId' | 'answeredAt'>) => {
+      const record: AnswerRecord = {
+        ...answer,
+        scriptureId: scripture.id,
+        answeredAt: new Date().toISOString(),
+      };
+
+      const [storedStats, storedLog] = await Promise.all([getStoredStats(), getStoredLog()]);
+      const updated = {
+        ...storedStats,
+        [scripture.id]: applyAnswer(storedStats[scripture.id], record),
+      };
+      setStats(updated);
+
+      try {
+        await Promise.all([
+          AsyncStorage.setItem(SCRIPTURE_STATS_KEY, JSON.stringify(updated)),
+          AsyncStorage.setItem(
+            ANSWER_LOG_KEY,
+            JSON.stringify([...storedLog, record].slice(-ANSWER_LOG_LIMIT))
+          ),
+        ]);
+      } catch (error) {
+        console.error('Error saving scripture stats:', error);
+      }
+    },
+    [getStoredStats, getStoredLog]
+  );
+
+  const getStats = useCallback(
+    (scripture: Scripture): ScriptureStats | undefined => stats[scripture.id],
+    [stats]
+  );
+
+  /**
+   * Passages in the pool the player misses most often
+   * @param mode - Rank by one difficulty, or by all answers when omitted
+   */
+  const getWeakestScriptures = useCallback(
+    (pool: Scripture[], mode?: GameMode): Scripture[] => rankWeakest(pool, stats, mode),
+    [stats]
+  );
+
+  return {
+    stats,
+    isLoading,
+    getStats,
+    getWeakestScriptures,
+    recordAnswer,
+    refreshStats: loadStats,
+  };
+}
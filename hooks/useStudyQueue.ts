@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { doc, getDoc, updateDoc, FieldPath } from 'firebase/firestore';
+
+import { db } from '@/config/firebase';
+import { useAuth } from '@/contexts/AuthContext';
+import { ReviewState, Scripture } from '@/types/scripture';
+import { getTodayDateString } from '@/utils/dateUtils';
+import { migrateReferenceKeys } from '@/utils/scriptureUtils';
+import {
+  getDueScriptures,
+  getNewScriptures,
+  getStudyQueue as buildStudyQueue,
+  mergeReviews,
+  scheduleReview,
+} from '@/utils/studyUtils';
+
+const STUDY_REVIEWS_KEY = '@scripture_mastery_study_reviews';
+
+/**
+ * Spaced-repetition schedule for every studied passage. Kept in AsyncStorage,
+ * and mirrored to the player's Firestore profile once they have one so the
+ * schedule follows them to other devices.
+ */
+export function useStudyQueue() {
+  const [reviews, setReviews] = useState<Record<string, ReviewState>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const { user, userProfile } = useAuth();
+  const hasProfile = !!user && !!userProfile;
+
+  const getStoredReviews = useCallback(async (): Promise<Record<string, ReviewState>> => {
+    try {
+      const stored = await AsyncStorage.getItem(STUDY_REVIEWS_KEY);
+      // Reviews saved before passages had ids are keyed by formatted reference
+      return stored ? migrateReferenceKeys(JSON.parse(stored)) : {};
+    } catch {
+      return {};
+    }
+  }, []);
+
+  const loadReviews = useCallback(async () => {
+    let loaded = await getStoredReviews();
+
+    // Pick up reviews made on other devices
+    if (user && hasProfile) {
+      try {
+        const userSnap = await getDoc(doc(db, 'users', user.uid));
+        const remote = userSnap.data()?.studyReviews;
+        if (remote) {
+          loaded = mergeReviews(loaded, migrateReferenceKeys(remote));
+          await AsyncStorage.setItem(STUDY_REVIEWS_KEY, JSON.stringify(loaded));
+        }
+      } catch (error) {
+        console.error('Error loading study reviews from Firestore:', error);
+      }
+    }
+
+    setReviews(loaded);
+    setIsLoading(false);
+  }, [getStoredReviews, user, hasProfile]);
+
+  useEffect(() => {
+    loadReviews();
+  }, [loadReviews]);
+
+  /**
+   * Reschedule a passage after its full reference has been typed, in a study session or any other hard game
+   * @param quality - Recall quality from 0 (forgotten) to 5 (perfect)
+   */
+  const recordReview = useCallback(
+    async (scripture: Scripture, quality: number) => {
+      const key = scripture.id;
+      const stored = await getStoredReviews();
+      const review = scheduleReview(stored[key], quality, getTodayDateString());
+      const updated = { ...stored, [key]: review };
+      setReviews(updated);
+
+      try {
+        await AsyncStorage.setItem(STUDY_REVIEWS_KEY, JSON.stringify(updated));
+      } catch (error) {
+        console.error('Error saving study reviews:', error);
+      }
+
+      if (user && hasProfile) {
+        try {
+          await updateDoc(doc(db, 'users', user.uid), new FieldPath('studyReviews', key), review);
+        } catch (error) {
+          console.error('Error saving study review to Firestore:', error);
+        }
+      }
+    },
+    [getStoredReviews, user, hasProfile]
+  );
+
+  /**
+   * Passages for a study session drawn from the given pool
+   */
+  const getStudyQueue = useCallback(
+    (pool: Scripture[]): Scripture[] => buildStudyQueue(pool, reviews, getTodayDateString()),
+    [reviews]
+  );
+
+  /**
+   * How many passages in the pool are due for review today
+   */
+  const getDueCount = useCallback(
+    (pool: Scripture[]): number => getDueScriptures(pool, reviews, getTodayDateString()).length,
+    [reviews]
+  );
+
+  /**
+   * How many passages in the pool haven't been studied yet
+   */
+  const getNewCount = useCallback(
+    (pool: Scripture[]): number => getNewScriptures(pool, reviews).length,
+    [reviews]
+  );
+
+  return {
+    reviews,
+    isLoading,
+    getStudyQueue,
+    getDueCount,
+    getNewCount,
+    recordReview,
+    refreshReviews: loadReviews,
+  };
+}
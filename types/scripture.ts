@@ -1,16 +1,133 @@
+// An inclusive run of verses; `end` is omitted for a single verse
+export interface VerseRange {
+  start: number;
+  end?: number;
+}
+
 export interface ScriptureReference {
   book: string;
   chapter: number;
-  verse: number | string;
+  verses: VerseRange[];  // Usually one range; several for passages like D&C 18:10, 15-16
 }
 
 export interface Scripture {
+  id: string;                // Stable slug derived from the reference, e.g. "2-nephi-9-28-29"
   text: string;
   reference: ScriptureReference;
+  context?: SurroundingVerse; // Verse next to the passage, for the surrounding-verse hint
 }
 
+// A verse just before or after a passage
+export interface SurroundingVerse {
+  position: 'before' | 'after';
+  text: string;
+}
+
+// A passage as written in the data files; ids are added when the collections are loaded
+export type ScriptureEntry = Omit<Scripture, 'id'>;
+
 export type GameMode = 'easy' | 'medium' | 'hard';
 
+// Where a game's high score and leaderboard entry go: one per difficulty,
+// plus timed speed rounds
+export type ScoreCategory = GameMode | 'speed';
+
+// Questions in a regular session; 'all' plays every scripture in the selected collections
+export type SessionLength = 3 | 5 | 10 | 25 | 'all';
+
+// Key for one high score and leaderboard board: the score category, suffixed with the
+// session length unless it's the original 3 questions, so older scores keep their keys
+export type ScoreBoard = ScoreCategory | `${ScoreCategory}-${Exclude<SessionLength, 3>}`;
+
+// Leaderboard key for a difficulty's survival runs, kept apart from the score boards
+// so a player's run never shows up there as a zero-score entry
+export type SurvivalBoard = `${GameMode}-survival`;
+
+// Any leaderboard: a score board or a survival board
+export type LeaderboardBoard = ScoreBoard | SurvivalBoard;
+
+// How the player enters a reference: free text or the tap-through picker
+export type AnswerInputMethod = 'type' | 'picker';
+
+// What a game asks for: the reference of a passage, or the passage itself
+// (typed from memory, filled in, or unscrambled)
+export type GameVariant = 'reference' | 'reverse' | 'cloze' | 'scramble';
+
+// Graded outcome of a single guess, used for partial credit
+export interface GuessResult {
+  isCorrect: boolean;             // Everything the mode asks for is right
+  bookCorrect: boolean;
+  chapterCorrect: boolean;
+  verseCorrect: boolean;
+  chapterDistance: number | null; // Chapters between guess and passage (null if wrong book or no chapter)
+  points: number;
+  maxPoints: number;
+}
+
+// One word of a passage/answer comparison
+export interface WordDiffPart {
+  word: string;
+  status: 'matched' | 'missed' | 'extra'; // extra = typed but not in the passage
+}
+
+// Graded outcome of typing a passage from memory
+export interface RecallResult {
+  isCorrect: boolean;
+  matchedWords: number;  // Passage words typed in order
+  totalWords: number;    // Words in the passage
+  similarity: number;    // 0-1 word-level similarity (Dice coefficient)
+  points: number;
+  maxPoints: number;
+  diff: WordDiffPart[];
+}
+
+// A passage with some words blanked out for fill-in-the-blank
+export interface ClozePassage {
+  tokens: string[];  // Passage split into words (with their punctuation) and dashes
+  blanks: number[];  // Indices into `tokens`, ascending
+}
+
+export interface ClozeAnswer {
+  index: number;     // Token index of the blank
+  expected: string;  // The word without punctuation
+  given: string;
+  correct: boolean;
+}
+
+// Graded outcome of filling in a cloze passage
+export interface ClozeResult {
+  isCorrect: boolean;
+  correctBlanks: number;
+  totalBlanks: number;
+  answers: ClozeAnswer[];
+  points: number;
+  maxPoints: number;
+}
+
+// One part of a word scramble, usually a sentence
+export interface ScrambleChunk {
+  pieces: string[];   // Tiles in passage order: single words or short phrases
+  shuffled: number[]; // Indices into `pieces` in the order the tiles are shown
+}
+
+export interface ScramblePuzzle {
+  chunks: ScrambleChunk[];
+}
+
+// Graded outcome of rebuilding a scrambled passage
+export interface ScrambleResult {
+  isCorrect: boolean;
+  mistakes: number;     // Tiles tapped out of order
+  totalPieces: number;
+  seconds: number;
+  points: number;
+  maxPoints: number;
+}
+
+// Standard works: Old Testament, New Testament, Book of Mormon,
+// Doctrine and Covenants, Pearl of Great Price
+export type ScriptureCollection = 'OT' | 'NT' | 'BOM' | 'DC' | 'PGP';
+
 export type AuthProvider = 'anonymous' | 'google' | 'apple';
 
 export interface GameStats {
@@ -28,22 +145,26 @@ export interface LeaderboardEntry {
   id: string;
   documentId: string;
   nickname: string;
-  difficulty: GameMode;
-  score: number;
+  difficulty: LeaderboardBoard;
+  score: number;                   // 0 on survival boards
+  points?: number;                 // Best partial-credit points total (absent on older entries)
+  survival?: number;               // Longest survival run, on survival boards
   timestamp: Date;
   photoURL?: string | null;
 }
 
+// Which value the leaderboard ranks by: whole correct answers, partial-credit points,
+// or the longest survival run
+export type LeaderboardMetric = 'score' | 'points' | 'survival';
+
 export interface UserProfile {
   documentId: string;
   nickname: string | null;
   createdAt: Date;
   lastPlayed: Date;
-  highScores: {
-    easy: number;
-    medium: number;
-    hard: number;
-  };
+  highScores: HighScores;
+  highPoints?: HighScores;
+  bestRuns?: BestRuns;
   hasJoinedLeaderboard: boolean;
   authProvider: AuthProvider;
   email?: string | null;
@@ -51,11 +172,11 @@ export interface UserProfile {
   photoURL?: string | null;
 }
 
-export interface HighScores {
-  easy: number;
-  medium: number;
-  hard: number;
-}
+// Best scores for the default session length, plus any other lengths played
+export type HighScores = Record<ScoreCategory, number> & Partial<Record<ScoreBoard, number>>;
+
+// Longest survival run (correct answers before running out of lives) per difficulty
+export type BestRuns = Record<GameMode, number>;
 
 // Daily Challenge types
 export interface DailyChallengeResult {
@@ -63,6 +184,11 @@ export interface DailyChallengeResult {
   completed: boolean;
   correct: boolean;
   timestamp: Date;
+  // A missed day covered by a streak freeze rather than played
+  frozen?: boolean;
+  // The day's passage and what was answered; absent on entries saved before they were recorded
+  scriptureId?: string;
+  guess?: string;
 }
 
 export interface DailyChallengeStats {
@@ -72,6 +198,8 @@ export interface DailyChallengeStats {
   totalCorrect: number;
   lastCompletedDate: string | null;
   badges: DailyChallengeBadge[];
+  // Banked freezes that cover missed days; absent in stats saved before freezes existed
+  streakFreezes?: number;
 }
 
 export interface DailyChallengeBadge {
@@ -82,6 +210,50 @@ export interface DailyChallengeBadge {
   icon: string;
 }
 
+// First-letter memorization progress for one passage
+export interface MemorizeProgress {
+  roundsCleared: number;   // Best run of consecutive rounds cleared
+  lastPracticed: string;   // YYYY-MM-DD
+}
+
+// Spaced-repetition schedule for one passage (SM-2)
+export interface ReviewState {
+  ease: number;            // Interval multiplier, lowered by hard recalls
+  interval: number;        // Days until the next review
+  repetitions: number;     // Successful reviews in a row
+  dueDate: string;         // YYYY-MM-DD
+  lastReviewed: string;    // YYYY-MM-DD
+}
+
+// Help a player can ask for on a reference question, each costing some of its points
+export type HintKind = 'volume' | 'bookLetter' | 'chapter' | 'context';
+
+// One question from the session just played, for the end-of-session review
+export interface SessionAnswer {
+  scripture: Scripture;
+  guess: string;
+  correct: boolean;
+}
+
+// One graded answer, kept in the answer log
+export interface AnswerRecord {
+  scriptureId: string;
+  mode: GameMode;
+  variant: GameVariant;
+  correct: boolean;
+  guess: string;           // What was typed or picked (blanks joined for cloze, empty for scramble)
+  timeMs: number;          // From the question appearing to the answer being graded
+  hints?: HintKind[];      // Hints taken before answering (absent when none)
+  answeredAt: string;      // ISO timestamp
+}
+
+// How a player has done on one passage, per difficulty
+export interface ScriptureStats {
+  attempts: number;
+  byMode: Partial<Record<GameMode, GameStats>>;
+  lastSeen: string;        // ISO timestamp of the latest answer
+}
+
 // Multiplayer Challenge types
 export type QuestionCount = 3 | 5 | 10;
 
@@ -92,7 +264,11 @@ export interface Challenge {
   challengeCode: string;           // 6-char code for sharing
   difficulty: GameMode;
   questionCount: QuestionCount;
-  scriptures: Scripture[];         // Pre-selected scriptures for both players
+  scriptureIds: string[];          // Pre-selected scriptures for both players, as stored in Firestore
+  scriptures: Scripture[];         // Looked up from scriptureIds (older challenges stored whole passages)
+  collections?: ScriptureCollection[]; // Collections the scriptures were drawn from (all when absent)
+  multipleChoice?: boolean;        // Answer by picking one of four options seeded from the code
+  variant?: GameVariant;           // What each question asks for ('reference' when absent)
 
   // Creator info
   creatorId: string;
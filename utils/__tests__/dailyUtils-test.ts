@@ -0,0 +1,329 @@
+import { DailyChallengeBadge, DailyChallengeResult, DailyChallengeStats } from '@/types/scripture';
+import { STREAK_FREEZE_EARN_DAYS, STREAK_FREEZE_MAX } from '@/constants/Daily';
+import {
+  applyStreakFreezes,
+  getStreakFreezes,
+  mergeDailyHistory,
+  mergeDailyStats,
+  migrateToLocalDates,
+} from '../dailyUtils';
+import { addDays, getLocalDateString } from '../dateUtils';
+
+const entry = (date: string, timestamp: string, correct = true): DailyChallengeResult => ({
+  date,
+  completed: true,
+  correct,
+  timestamp: new Date(timestamp),
+});
+
+const frozen = (date: string): DailyChallengeResult => ({
+  date,
+  completed: false,
+  correct: false,
+  frozen: true,
+  timestamp: new Date(`${date}T12:00:00Z`),
+});
+
+// One entry per day, played at noon UTC
+const days = (...dates: string[]): Record<string, DailyChallengeResult> =>
+  Object.fromEntries(dates.map((date) => [date, entry(date, `${date}T12:00:00Z`)]));
+
+const badge = (id: string): DailyChallengeBadge => ({
+  id,
+  name: id,
+  description: id,
+  earnedAt: new Date('2026-10-01T12:00:00Z'),
+  icon: 'star',
+});
+
+const emptyStats: DailyChallengeStats = {
+  currentStreak: 0,
+  longestStreak: 0,
+  totalCompleted: 0,
+  totalCorrect: 0,
+  lastCompletedDate: null,
+  badges: [],
+  streakFreezes: 0,
+};
+
+const stats = (lastCompletedDate: string | null): DailyChallengeStats => ({
+  currentStreak: 1,
+  longestStreak: 1,
+  totalCompleted: 1,
+  totalCorrect: 1,
+  lastCompletedDate,
+  badges: [],
+});
+
+describe('migrateToLocalDates', () => {
+  it('moves an evening completion back to the local day it was played', () => {
+    // 8pm in Denver on October 18 is already October 19 in UTC
+    const history = { '2026-10-19': entry('2026-10-19', '2026-10-19T02:00:00Z') };
+
+    const migrated = migrateToLocalDates(history, stats('2026-10-19'), 'America/Denver');
+
+    expect(Object.keys(migrated.history)).toEqual(['2026-10-18']);
+    expect(migrated.history['2026-10-18'].date).toBe('2026-10-18');
+    expect(migrated.stats?.lastCompletedDate).toBe('2026-10-18');
+  });
+
+  it('leaves daytime completions on the same day', () => {
+    const history = { '2026-10-18': entry('2026-10-18', '2026-10-18T18:00:00Z') };
+
+    const migrated = migrateToLocalDates(history, stats('2026-10-18'), 'America/Denver');
+
+    expect(migrated.history).toEqual(history);
+    expect(migrated.stats?.lastCompletedDate).toBe('2026-10-18');
+  });
+
+  it('keeps the first challenge when two UTC days fall on one local day', () => {
+    const history = {
+      '2026-10-18': entry('2026-10-18', '2026-10-18T15:00:00Z', true),
+      '2026-10-19': entry('2026-10-19', '2026-10-19T03:00:00Z', false),
+    };
+
+    const migrated = migrateToLocalDates(history, stats('2026-10-19'), 'America/Denver');
+
+    expect(Object.keys(migrated.history)).toEqual(['2026-10-18']);
+    expect(migrated.history['2026-10-18'].correct).toBe(true);
+    expect(migrated.stats?.lastCompletedDate).toBe('2026-10-18');
+  });
+
+  it('leaves entries without a usable timestamp where they were', () => {
+    const history = { '2026-10-19': entry('2026-10-19', 'not a date') };
+
+    const migrated = migrateToLocalDates(history, stats('2026-10-19'), 'America/Denver');
+
+    expect(Object.keys(migrated.history)).toEqual(['2026-10-19']);
+    expect(migrated.stats?.lastCompletedDate).toBe('2026-10-19');
+  });
+
+  it('reads timestamps stored as ISO strings', () => {
+    const stored = JSON.parse(
+      JSON.stringify({ '2026-10-19': entry('2026-10-19', '2026-10-19T02:00:00Z') })
+    );
+
+    const migrated = migrateToLocalDates(stored, null, 'America/Denver');
+
+    expect(Object.keys(migrated.history)).toEqual(['2026-10-18']);
+    expect(migrated.stats).toBeNull();
+  });
+
+  it('changes nothing when run again on migrated history', () => {
+    const history = { '2026-10-19': entry('2026-10-19', '2026-10-19T02:00:00Z') };
+    const once = migrateToLocalDates(history, stats('2026-10-19'), 'America/Denver');
+
+    const twice = migrateToLocalDates(once.history, once.stats, 'America/Denver');
+
+    expect(twice).toEqual(once);
+  });
+});
+
+describe('mergeDailyHistory', () => {
+  it('keeps days played on either device', () => {
+    const merged = mergeDailyHistory(days('2026-10-10', '2026-10-11'), days('2026-10-12'));
+
+    expect(Object.keys(merged).sort()).toEqual(['2026-10-10', '2026-10-11', '2026-10-12']);
+  });
+
+  it('keeps the first completion of a day played on both devices', () => {
+    const morning = { '2026-10-12': entry('2026-10-12', '2026-10-12T09:00:00Z', false) };
+    const evening = { '2026-10-12': entry('2026-10-12', '2026-10-12T21:00:00Z', true) };
+
+    expect(mergeDailyHistory(evening, morning)).toEqual(morning);
+    expect(mergeDailyHistory(morning, evening)).toEqual(morning);
+  });
+
+  it('replaces a freeze with the day played on the other device', () => {
+    const played = { '2026-10-12': entry('2026-10-12', '2026-10-12T21:00:00Z') };
+    const skipped = { '2026-10-12': frozen('2026-10-12') };
+
+    expect(mergeDailyHistory(skipped, played)).toEqual(played);
+    expect(mergeDailyHistory(played, skipped)).toEqual(played);
+  });
+
+  it('compares timestamps stored as ISO strings', () => {
+    const local = { '2026-10-12': entry('2026-10-12', '2026-10-12T21:00:00Z') };
+    const remote = JSON.parse(
+      JSON.stringify({ '2026-10-12': entry('2026-10-12', '2026-10-12T09:00:00Z', false) })
+    );
+
+    const merged = mergeDailyHistory(local, remote);
+
+    expect(merged['2026-10-12'].correct).toBe(false);
+  });
+});
+
+describe('mergeDailyStats', () => {
+  it('recomputes streaks and totals from the merged history', () => {
+    const history = mergeDailyHistory(days('2026-10-01', '2026-10-02', '2026-10-10', '2026-10-11'), {
+      ...days('2026-10-12', '2026-10-13'),
+      '2026-10-14': entry('2026-10-14', '2026-10-14T12:00:00Z', false),
+    });
+    const local = { ...emptyStats, currentStreak: 2, longestStreak: 2, totalCompleted: 4, totalCorrect: 4 };
+    const remote = { ...emptyStats, currentStreak: 3, longestStreak: 3, totalCompleted: 3, totalCorrect: 2 };
+
+    const merged = mergeDailyStats(local, remote, history);
+
+    expect(merged).toMatchObject({
+      currentStreak: 5,
+      longestStreak: 5,
+      totalCompleted: 7,
+      totalCorrect: 6,
+      lastCompletedDate: '2026-10-14',
+    });
+  });
+
+  it('counts a day played on both devices once', () => {
+    const local = days('2026-10-12', '2026-10-13');
+    const remote = { '2026-10-13': entry('2026-10-13', '2026-10-13T08:00:00Z') };
+
+    const merged = mergeDailyStats(
+      { ...emptyStats, totalCompleted: 2, totalCorrect: 2 },
+      { ...emptyStats, totalCompleted: 1, totalCorrect: 1 },
+      mergeDailyHistory(local, remote)
+    );
+
+    expect(merged).toMatchObject({ currentStreak: 2, totalCompleted: 2, totalCorrect: 2 });
+  });
+
+  it('never lowers the totals or longest streak either device recorded', () => {
+    const remote = { ...emptyStats, longestStreak: 30, totalCompleted: 40, totalCorrect: 35 };
+
+    const merged = mergeDailyStats(emptyStats, remote, days('2026-10-12', '2026-10-13'));
+
+    expect(merged).toMatchObject({
+      currentStreak: 2,
+      longestStreak: 30,
+      totalCompleted: 40,
+      totalCorrect: 35,
+    });
+  });
+
+  it('leaves frozen days out of the totals and banks the freezes left', () => {
+    // A week earns a freeze, spent on the 8th
+    const history = {
+      ...days(
+        '2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-05', '2026-10-06', '2026-10-07'
+      ),
+      '2026-10-08': frozen('2026-10-08'),
+      ...days('2026-10-09'),
+    };
+
+    const merged = mergeDailyStats(emptyStats, emptyStats, history);
+
+    expect(merged).toMatchObject({ currentStreak: 8, totalCompleted: 8, streakFreezes: 0 });
+  });
+
+  it('keeps badges earned on either device once', () => {
+    const merged = mergeDailyStats(
+      { ...emptyStats, badges: [badge('streak-7'), badge('first')] },
+      { ...emptyStats, badges: [badge('first'), badge('streak-14')] },
+      {}
+    );
+
+    expect(merged.badges.map(({ id }) => id)).toEqual(['streak-7', 'first', 'streak-14']);
+  });
+
+  it('keeps the local stats when there is no remote profile yet', () => {
+    const history = mergeDailyHistory(days('2026-10-12', '2026-10-13'), {});
+    const local = {
+      ...emptyStats,
+      currentStreak: 2,
+      longestStreak: 4,
+      totalCompleted: 6,
+      totalCorrect: 5,
+      lastCompletedDate: '2026-10-13',
+      badges: [badge('first')],
+    };
+
+    const merged = mergeDailyStats(local, emptyStats, history);
+
+    expect(merged).toEqual({ ...local, streakFreezes: 0 });
+  });
+});
+
+describe('getStreakFreezes', () => {
+  const run = (from: string, length: number) =>
+    days(...Array.from({ length }, (_, i) => addDays(from, i)));
+
+  it('earns a freeze for each full week of a streak', () => {
+    expect(getStreakFreezes(run('2026-10-01', STREAK_FREEZE_EARN_DAYS - 1))).toBe(0);
+    expect(getStreakFreezes(run('2026-10-01', STREAK_FREEZE_EARN_DAYS))).toBe(1);
+  });
+
+  it(`banks no more than ${STREAK_FREEZE_MAX} freezes`, () => {
+    expect(getStreakFreezes(run('2026-09-01', STREAK_FREEZE_EARN_DAYS * 5))).toBe(STREAK_FREEZE_MAX);
+  });
+
+  it('spends a freeze on each frozen day', () => {
+    const history = {
+      ...run('2026-10-01', STREAK_FREEZE_EARN_DAYS * 2),
+      '2026-10-15': frozen('2026-10-15'),
+    };
+
+    expect(getStreakFreezes(history)).toBe(1);
+  });
+});
+
+describe('applyStreakFreezes', () => {
+  const today = '2026-10-19';
+  const streak = (lastCompletedDate: string, streakFreezes: number): DailyChallengeStats => ({
+    ...emptyStats,
+    currentStreak: 9,
+    longestStreak: 9,
+    lastCompletedDate,
+    streakFreezes,
+  });
+
+  it('covers each missed day with a freeze', () => {
+    const history = days('2026-10-16');
+
+    const result = applyStreakFreezes(streak('2026-10-16', 2), history, today);
+
+    expect(Object.keys(result.history).sort()).toEqual(['2026-10-16', '2026-10-17', '2026-10-18']);
+    expect(result.history['2026-10-17']).toMatchObject({ frozen: true, completed: false });
+    expect(result.stats).toMatchObject({
+      currentStreak: 9,
+      streakFreezes: 0,
+      lastCompletedDate: '2026-10-18',
+    });
+  });
+
+  it('dates each frozen entry on the day it covers', () => {
+    const result = applyStreakFreezes(streak('2026-10-16', 2), days('2026-10-16'), today);
+
+    for (const date of ['2026-10-17', '2026-10-18']) {
+      expect(getLocalDateString(new Date(result.history[date].timestamp))).toBe(date);
+    }
+  });
+
+  it('keeps the rest of the freezes banked', () => {
+    const result = applyStreakFreezes(streak('2026-10-17', STREAK_FREEZE_MAX), days('2026-10-17'), today);
+
+    expect(result.stats.streakFreezes).toBe(STREAK_FREEZE_MAX - 1);
+  });
+
+  it('resets the streak and keeps the freezes when there are too few', () => {
+    const history = days('2026-10-15');
+
+    const result = applyStreakFreezes(streak('2026-10-15', 2), history, today);
+
+    expect(result.history).toBe(history);
+    expect(result.stats).toMatchObject({ currentStreak: 0, longestStreak: 9, streakFreezes: 2 });
+  });
+
+  it.each([
+    ['played yesterday', streak('2026-10-18', 2)],
+    ['played today', streak('2026-10-19', 2)],
+    ['no streak to save', { ...streak('2026-10-16', 2), currentStreak: 0 }],
+    ['never played', emptyStats],
+  ])('changes nothing when %s', (_, stats) => {
+    const history = days('2026-10-16');
+
+    const result = applyStreakFreezes(stats, history, today);
+
+    expect(result.stats).toBe(stats);
+    expect(result.history).toBe(history);
+  });
+});
@@ -0,0 +1,46 @@
+import { addDays, getLocalDateString } from '../dateUtils';
+
+describe('getLocalDateString', () => {
+  it('turns over at local midnight in the given time zone', () => {
+    expect(getLocalDateString(new Date('2026-10-19T05:59:59Z'), 'America/Denver')).toBe('2026-10-18');
+    expect(getLocalDateString(new Date('2026-10-19T06:00:00Z'), 'America/Denver')).toBe('2026-10-19');
+    expect(getLocalDateString(new Date('2026-10-18T18:29:59Z'), 'Asia/Kolkata')).toBe('2026-10-18');
+    expect(getLocalDateString(new Date('2026-10-18T18:30:00Z'), 'Asia/Kolkata')).toBe('2026-10-19');
+  });
+
+  it('follows the clocks springing forward', () => {
+    // Denver moves from UTC-7 to UTC-6 at 2:00 on March 8, 2026
+    expect(getLocalDateString(new Date('2026-03-08T06:59:59Z'), 'America/Denver')).toBe('2026-03-07');
+    expect(getLocalDateString(new Date('2026-03-08T07:00:00Z'), 'America/Denver')).toBe('2026-03-08');
+    expect(getLocalDateString(new Date('2026-03-09T05:59:59Z'), 'America/Denver')).toBe('2026-03-08');
+    expect(getLocalDateString(new Date('2026-03-09T06:00:00Z'), 'America/Denver')).toBe('2026-03-09');
+  });
+
+  it('follows the clocks falling back', () => {
+    // Denver moves from UTC-6 to UTC-7 at 2:00 on November 1, 2026
+    expect(getLocalDateString(new Date('2026-11-01T05:59:59Z'), 'America/Denver')).toBe('2026-10-31');
+    expect(getLocalDateString(new Date('2026-11-01T06:00:00Z'), 'America/Denver')).toBe('2026-11-01');
+    expect(getLocalDateString(new Date('2026-11-02T06:59:59Z'), 'America/Denver')).toBe('2026-11-01');
+    expect(getLocalDateString(new Date('2026-11-02T07:00:00Z'), 'America/Denver')).toBe('2026-11-02');
+  });
+});
+
+describe('addDays', () => {
+  it('crosses month boundaries', () => {
+    expect(addDays('2026-01-31', 1)).toBe('2026-02-01');
+    expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+    expect(addDays('2028-02-28', 1)).toBe('2028-02-29');
+    expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+  });
+
+  it('crosses year boundaries', () => {
+    expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+    expect(addDays('2027-01-01', -1)).toBe('2026-12-31');
+    expect(addDays('2026-12-25', 14)).toBe('2027-01-08');
+  });
+
+  it('counts whole days across daylight saving changes', () => {
+    expect(addDays('2026-03-07', 2)).toBe('2026-03-09');
+    expect(addDays('2026-10-31', 2)).toBe('2026-11-02');
+  });
+});
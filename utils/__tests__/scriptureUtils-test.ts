@@ -0,0 +1,276 @@
+import { DAILY_SCHEDULE_START } from '@/constants/Daily';
+import { POINTS_PER_QUESTION } from '@/constants/Scoring';
+import { DAILY_SCHEDULE_VERSIONS, DailyScheduleVersion } from '@/data/dailySchedule';
+import { allScriptures } from '@/data/scriptureData';
+import { addDays } from '../dateUtils';
+import { getScripturesByIds } from '@/data/scriptureData';
+import { Scripture } from '@/types/scripture';
+import {
+  CHOICE_COUNT,
+  getAnswerChoices,
+  getDailyScheduleCycle,
+  getDailyScriptureForDate,
+  getInvalidReferenceMessage,
+  gradeGuess,
+  parseGuess,
+  parseVerseList,
+  resolveBookName,
+} from '../scriptureUtils';
+
+
+describe('resolveBookName', () => {
+  it.each([
+    ['Alma', 'Alma'],
+    ['1 Ne.', '1 Nephi'],
+    ['First Nephi', '1 Nephi'],
+    ['D and C', 'D&C'],
+    ['Mosaih', 'Mosiah'],
+    ['Revelations', 'Revelation'],
+    ['Romnas', 'Romans'],
+    ['Doctrine and Covenents', 'D&C'],
+  ])('resolves %s to %s', (typed, book) => {
+    expect(resolveBookName(typed)).toBe(book);
+  });
+
+  it.each([
+    ['Alma', 'Alma'],
+    ['1 Ne.', '1 Nephi'],
+    ['Rev', 'Revelation'],
+    ['Mosaih', undefined],
+    ['Heleman', undefined],
+    ['Genisis', undefined],
+    ['Revelations', undefined],
+    ['Romnas', undefined],
+  ])('resolves %s to %s with strict spelling', (typed, book) => {
+    expect(resolveBookName(typed, { strict: true })).toBe(book);
+  });
+
+  it('leaves a typo that ties two books unresolved', () => {
+    // One swap from John and one missing letter from Jonah
+    expect(resolveBookName('Jonh')).toBeUndefined();
+  });
+});
+
+describe('parseGuess', () => {
+  it.each([
+    ['Alma', { book: 'Alma' }],
+    ['Alma 32', { book: 'Alma', chapter: '32' }],
+    ['Alma 32:21', { book: 'Alma', chapter: '32', verseText: '21', verses: [{ start: 21 }] }],
+    ['1 Ne. 3:7', { book: '1 Nephi', chapter: '3', verseText: '7', verses: [{ start: 7 }] }],
+    ['Hel5:12', { book: 'Helaman', chapter: '5', verseText: '12', verses: [{ start: 12 }] }],
+    ['Mosaih 3', { book: 'Mosiah', chapter: '3' }],
+  ])('reads %s', (guess, parsed) => {
+    expect(parseGuess(guess)).toEqual(parsed);
+  });
+
+  it('keeps a misspelled book as typed with strict spelling', () => {
+    expect(parseGuess('Mosaih 3', { strict: true })).toEqual({ book: 'Mosaih', chapter: '3' });
+  });
+});
+
+describe('parseVerseList', () => {
+  it.each([
+    ['21', [{ start: 21 }]],
+    ['28-29', [{ start: 28, end: 29 }]],
+    ['28 – 29', [{ start: 28, end: 29 }]],
+    ['5-5', [{ start: 5 }]],
+    ['10, 15-16', [{ start: 10 }, { start: 15, end: 16 }]],
+    ['', null],
+    ['10,', null],
+    ['ten', null],
+  ])('reads "%s"', (text, verses) => {
+    expect(parseVerseList(text)).toEqual(verses);
+  });
+});
+
+describe('gradeGuess verses', () => {
+  const [alma34, dc18] = getScripturesByIds(['alma-34-32-34', 'd-c-18-10_15-16']);
+  const articleOfFaith13: Scripture = {
+    id: 'articles-of-faith-1-13',
+    text: 'We believe in being honest, true, chaste, benevolent, virtuous, and in doing good to all men',
+    reference: { book: 'Articles of Faith', chapter: 1, verses: [{ start: 13 }] },
+  };
+
+  it.each([
+    ['Alma 34:32', true, alma34],
+    ['Alma 34:34', true, alma34],
+    ['Alma 34:30-32', true, alma34],
+    ['Alma 34:31', false, alma34],
+    ['Alma 34:35', false, alma34],
+    ['D&C 18:10', true, dc18],
+    ['D&C 18:16', true, dc18],
+    ['D&C 18:12', false, dc18],
+    ['D&C 18:11, 14', false, dc18],
+    ['A of F 13', true, articleOfFaith13],
+    ['Articles of Faith 1:13', true, articleOfFaith13],
+    ['A of F 12', false, articleOfFaith13],
+  ])('grades %s on hard as %s', (guess, correct, scripture) => {
+    expect(gradeGuess(scripture, guess, 'hard').isCorrect).toBe(correct);
+  });
+});
+
+describe('gradeGuess points', () => {
+  const [alma32] = getScripturesByIds(['alma-32-21']);
+
+  it.each([
+    ['Alma', 'easy', true, 100, null],
+    ['Helaman', 'easy', false, 0, null],
+    ['Alma 32', 'medium', true, 100, 0],
+    ['Alma 33', 'medium', false, 75, 1],
+    ['Alma 34', 'medium', false, 63, 2],
+    ['Alma 40', 'medium', false, 50, 8],
+    ['Helaman 32', 'medium', false, 0, null],
+    ['Alma 32:21', 'hard', true, 100, 0],
+    ['Alma 32:22', 'hard', false, 70, 0],
+    ['Alma 31:21', 'hard', false, 55, 1],
+    ['Alma', 'hard', false, 40, null],
+  ] as const)('grades %s on %s: correct %s, %s points', (guess, mode, correct, points, chapterDistance) => {
+    expect(gradeGuess(alma32, guess, mode)).toMatchObject({
+      isCorrect: correct,
+      points,
+      chapterDistance,
+      maxPoints: POINTS_PER_QUESTION,
+    });
+  });
+
+  it('awards full points for the full reference on every difficulty', () => {
+    for (const mode of ['easy', 'medium', 'hard'] as const) {
+      expect(gradeGuess(alma32, 'Alma 32:21', mode).points).toBe(POINTS_PER_QUESTION);
+    }
+  });
+});
+
+describe('getInvalidReferenceMessage', () => {
+  it.each([
+    ['Alma', null],
+    ['Alma 32', null],
+    ['Alma 32:21', null],
+    ['A of F 13', null],
+    ['Alma 64', 'Alma has only 63 chapters'],
+    ['Alma 0', 'Alma chapters start at 1'],
+    ['D&C 139', 'D&C has only 138 sections'],
+    ['Alma 32:44', 'Alma 32 has only 43 verses'],
+    ['A of F 14', 'Articles of Faith has only 13 verses'],
+    ['Alma 32:0', 'Verses start at 1'],
+    ['Alma 32:21-19', "21-19 isn't a valid verse range"],
+    ['Alma 32:21,,', 'Couldn\'t read the verses "21,,"'],
+    ['Alma 32:', '"Alma 32:" is missing a verse'],
+    ['alma 32 :', '"Alma 32:" is missing a verse'],
+    ['Alma 64:', 'Alma has only 63 chapters'],
+    ['Bartholomew 3:', '"Bartholomew" isn\'t a book in the standard works'],
+    ['Bartholomew 3', '"Bartholomew" isn\'t a book in the standard works'],
+  ])('explains %s as %p', (guess, message) => {
+    expect(getInvalidReferenceMessage(guess)).toBe(message);
+  });
+
+  it('rejects a misspelled book with strict spelling', () => {
+    expect(getInvalidReferenceMessage('Mosaih 3')).toBeNull();
+    expect(getInvalidReferenceMessage('Mosaih 3', { strict: true })).toBe(
+      '"Mosaih" isn\'t a book in the standard works'
+    );
+  });
+});
+
+describe('gradeGuess book matching', () => {
+  const [mosiah] = getScripturesByIds(['mosiah-3-19']);
+
+  it.each([
+    ['Mosiah', true, true],
+    ['Mosh.', true, true],
+    ['Mosaih', true, false],
+    ['Mosiha', true, false],
+    ['Alma', false, false],
+  ])('grades %s for Mosiah as %s, and %s with strict spelling', (guess, loose, strict) => {
+    expect(gradeGuess(mosiah, guess, 'easy').bookCorrect).toBe(loose);
+    expect(gradeGuess(mosiah, guess, 'easy', { strict: true }).bookCorrect).toBe(strict);
+  });
+});
+
+describe('getAnswerChoices', () => {
+  const modes = ['easy', 'medium', 'hard'] as const;
+
+  it.each(modes)('offers %s choices that are all different, with one right answer', (mode) => {
+    for (const scripture of allScriptures) {
+      const choices = getAnswerChoices(scripture, mode, `ABC123-${scripture.id}`);
+
+      expect(new Set(choices).size).toBe(CHOICE_COUNT);
+      expect(choices.filter((choice) => gradeGuess(scripture, choice, mode).isCorrect)).toHaveLength(1);
+    }
+  });
+
+  it.each(modes)('gives the same %s choices in the same order for the same seed', (mode) => {
+    const [alma32] = getScripturesByIds(['alma-32-21']);
+    const choices = getAnswerChoices(alma32, mode, 'ABC123-0');
+
+    expect(getAnswerChoices(alma32, mode, 'ABC123-0')).toEqual(choices);
+    expect(choices).toContain(mode === 'easy' ? 'Alma' : mode === 'medium' ? 'Alma 32' : 'Alma 32:21');
+  });
+
+  it('shuffles the choices differently for different seeds', () => {
+    const [alma32] = getScripturesByIds(['alma-32-21']);
+    const orders = new Set(
+      Array.from({ length: 10 }, (_, i) => getAnswerChoices(alma32, 'hard', `ABC123-${i}`).join('|'))
+    );
+    expect(orders.size).toBeGreaterThan(1);
+  });
+});
+
+describe('daily schedule', () => {
+  const ids = allScriptures.map((scripture) => scripture.id);
+  const cycleLength = DAILY_SCHEDULE_VERSIONS.flatMap(({ scriptureIds }) => scriptureIds).length;
+
+  it('lists every passage in exactly one version', () => {
+    const scheduled = DAILY_SCHEDULE_VERSIONS.flatMap(({ scriptureIds }) => scriptureIds);
+    expect([...scheduled].sort()).toEqual([...ids].sort());
+  });
+
+  it('shows every passage once in a cycle', () => {
+    const cycle = getDailyScheduleCycle(DAILY_SCHEDULE_START);
+    expect(cycle.start).toBe(DAILY_SCHEDULE_START);
+    expect(new Set(cycle.passages.map(({ id }) => id)).size).toBe(cycleLength);
+
+    const days = Array.from({ length: cycleLength }, (_, i) =>
+      getDailyScriptureForDate(addDays(DAILY_SCHEDULE_START, i)).id
+    );
+    expect(new Set(days).size).toBe(cycleLength);
+  });
+
+  it('never repeats a passage across a cycle boundary', () => {
+    let start = DAILY_SCHEDULE_START;
+    for (let cycle = 0; cycle < 20; cycle++) {
+      const next = addDays(start, cycleLength);
+      expect(getDailyScriptureForDate(next).id).not.toBe(getDailyScriptureForDate(addDays(next, -1)).id);
+      expect(getDailyScheduleCycle(next).start).toBe(next);
+      start = next;
+    }
+  });
+
+  it('gives the same passage for the same date', () => {
+    const date = addDays(DAILY_SCHEDULE_START, 1000);
+    const first = getDailyScriptureForDate(date);
+
+    expect(getDailyScriptureForDate(date)).toBe(first);
+    // A fresh list of the same versions builds its cycles again from scratch
+    expect(getDailyScriptureForDate(date, DAILY_SCHEDULE_VERSIONS.map((version) => ({ ...version }))).id).toBe(
+      first.id
+    );
+  });
+
+  it('keeps a passage added mid-cycle for the next cycle', () => {
+    const launch: DailyScheduleVersion[] = [{ from: DAILY_SCHEDULE_START, scriptureIds: ids.slice(0, 10) }];
+    const withAddition: DailyScheduleVersion[] = [
+      ...launch,
+      { from: addDays(DAILY_SCHEDULE_START, 3), scriptureIds: [ids[10]] },
+    ];
+
+    const running = getDailyScheduleCycle(DAILY_SCHEDULE_START, withAddition);
+    expect(running.passages.map(({ id }) => id)).toEqual(
+      getDailyScheduleCycle(DAILY_SCHEDULE_START, launch).passages.map(({ id }) => id)
+    );
+
+    const next = getDailyScheduleCycle(addDays(DAILY_SCHEDULE_START, 10), withAddition);
+    expect(next.start).toBe(addDays(DAILY_SCHEDULE_START, 10));
+    expect(next.passages).toHaveLength(11);
+    expect(next.passages.map(({ id }) => id)).toContain(ids[10]);
+  });
+});
@@ -0,0 +1,66 @@
+import { POINTS_PER_QUESTION } from '@/constants/Scoring';
+import {
+  STUDY_DEFAULT_EASE,
+  STUDY_FIRST_INTERVAL,
+  STUDY_MIN_EASE,
+  STUDY_SECOND_INTERVAL,
+} from '@/constants/Study';
+import { getRecallQuality, scheduleReview } from '../studyUtils';
+
+describe('getRecallQuality', () => {
+  it.each([
+    [true, POINTS_PER_QUESTION, 5],
+    [true, POINTS_PER_QUESTION - 1, 4],
+    [false, POINTS_PER_QUESTION * 0.75, 2],
+    [false, POINTS_PER_QUESTION * 0.5, 2],
+    [false, POINTS_PER_QUESTION * 0.25, 1],
+    [false, 0, 0],
+  ])('rates correct=%s with %s points as %s', (correct, points, quality) => {
+    expect(getRecallQuality(correct, points)).toBe(quality);
+  });
+});
+
+describe('scheduleReview', () => {
+  const today = '2026-10-19';
+
+  it('brings a new passage back tomorrow, then in 6 days, then by its ease', () => {
+    const first = scheduleReview(undefined, 5, today);
+    expect(first).toMatchObject({ repetitions: 1, interval: STUDY_FIRST_INTERVAL, dueDate: '2026-10-20' });
+    expect(first.ease).toBeCloseTo(STUDY_DEFAULT_EASE + 0.1);
+
+    const second = scheduleReview(first, 5, first.dueDate);
+    expect(second).toMatchObject({ repetitions: 2, interval: STUDY_SECOND_INTERVAL, dueDate: '2026-10-26' });
+
+    const third = scheduleReview(second, 5, second.dueDate);
+    expect(third.repetitions).toBe(3);
+    expect(third.interval).toBe(Math.round(STUDY_SECOND_INTERVAL * third.ease));
+    expect(third.lastReviewed).toBe('2026-10-26');
+  });
+
+  it('starts a missed passage over tomorrow', () => {
+    const learned = { ease: 2.5, interval: 15, repetitions: 4, dueDate: today, lastReviewed: '2026-10-04' };
+
+    const missed = scheduleReview(learned, 1, today);
+
+    expect(missed).toMatchObject({ repetitions: 0, interval: STUDY_FIRST_INTERVAL, dueDate: '2026-10-20' });
+    expect(missed.ease).toBeLessThan(learned.ease);
+  });
+
+  it('lowers the ease for a hesitant recall without resetting', () => {
+    const learned = { ease: 2.5, interval: 6, repetitions: 2, dueDate: today, lastReviewed: '2026-10-13' };
+
+    const review = scheduleReview(learned, 3, today);
+
+    expect(review.repetitions).toBe(3);
+    expect(review.ease).toBeCloseTo(2.36);
+    expect(review.interval).toBe(Math.round(6 * review.ease));
+  });
+
+  it('never drops the ease below the minimum', () => {
+    let review = scheduleReview(undefined, 0, today);
+    for (let i = 0; i < 10; i++) {
+      review = scheduleReview(review, 0, review.dueDate);
+    }
+    expect(review.ease).toBe(STUDY_MIN_EASE);
+  });
+});
@@ -0,0 +1,217 @@
+import {
+  CLOZE_BLANKS,
+  POINTS_PER_QUESTION,
+  RECALL_THRESHOLDS,
+  SCRAMBLE_MAX_CHUNK_WORDS,
+  SCRAMBLE_WORDS_PER_TILE,
+} from '@/constants/Scoring';
+import { allScriptures } from '@/data/scriptureData';
+import {
+  diffWords,
+  getClozePassage,
+  getScramblePuzzle,
+  gradeCloze,
+  gradeRecall,
+  gradeScramble,
+  normalizeWord,
+  splitWords,
+} from '../textUtils';
+
+const passage = 'Adam fell that men might be; and men are, that they might have joy.';
+
+describe('normalizeWord', () => {
+  it.each([
+    ['Lord', 'lord'],
+    ['(Lord,', 'lord'],
+    ['Nephi’s', 'nephis'],
+    ['joy.', 'joy'],
+    ['Émer', 'emer'],
+    ['—', ''],
+  ])('reduces %s to "%s"', (word, normalized) => {
+    expect(normalizeWord(word)).toBe(normalized);
+  });
+});
+
+describe('splitWords', () => {
+  it('breaks on dashes and drops lone punctuation', () => {
+    expect(splitWords('faith—faith is not - to')).toEqual(['faith', 'faith', 'is', 'not', 'to']);
+  });
+});
+
+describe('diffWords', () => {
+  it('matches words in order, ignoring punctuation and case', () => {
+    expect(diffWords('Adam fell that men might be;', 'adam FELL, so men might be')).toEqual([
+      { word: 'Adam', status: 'matched' },
+      { word: 'fell', status: 'matched' },
+      { word: 'so', status: 'extra' },
+      { word: 'that', status: 'missed' },
+      { word: 'men', status: 'matched' },
+      { word: 'might', status: 'matched' },
+      { word: 'be;', status: 'matched' },
+    ]);
+  });
+
+  it('only matches words typed in the passage order', () => {
+    const statuses = diffWords('men might be', 'be might men').map(({ status }) => status);
+
+    expect(statuses.filter((status) => status === 'matched')).toHaveLength(1);
+    expect(statuses.filter((status) => status === 'missed')).toHaveLength(2);
+    expect(statuses.filter((status) => status === 'extra')).toHaveLength(2);
+  });
+
+  it('marks the whole passage missed when nothing is typed', () => {
+    expect(diffWords('men might be', '').map(({ status }) => status)).toEqual(['missed', 'missed', 'missed']);
+  });
+});
+
+describe('gradeRecall', () => {
+  it.each([
+    [passage, 'hard', true, 14, 100],
+    ['adam fell that men might be and men are that they might have joy', 'hard', true, 14, 100],
+    ['Adam fell that men might be — and men are, that they might have joy!', 'hard', true, 14, 100],
+    ['men are that they might have joy', 'easy', true, 7, 100],
+    ['men are that they might have joy', 'hard', false, 7, 56],
+    ['', 'easy', false, 0, 0],
+  ] as const)('grades "%s" on %s: correct %s, %s words, %s points', (guess, mode, correct, matchedWords, points) => {
+    expect(gradeRecall(passage, guess, mode)).toMatchObject({
+      isCorrect: correct,
+      matchedWords,
+      totalWords: 14,
+      points,
+      maxPoints: POINTS_PER_QUESTION,
+    });
+  });
+
+  it('fails a guess padded with words from outside the passage', () => {
+    const result = gradeRecall(passage, 'Adam fell and the men and the things and the stuff', 'easy');
+
+    expect(result.matchedWords / result.totalWords).toBeGreaterThan(RECALL_THRESHOLDS.easy);
+    expect(result.isCorrect).toBe(false);
+    expect(result.points).toBeLessThan(POINTS_PER_QUESTION / 2);
+  });
+});
+
+describe('getClozePassage', () => {
+  const modes = ['easy', 'medium', 'hard'] as const;
+
+  it('blanks the same words for the same seed', () => {
+    const cloze = getClozePassage(passage, 'hard', 'ABC123-0');
+
+    expect(getClozePassage(passage, 'hard', 'ABC123-0')).toEqual(cloze);
+    expect(cloze.blanks.map((index) => cloze.tokens[index])).toEqual(['fell', 'might', 'men', 'might']);
+  });
+
+  it.each(modes)('blanks only key words on %s, up to the cap', (mode) => {
+    for (const { id, text } of allScriptures) {
+      const { tokens, blanks } = getClozePassage(text, mode, id);
+
+      expect(blanks.length).toBeGreaterThan(0);
+      expect(blanks.length).toBeLessThanOrEqual(CLOZE_BLANKS[mode].max);
+      expect(blanks).toEqual([...new Set(blanks)].sort((a, b) => a - b));
+      for (const index of blanks) {
+        expect(normalizeWord(tokens[index]).length).toBeGreaterThanOrEqual(3);
+        expect(['the', 'and', 'unto', 'which']).not.toContain(normalizeWord(tokens[index]));
+      }
+    }
+  });
+
+  it('blanks more words on harder modes', () => {
+    const counts = modes.map((mode) => getClozePassage(allScriptures[0].text, mode, 'ABC123-0').blanks.length);
+
+    expect(counts[0]).toBeLessThan(counts[1]);
+    expect(counts[1]).toBeLessThan(counts[2]);
+  });
+});
+
+describe('gradeCloze', () => {
+  const cloze = getClozePassage(passage, 'hard', 'ABC123-0');
+
+  it.each([
+    [['fell', 'might', 'men', 'might'], true, 4, 100],
+    [['FELL.', 'Might,', 'men', 'might!'], true, 4, 100],
+    [['fell', 'might', 'men', 'may'], true, 3, 75],
+    [['fell', 'might'], false, 2, 50],
+    [[], false, 0, 0],
+  ])('grades %j: correct %s, %s blanks, %s points', (answers, correct, correctBlanks, points) => {
+    expect(gradeCloze(cloze, answers)).toMatchObject({
+      isCorrect: correct,
+      correctBlanks,
+      totalBlanks: 4,
+      points,
+      maxPoints: POINTS_PER_QUESTION,
+    });
+  });
+
+  it('reports the expected word without its punctuation', () => {
+    const { answers } = gradeCloze({ tokens: ['might', 'be;'], blanks: [1] }, ['Be']);
+
+    expect(answers).toEqual([{ index: 1, expected: 'be', given: 'Be', correct: true }]);
+  });
+});
+
+describe('getScramblePuzzle', () => {
+  const modes = ['easy', 'medium', 'hard'] as const;
+
+  it('splits a passage into sentences of tiles, shuffled the same for the same seed', () => {
+    const puzzle = getScramblePuzzle(passage, 'medium', 'ABC123-0');
+
+    expect(getScramblePuzzle(passage, 'medium', 'ABC123-0')).toEqual(puzzle);
+    expect(puzzle.chunks.map(({ pieces }) => pieces)).toEqual([
+      ['Adam fell', 'that men', 'might be;'],
+      ['and men', 'are, that', 'they might', 'have joy.'],
+    ]);
+  });
+
+  it('keeps a dash attached to its words', () => {
+    const puzzle = getScramblePuzzle('As I said concerning faith—faith is not to have a perfect knowledge', 'hard', 'x');
+
+    expect(puzzle.chunks[0].pieces).toContain('faith—faith');
+  });
+
+  it.each(modes)('rebuilds every passage on %s from chunks of shuffled tiles', (mode) => {
+    for (const { id, text } of allScriptures) {
+      const { chunks } = getScramblePuzzle(text, mode, id);
+      const pieces = chunks.flatMap((chunk) => chunk.pieces);
+
+      expect(splitWords(pieces.join(' '))).toEqual(splitWords(text));
+      for (const { pieces: chunkPieces, shuffled } of chunks) {
+        expect(splitWords(chunkPieces.join(' ')).length).toBeLessThanOrEqual(SCRAMBLE_MAX_CHUNK_WORDS);
+        expect(chunkPieces.every((piece) => piece.split(' ').length <= SCRAMBLE_WORDS_PER_TILE[mode])).toBe(true);
+        expect([...shuffled].sort((a, b) => a - b)).toEqual(chunkPieces.map((_, index) => index));
+        if (chunkPieces.length > 1) {
+          expect(shuffled.some((index, position) => index !== position)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('divides a long passage into several chunks', () => {
+    const longest = allScriptures.reduce((a, b) => (splitWords(b.text).length > splitWords(a.text).length ? b : a));
+
+    const { chunks } = getScramblePuzzle(longest.text, 'hard', longest.id);
+
+    expect(chunks.length).toBeGreaterThanOrEqual(splitWords(longest.text).length / SCRAMBLE_MAX_CHUNK_WORDS);
+  });
+});
+
+describe('gradeScramble', () => {
+  // 14 single-word tiles, so 42 seconds are allowed
+  const puzzle = getScramblePuzzle(passage, 'hard', 'ABC123-0');
+
+  it.each([
+    [0, 30, true, 100],
+    [2, 30, true, 80],
+    [0, 63, true, 85],
+    [0, 84, true, 70],
+    [0, 200, true, 70],
+    [4, 84, false, 30],
+    [12, 10, false, 0],
+  ])('gives %s mistakes in %s seconds: correct %s, %s points', (mistakes, seconds, correct, points) => {
+    expect(gradeScramble(puzzle, mistakes, seconds)).toMatchObject({
+      isCorrect: correct,
+      totalPieces: 14,
+      points,
+      maxPoints: POINTS_PER_QUESTION,
+    });
+  });
+});
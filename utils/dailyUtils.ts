@@ -0,0 +1,187 @@
+import { DailyChallengeResult, DailyChallengeStats } from '@/types/scripture';
+import { STREAK_FREEZE_EARN_DAYS, STREAK_FREEZE_MAX } from '@/constants/Daily';
+import { addDays, getDaysBetween, getLocalDateString, isDayBefore } from '@/utils/dateUtils';
+
+/**
+ * Streaks in a daily challenge history: the longest run of consecutive days, and
+ * the run ending on the last day played if that was today or yesterday (0 otherwise).
+ * Frozen days keep a run going without adding to it.
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export const getStreaks = (
+  history: Record<string, DailyChallengeResult>,
+  today: string
+): { currentStreak: number; longestStreak: number } => {
+  const dates = Object.keys(history).sort();
+  let run = 0;
+  let longestStreak = 0;
+  dates.forEach((date, i) => {
+    const played = history[date].frozen ? 0 : 1;
+    run = i > 0 && isDayBefore(dates[i - 1], date) ? run + played : played;
+    longestStreak = Math.max(longestStreak, run);
+  });
+
+  const lastDate = dates[dates.length - 1];
+  const isCurrent = !!lastDate && (lastDate === today || isDayBefore(lastDate, today));
+  return { currentStreak: isCurrent ? run : 0, longestStreak };
+};
+
+/**
+ * Streak freezes banked by the end of a history: one earned each time a streak
+ * reaches a multiple of STREAK_FREEZE_EARN_DAYS, up to STREAK_FREEZE_MAX, and one
+ * spent on each frozen day
+ */
+export const getStreakFreezes = (history: Record<string, DailyChallengeResult>): number => {
+  const dates = Object.keys(history).sort();
+  let run = 0;
+  let freezes = 0;
+  dates.forEach((date, i) => {
+    if (i === 0 || !isDayBefore(dates[i - 1], date)) run = 0;
+    if (history[date].frozen) {
+      freezes = Math.max(freezes - 1, 0);
+    } else {
+      run++;
+      if (run % STREAK_FREEZE_EARN_DAYS === 0) freezes = Math.min(freezes + 1, STREAK_FREEZE_MAX);
+    }
+  });
+  return freezes;
+};
+
+/**
+ * Cover the days missed since the last one played with banked streak freezes,
+ * adding a frozen entry to the history for each. With too few freezes the streak
+ * resets instead and the freezes stay banked. Returns the same objects when no
+ * day was missed or there was no streak to save.
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export const applyStreakFreezes = (
+  stats: DailyChallengeStats,
+  history: Record<string, DailyChallengeResult>,
+  today: string
+): { stats: DailyChallengeStats; history: Record<string, DailyChallengeResult> } => {
+  const { lastCompletedDate, currentStreak } = stats;
+  const missedDays = lastCompletedDate ? getDaysBetween(lastCompletedDate, today) - 1 : 0;
+  if (!lastCompletedDate || missedDays <= 0 || currentStreak === 0) {
+    return { stats, history };
+  }
+
+  const freezes = stats.streakFreezes ?? 0;
+  if (missedDays > freezes) {
+    return { stats: { ...stats, currentStreak: 0 }, history };
+  }
+
+  const frozenHistory = { ...history };
+  for (let i = 1; i <= missedDays; i++) {
+    const date = addDays(lastCompletedDate, i);
+    // Local noon of the frozen day, so the entry's timestamp falls on the day it covers
+    const timestamp = new Date(`${date}T12:00:00`);
+    frozenHistory[date] = { date, completed: false, correct: false, frozen: true, timestamp };
+  }
+  return {
+    stats: { ...stats, streakFreezes: freezes - missedDays, lastCompletedDate: addDays(today, -1) },
+    history: frozenHistory,
+  };
+};
+
+/**
+ * Union of two daily challenge histories. A day completed on both devices keeps
+ * whichever completion came first, and a day played on one device replaces a
+ * freeze used for it on the other.
+ */
+export const mergeDailyHistory = (
+  local: Record<string, DailyChallengeResult>,
+  remote: Record<string, DailyChallengeResult>
+): Record<string, DailyChallengeResult> => {
+  const merged = { ...local };
+  for (const [date, entry] of Object.entries(remote)) {
+    const existing = merged[date];
+    const replaces =
+      !existing ||
+      (existing.frozen && !entry.frozen) ||
+      (!!existing.frozen === !!entry.frozen &&
+        new Date(entry.timestamp).getTime() < new Date(existing.timestamp).getTime());
+    if (replaces) {
+      merged[date] = entry;
+    }
+  }
+  return merged;
+};
+
+/**
+ * Stats for a merged history: streaks, totals and freezes recomputed from its days,
+ * and badges earned on either device. Totals and the longest streak never drop below
+ * what either side had already recorded. The current streak is the run up to the
+ * last day in the history; days missed since are left to applyStreakFreezes.
+ */
+export const mergeDailyStats = (
+  local: DailyChallengeStats,
+  remote: DailyChallengeStats,
+  history: Record<string, DailyChallengeResult>
+): DailyChallengeStats => {
+  const dates = Object.keys(history).sort();
+  const lastDate = dates[dates.length - 1] ?? null;
+  const { currentStreak, longestStreak } = lastDate
+    ? getStreaks(history, lastDate)
+    : { currentStreak: 0, longestStreak: 0 };
+  const results = Object.values(history).filter((result) => !result.frozen);
+
+  const badges = [...local.badges];
+  for (const badge of remote.badges) {
+    if (!badges.some((existing) => existing.id === badge.id)) {
+      badges.push(badge);
+    }
+  }
+
+  return {
+    ...remote,
+    ...local,
+    currentStreak,
+    longestStreak: Math.max(longestStreak, local.longestStreak, remote.longestStreak),
+    totalCompleted: Math.max(results.length, local.totalCompleted, remote.totalCompleted),
+    totalCorrect: Math.max(
+      results.filter((result) => result.correct).length,
+      local.totalCorrect,
+      remote.totalCorrect
+    ),
+    lastCompletedDate: lastDate,
+    badges,
+    streakFreezes: getStreakFreezes(history),
+  };
+};
+
+/**
+ * History used to be keyed by the UTC date the challenge was completed on, which is
+ * the next day for evening players west of Greenwich. Re-key each entry by the local
+ * date of its timestamp, and move the last completed date along with it.
+ * @param timeZone - IANA time zone the local dates are taken in; the device's own zone when omitted
+ */
+export const migrateToLocalDates = (
+  history: Record<string, DailyChallengeResult>,
+  stats: DailyChallengeStats | null,
+  timeZone?: string
+): { history: Record<string, DailyChallengeResult>; stats: DailyChallengeStats | null } => {
+  const migrated: Record<string, DailyChallengeResult> = {};
+  const oldToNew: Record<string, string> = {};
+
+  const entries = Object.entries(history).sort(
+    ([, a], [, b]) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+  );
+  for (const [utcDate, entry] of entries) {
+    const completedAt = new Date(entry.timestamp);
+    // Entries without a usable timestamp stay where they were
+    const localDate = isNaN(completedAt.getTime()) ? utcDate : getLocalDateString(completedAt, timeZone);
+    oldToNew[utcDate] = localDate;
+    // Two UTC days can fall on one local day; keep the first challenge played on it
+    if (!migrated[localDate]) {
+      migrated[localDate] = { ...entry, date: localDate };
+    }
+  }
+
+  const lastCompletedDate = stats?.lastCompletedDate;
+  return {
+    history: migrated,
+    stats: stats && lastCompletedDate
+      ? { ...stats, lastCompletedDate: oldToNew[lastCompletedDate] ?? lastCompletedDate }
+      : stats,
+  };
+};
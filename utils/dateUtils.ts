@@ -0,0 +1,59 @@
+/**
+ * Calendar dates as YYYY-MM-DD strings. A "day" is the player's local day, so the
+ * daily challenge and streaks turn over at local midnight rather than UTC midnight.
+ */
+
+const formatDateParts = (year: number, month: number, day: number): string =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+/**
+ * Calendar date (YYYY-MM-DD) of a moment in a time zone
+ * @param date - The moment, now by default
+ * @param timeZone - IANA time zone like "America/Denver"; the device's own zone when omitted
+ */
+export const getLocalDateString = (date: Date = new Date(), timeZone?: string): string => {
+  if (!timeZone) {
+    return formatDateParts(date.getFullYear(), date.getMonth() + 1, date.getDate());
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value);
+  return formatDateParts(part('year'), part('month'), part('day'));
+};
+
+/**
+ * Today's local date in YYYY-MM-DD format
+ * @param timeZone - IANA time zone; the device's own zone when omitted
+ */
+export const getTodayDateString = (timeZone?: string): string => getLocalDateString(new Date(), timeZone);
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+export const addDays = (dateString: string, days: number): string => {
+  // Calendar arithmetic in UTC, where every day is 24 hours long
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+/**
+ * Whole days from one YYYY-MM-DD date to another, negative if the second is earlier
+ */
+export const getDaysBetween = (fromDateString: string, toDateString: string): number => {
+  const from = new Date(`${fromDateString}T00:00:00Z`).getTime();
+  const to = new Date(`${toDateString}T00:00:00Z`).getTime();
+  return Math.round((to - from) / 86400000);
+};
+
+/**
+ * Whether a date is the day before another (both YYYY-MM-DD)
+ */
+export const isDayBefore = (dateString: string | null, laterDateString: string): boolean =>
+  dateString !== null && addDays(dateString, 1) === laterDateString;
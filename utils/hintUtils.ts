@@ -0,0 +1,61 @@
+import { GameMode, HintKind, Scripture, SurroundingVerse } from '@/types/scripture';
+import { COLLECTION_DEFINITIONS } from '@/constants/Collections';
+import { getModeHints } from '@/constants/Hints';
+import { allScriptures } from '@/data/scriptureData';
+import { findCanonBook } from '@/utils/scriptureUtils';
+
+/**
+ * A verse next to the passage: the one written alongside it in the data files,
+ * or another passage in the data set that directly follows or precedes it
+ * (as the Articles of Faith do). Null when neither is known.
+ */
+export const getSurroundingVerse = (scripture: Scripture): SurroundingVerse | null => {
+  if (scripture.context) return scripture.context;
+
+  const { book, chapter, verses } = scripture.reference;
+  const first = verses[0].start;
+  const last = verses[verses.length - 1].end ?? verses[verses.length - 1].start;
+  const sameChapter = allScriptures.filter(
+    (other) => other.reference.book === book && other.reference.chapter === chapter
+  );
+
+  const next = sameChapter.find((other) => other.reference.verses[0].start === last + 1);
+  if (next) return { position: 'after', text: next.text };
+
+  const previous = sameChapter.find((other) => {
+    const otherVerses = other.reference.verses;
+    const otherLast = otherVerses[otherVerses.length - 1];
+    return (otherLast.end ?? otherLast.start) === first - 1;
+  });
+  return previous ? { position: 'before', text: previous.text } : null;
+};
+
+/**
+ * Hints that can be offered for a passage at a difficulty
+ */
+export const getAvailableHints = (scripture: Scripture, mode: GameMode): HintKind[] =>
+  getModeHints(mode).filter((hint) => hint !== 'context' || getSurroundingVerse(scripture) !== null);
+
+/**
+ * What a hint reveals about the passage, e.g. "Book of Mormon" or "Starts with 1 N…"
+ */
+export const getHintText = (hint: HintKind, scripture: Scripture): string => {
+  const { book, chapter } = scripture.reference;
+  switch (hint) {
+    case 'volume': {
+      const collection = findCanonBook(book)?.collection;
+      return collection ? COLLECTION_DEFINITIONS[collection].name : 'Unknown volume';
+    }
+    case 'bookLetter': {
+      // Keep the number of books like "1 Nephi" so the letter means something
+      const prefix = book.match(/^[^A-Za-z]*[A-Za-z]/)?.[0] ?? book.charAt(0);
+      return `Book starts with ${prefix}…`;
+    }
+    case 'chapter':
+      return `Chapter ${chapter}`;
+    case 'context': {
+      const verse = getSurroundingVerse(scripture);
+      return verse ? `The verse ${verse.position} reads: "${verse.text}"` : 'No nearby verse';
+    }
+  }
+};
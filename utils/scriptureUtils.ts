@@ -1,6 +1,31 @@
 // utils/scriptureUtils.ts
-import { Scripture, GameMode, QuestionCount } from '../types/scripture';
-import { allScriptures } from '@/data/scriptureData';
+import {
+  Scripture,
+  ScriptureReference,
+  VerseRange,
+  GameMode,
+  QuestionCount,
+  ScriptureCollection,
+  GuessResult,
+} from '../types/scripture';
+import {
+  allScriptures,
+  getScriptureId,
+  getScripturesByCollections,
+  getScripturesByIds,
+} from '@/data/scriptureData';
+import { DAILY_SCHEDULE_VERSIONS, DailyScheduleVersion } from '@/data/dailySchedule';
+import { canonBooks, bookAliases, bookMisspellings, CanonBook } from '@/data/canonCatalog';
+import { ALL_COLLECTIONS, COLLECTION_DEFINITIONS } from '@/constants/Collections';
+import { DAILY_SCHEDULE_START } from '@/constants/Daily';
+import { addDays, getDaysBetween, getLocalDateString } from '@/utils/dateUtils';
+import {
+  POINTS_SCHEMES,
+  POINTS_PER_QUESTION,
+  NEAR_CHAPTER_CREDIT,
+  SPEED_SECONDS_PER_QUESTION,
+  SPEED_MAX_BONUS,
+} from '@/constants/Scoring';
 
 /**
  * Get all available scriptures
@@ -11,149 +36,609 @@ export const getAllScriptures = (): Scripture[] => {
 
 /**
  * Get a random scripture
+ * @param pool - Scriptures to draw from (defaults to all scriptures)
  */
-export const getRandomScripture = (): Scripture => {
-  const randomIndex = Math.floor(Math.random() * allScriptures.length);
-  return allScriptures[randomIndex];
+export const getRandomScripture = (pool: Scripture[] = allScriptures): Scripture => {
+  const randomIndex = Math.floor(Math.random() * pool.length);
+  return pool[randomIndex];
 };
 
 /**
  * Get a random scripture that is different from the current one
  * @param currentScripture - The current scripture to avoid
+ * @param pool - Scriptures to draw from (defaults to all scriptures)
  * @param maxAttempts - Maximum attempts before returning any scripture (prevents infinite loop)
  */
 export const getNextRandomScripture = (
   currentScripture: Scripture,
+  pool: Scripture[] = allScriptures,
   maxAttempts: number = 100
 ): Scripture => {
   // Guard against single scripture or empty array
-  if (allScriptures.length <= 1) {
-    return allScriptures[0] ?? currentScripture;
+  if (pool.length <= 1) {
+    return pool[0] ?? currentScripture;
   }
 
   let randomScripture: Scripture;
   let attempts = 0;
 
   do {
-    randomScripture = getRandomScripture();
+    randomScripture = getRandomScripture(pool);
     attempts++;
-  } while (randomScripture.text === currentScripture.text && attempts < maxAttempts);
+  } while (randomScripture.id === currentScripture.id && attempts < maxAttempts);
 
   return randomScripture;
 };
 
 /**
- * Normalize book names to handle variations
+ * Draw a random scripture that hasn't been drawn yet, starting over once
+ * every scripture in the pool has been used
+ * @param drawn - Ids of the scriptures drawn so far; updated with the new draw
+ * @param pool - Scriptures to draw from (defaults to all scriptures)
  */
-const normalizeBookName = (bookName: string): string => {
-  const normalized = bookName.trim().toLowerCase();
+export const drawUnseenScripture = (
+  drawn: Set<string>,
+  pool: Scripture[] = allScriptures
+): Scripture => {
+  let unseen = pool.filter((scripture) => !drawn.has(scripture.id));
+  if (unseen.length === 0) {
+    drawn.clear();
+    unseen = pool;
+  }
+  const scripture = getRandomScripture(unseen);
+  drawn.add(scripture.id);
+  return scripture;
+};
+
+/**
+ * Get a short display label for a set of collections,
+ * e.g. "All Scriptures", "Book of Mormon" or "OT · NT"
+ */
+export const getCollectionsLabel = (collections?: ScriptureCollection[]): string => {
+  if (!collections || collections.length === 0 || collections.length === ALL_COLLECTIONS.length) {
+    return 'All Scriptures';
+  }
+  if (collections.length === 1) {
+    return COLLECTION_DEFINITIONS[collections[0]].name;
+  }
+  return collections.map((c) => COLLECTION_DEFINITIONS[c].shortName).join(' · ');
+};
+
+// Default number of single-character edits a misspelled book may need and still match
+export const DEFAULT_MAX_TYPO_DISTANCE = 2;
+
+export interface BookMatchOptions {
+  // Only accept exact book names and known abbreviations (no typo correction)
+  strict?: boolean;
+  // Most edits a misspelling may need to match (defaults to DEFAULT_MAX_TYPO_DISTANCE)
+  maxTypoDistance?: number;
+}
+
+// Roman numeral and ordinal prefixes on numbered books ("I Nephi", "First Nephi")
+const NUMBERED_BOOK_PREFIXES: Record<string, string> = {
+  i: '1', ii: '2', iii: '3', iv: '4',
+  first: '1', second: '2', third: '3', fourth: '4',
+  '1st': '1', '2nd': '2', '3rd': '3', '4th': '4',
+};
+
+/**
+ * Reduce a typed book name to a lookup key: lowercase, no periods, spaces or
+ * dashes, the word "and" written as "&", and numbered prefixes turned into digits
+ */
+const toBookKey = (bookName: string): string => {
+  const words = bookName
+    .toLowerCase()
+    .replace(/\./g, ' ')
+    .trim()
+    .split(/\s+/);
+
+  if (words.length > 1 && NUMBERED_BOOK_PREFIXES[words[0]]) {
+    words[0] = NUMBERED_BOOK_PREFIXES[words[0]];
+  }
+
+  return words
+    .map((word) => (word === 'and' ? '&' : word))
+    .join('')
+    .replace(/[-—–]/g, '');
+};
+
+// Every canonical name and alias, keyed by lookup key
+const bookKeyIndex = new Map<string, string>();
+canonBooks.forEach(({ name }) => {
+  bookKeyIndex.set(toBookKey(name), name);
+  (bookAliases[name] ?? []).forEach((alias) => bookKeyIndex.set(toBookKey(alias), name));
+});
+
+// The same with common misspellings added, for matching without strict spelling
+const looseBookKeyIndex = new Map<string, string>(bookKeyIndex);
+Object.entries(bookMisspellings).forEach(([name, misspellings]) =>
+  misspellings.forEach((misspelling) => looseBookKeyIndex.set(toBookKey(misspelling), name))
+);
 
-  // Handle D&C variations - be lenient with any reasonable attempt
-  const noSpaces = normalized.replace(/\s+/g, '');
+const canonBookIndex = new Map<string, CanonBook>(
+  canonBooks.map((book) => [book.name, book])
+);
 
-  if (
-    noSpaces === 'd&c' ||
-    noSpaces === 'dc' ||
-    (noSpaces.includes('doctrine') && noSpaces.includes('covenant')) ||
-    normalized.startsWith('d&c') ||
-    normalized.startsWith('d & c')
-  ) {
-    return 'd&c';
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions
+ * and swaps of adjacent letters ("Romnas" for Romans) each count as one edit
+ */
+const getEditDistance = (a: string, b: string): number => {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+};
+
+/**
+ * Resolve a typed book name to its canonical catalog name.
+ * Tries exact names and aliases first, then (unless strict) common misspellings,
+ * loose patterns for the long Restoration titles and finally the closest name
+ * within the typo threshold. Returns undefined when nothing matches or two books tie.
+ */
+export const resolveBookName = (
+  bookName: string,
+  options: BookMatchOptions = {}
+): string | undefined => {
+  const key = toBookKey(bookName);
+  const exactMatch = bookKeyIndex.get(key);
+  if (exactMatch || options.strict || !key) {
+    return exactMatch;
+  }
+
+  const misspelledMatch = looseBookKeyIndex.get(key);
+  if (misspelledMatch) {
+    return misspelledMatch;
   }
 
-  // Handle Joseph Smith—History variations
-  const noDashes = noSpaces.replace(/[-—–]/g, ''); // Remove all dash types
-  if (
-    noDashes === 'jsh' ||
-    noDashes === 'jshistory' ||
-    noDashes === 'josephsmithhistory' ||
-    noSpaces.startsWith('js-h') ||
-    noSpaces.startsWith('js—h') ||
-    (noDashes.includes('josephsmith') && noDashes.includes('history'))
-  ) {
-    return 'joseph smith—history';
+  // Be lenient with any reasonable attempt at the long titles
+  if (key.includes('doctrine') && key.includes('covenant')) {
+    return 'D&C';
   }
+  if (key.includes('josephsmith') && key.includes('history')) {
+    return 'Joseph Smith—History';
+  }
+  if (key.includes('josephsmith') && key.includes('matthew')) {
+    return 'Joseph Smith—Matthew';
+  }
+  if (key.includes('article') && key.includes('faith')) {
+    return 'Articles of Faith';
+  }
+
+  // Short inputs are too ambiguous to correct, so allow one edit per three letters
+  const maxDistance = Math.min(
+    options.maxTypoDistance ?? DEFAULT_MAX_TYPO_DISTANCE,
+    Math.floor(key.length / 3)
+  );
+  if (maxDistance < 1) {
+    return undefined;
+  }
+
+  let bestMatch: string | undefined;
+  let bestDistance = Infinity;
+  let isTie = false;
 
-  return normalized;
+  looseBookKeyIndex.forEach((name, candidate) => {
+    const distance = getEditDistance(key, candidate);
+    if (distance < bestDistance) {
+      bestMatch = name;
+      bestDistance = distance;
+      isTie = false;
+    } else if (distance === bestDistance && name !== bestMatch) {
+      isTie = true;
+    }
+  });
+
+  return bestDistance <= maxDistance && !isTie ? bestMatch : undefined;
 };
 
 /**
- * Get the daily challenge scripture for a given date.
- * Uses a deterministic seed based on the date to ensure all users
- * get the same scripture on the same day.
+ * Normalize book names to handle abbreviations, misspellings and other variations
  */
-export const getDailyScripture = (date: Date = new Date()): Scripture => {
-  const dateString = date.toISOString().split('T')[0];
-  let hash = 0;
-  for (let i = 0; i < dateString.length; i++) {
-    const char = dateString.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
+const normalizeBookName = (bookName: string, options?: BookMatchOptions): string => {
+  return (resolveBookName(bookName, options) ?? bookName.trim()).toLowerCase();
+};
+
+/**
+ * Find a book in the canon catalog, accepting the same name variations as guesses
+ */
+export const findCanonBook = (
+  bookName: string,
+  options?: BookMatchOptions
+): CanonBook | undefined => {
+  const name = resolveBookName(bookName, options);
+  return name ? canonBookIndex.get(name) : undefined;
+};
+
+/**
+ * Passages in one cycle of the daily schedule: every passage in a version that had
+ * begun by the cycle's first day, ranked by a seeded draw for each passage's id so
+ * the order doesn't depend on how the data files are arranged
+ */
+const getDailyCyclePassages = (
+  cycle: number,
+  cycleStart: string,
+  versions: readonly DailyScheduleVersion[]
+): Scripture[] =>
+  getScripturesByIds(
+    versions.filter(({ from }) => from <= cycleStart).flatMap(({ scriptureIds }) => scriptureIds)
+  )
+    .map((scripture) => ({ scripture, rank: createSeededRandom(`daily-${cycle}:${scripture.id}`)() }))
+    .sort((a, b) => a.rank - b.rank || (a.scripture.id < b.scripture.id ? -1 : 1))
+    .map(({ scripture }) => scripture);
+
+export interface DailyScheduleCycle {
+  // First day of the cycle (YYYY-MM-DD)
+  start: string;
+  // One passage per day from the start
+  passages: Scripture[];
+}
+
+// Cycles worked out so far for each list of versions, in order from DAILY_SCHEDULE_START
+const dailyScheduleCycles = new WeakMap<readonly DailyScheduleVersion[], DailyScheduleCycle[]>();
+
+/**
+ * Find the cycle of the daily schedule a day (on or after DAILY_SCHEDULE_START)
+ * falls in. Each cycle shows every passage once and never starts with the passage
+ * the previous cycle ended on. Cycles are built once and reused, since the hook
+ * asks for today's on every render.
+ * @param versions - Passages by the release that added them
+ */
+export const getDailyScheduleCycle = (
+  dateString: string,
+  versions: readonly DailyScheduleVersion[] = DAILY_SCHEDULE_VERSIONS
+): DailyScheduleCycle => {
+  const cycles = dailyScheduleCycles.get(versions) ?? [];
+  dailyScheduleCycles.set(versions, cycles);
+
+  for (let cycle = 0; ; cycle++) {
+    if (!cycles[cycle]) {
+      const previous = cycles[cycle - 1];
+      const start = previous ? addDays(previous.start, previous.passages.length) : DAILY_SCHEDULE_START;
+      const passages = getDailyCyclePassages(cycle, start, versions);
+      const previousLast = previous?.passages[previous.passages.length - 1];
+      if (passages.length > 1 && passages[0].id === previousLast?.id) {
+        [passages[0], passages[1]] = [passages[1], passages[0]];
+      }
+      cycles.push({ start, passages });
+    }
+
+    const { start, passages } = cycles[cycle];
+    if (dateString < addDays(start, passages.length)) return cycles[cycle];
+  }
+};
+
+/**
+ * Get the daily challenge scripture for a calendar date (YYYY-MM-DD).
+ * All users get the same scripture on the same day, and every passage comes up
+ * once before any repeats. Days before the schedule started are picked by hashing
+ * the date over today's passages, so they aren't necessarily the passage shown on
+ * that day; the history records the passage each day was played with.
+ * @param versions - Passages by the release that added them
+ */
+export const getDailyScriptureForDate = (
+  dateString: string,
+  versions: readonly DailyScheduleVersion[] = DAILY_SCHEDULE_VERSIONS
+): Scripture => {
+  if (dateString < DAILY_SCHEDULE_START) {
+    return allScriptures[stringToSeed(dateString) % allScriptures.length];
+  }
+  const { start, passages } = getDailyScheduleCycle(dateString, versions);
+  return passages[getDaysBetween(start, dateString)];
+};
+
+/**
+ * Get the daily challenge scripture for a given moment
+ * @param timeZone - IANA time zone the day is taken in; the device's own zone when omitted
+ */
+export const getDailyScripture = (date: Date = new Date(), timeZone?: string): Scripture =>
+  getDailyScriptureForDate(getLocalDateString(date, timeZone));
+
+/**
+ * Preview the daily challenge scriptures for a run of days
+ * @param fromDateString - First day (YYYY-MM-DD)
+ * @param days - How many days to include
+ */
+export const getDailySchedule = (
+  fromDateString: string,
+  days: number
+): { date: string; scripture: Scripture }[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = addDays(fromDateString, i);
+    return { date, scripture: getDailyScriptureForDate(date) };
+  });
+
+/**
+ * Parse a verse list like "21", "28-29" or "10, 15-16" into ranges.
+ * Returns null when the text isn't a list of verse numbers and ranges.
+ */
+export const parseVerseList = (text: string): VerseRange[] | null => {
+  const ranges: VerseRange[] = [];
+
+  for (const part of text.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*[-–—]\s*(\d+))?$/);
+    if (!match) {
+      return null;
+    }
+    const start = parseInt(match[1], 10);
+    const end = match[2] ? parseInt(match[2], 10) : undefined;
+    ranges.push(end !== undefined && end !== start ? { start, end } : { start });
   }
-  const index = Math.abs(hash) % allScriptures.length;
-  return allScriptures[index];
+
+  return ranges;
 };
 
 /**
- * Get today's date string in YYYY-MM-DD format
+ * Format verse ranges for display, e.g. "21", "28-29" or "10, 15-16"
  */
-export const getTodayDateString = (): string => {
-  return new Date().toISOString().split('T')[0];
+export const formatVerses = (verses: VerseRange[]): string => {
+  return verses
+    .map(({ start, end }) => (end !== undefined && end !== start ? `${start}-${end}` : `${start}`))
+    .join(', ');
+};
+
+/**
+ * Format a full reference for display, e.g. "2 Nephi 9:28-29"
+ */
+export const formatReference = (reference: ScriptureReference): string => {
+  return `${reference.book} ${reference.chapter}:${formatVerses(reference.verses)}`;
+};
+
+/**
+ * Build a guess string from picked parts, keeping only what the mode asks for,
+ * e.g. "Alma", "Alma 32" or "Alma 32:21"
+ */
+export const buildGuess = (
+  book: string,
+  mode: GameMode,
+  chapter?: number,
+  verse?: number
+): string => {
+  if (mode === 'easy' || chapter === undefined) return book;
+  if (mode === 'medium' || verse === undefined) return `${book} ${chapter}`;
+  return `${book} ${chapter}:${verse}`;
+};
+
+/**
+ * Check whether any verse in one list of ranges also appears in the other
+ */
+const versesOverlap = (a: VerseRange[], b: VerseRange[]): boolean => {
+  return a.some((x) =>
+    b.some((y) => x.start <= (y.end ?? y.start) && y.start <= (x.end ?? x.start))
+  );
+};
+
+/**
+ * Upgrade a scripture saved before verse ranges were modelled, when
+ * references stored `verse` as a number or a string like "28-29",
+ * or before scriptures carried an id
+ */
+export const normalizeStoredScripture = (scripture: Scripture): Scripture => {
+  const reference = scripture.reference as ScriptureReference & { verse?: number | string };
+  if (reference.verses || reference.verse === undefined) {
+    return scripture.id ? scripture : { ...scripture, id: getScriptureId(scripture.reference) };
+  }
+
+  const { verse, ...rest } = reference;
+  const verses = parseVerseList(String(verse)) ?? [];
+  return {
+    ...scripture,
+    id: getScriptureId({ ...rest, verses }),
+    reference: { ...rest, verses },
+  };
+};
+
+/**
+ * Re-key per-passage progress saved under formatted references (e.g. "Alma 32:21")
+ * by scripture id. Keys that are already ids, or match no passage, are kept as they are.
+ */
+export const migrateReferenceKeys = <T>(entries: Record<string, T>): Record<string, T> => {
+  const idsByReference = new Map(
+    allScriptures.map((scripture) => [formatReference(scripture.reference), scripture.id])
+  );
+  return Object.fromEntries(
+    Object.entries(entries).map(([key, value]) => [idsByReference.get(key) ?? key, value])
+  );
 };
 
 /**
  * Parse a guess into book and reference parts for proper comparison
- * Handles formats like "John 3", "Alma 32:21", "D&C 76", "1 Nephi 3:7"
+ * Handles formats like "John 3", "Alma 32:21", "D&C 76", "1 Ne. 3:7", "Hel5:12",
+ * and verse ranges or lists like "2 Nephi 9:28-29" and "D&C 18:10, 15-16".
+ * The book is resolved to its canonical name when it can be matched, and a lone
+ * number after a book cited by verse ("A of F 13") is read as that verse.
  */
-const parseGuess = (guess: string): { book: string; chapter?: string; verse?: string } => {
+export const parseGuess = (
+  guess: string,
+  options?: BookMatchOptions
+): { book: string; chapter?: string; verseText?: string; verses?: VerseRange[] } => {
   const trimmed = guess.trim();
 
-  // Match patterns like "Book Chapter:Verse", "Book Chapter", or just "Book"
+  // Match patterns like "Book Chapter:Verses", "Book Chapter", or just "Book"
   // Handles numbered books like "1 Nephi", "2 Kings", etc.
-  const match = trimmed.match(/^(.+?)\s+(\d+)(?::(\d+(?:-\d+)?))?$/);
+  const match = trimmed.match(/^(.*?[^\d\s.])\.?\s*(\d+)(?:\s*:\s*(\d[\d\s,\-–—]*))?$/);
+  const book = match ? match[1] : trimmed;
+  const resolvedBook = resolveBookName(book, options);
+  let chapter = match?.[2];
+  let verseText = match?.[3]?.trim();
+
+  if (chapter && !verseText && resolvedBook && canonBookIndex.get(resolvedBook)?.citedByVerse) {
+    verseText = chapter;
+    chapter = '1';
+  }
+
+  return {
+    book: resolvedBook ?? book,
+    chapter,
+    verseText,
+    verses: verseText ? parseVerseList(verseText) ?? undefined : undefined,
+  };
+};
+
+/**
+ * Explain why a guess cannot be a real reference, e.g. "Alma has only 63 chapters".
+ * Returns null when the book, chapter and verses all exist in the canon catalog.
+ */
+export const getInvalidReferenceMessage = (
+  guess: string,
+  options?: BookMatchOptions
+): string | null => {
+  // A colon with no verse after it ("Alma 32:") is checked up to the colon
+  const missingVerse = guess.trim().match(/^(.*\d)\s*:$/);
+  const parsed = parseGuess(missingVerse ? missingVerse[1] : guess, options);
+  const book = findCanonBook(parsed.book, options);
 
-  if (match) {
-    return {
-      book: match[1],
-      chapter: match[2],
-      verse: match[3],
-    };
+  if (!book) {
+    return `"${parsed.book}" isn't a book in the standard works`;
   }
+  if (!parsed.chapter) {
+    return null;
+  }
+
+  // D&C is divided into sections rather than chapters
+  const unit = book.collection === 'DC' ? 'section' : 'chapter';
+  const chapterCount = book.chapterVerses.length;
+  const chapter = parseInt(parsed.chapter, 10);
+
+  if (chapter < 1) {
+    return `${book.name} ${unit}s start at 1`;
+  }
+  if (chapter > chapterCount) {
+    return `${book.name} has only ${chapterCount} ${unit}${chapterCount === 1 ? '' : 's'}`;
+  }
+  if (!parsed.verseText) {
+    return missingVerse ? `"${book.name} ${chapter}:" is missing a verse` : null;
+  }
+  if (!parsed.verses) {
+    return `Couldn't read the verses "${parsed.verseText}"`;
+  }
+
+  const verseCount = book.chapterVerses[chapter - 1];
+
+  for (const { start, end = start } of parsed.verses) {
+    if (start < 1) {
+      return 'Verses start at 1';
+    }
+    if (end < start) {
+      return `${start}-${end} isn't a valid verse range`;
+    }
+    if (end > verseCount) {
+      const citation = book.citedByVerse ? book.name : `${book.name} ${chapter}`;
+      return `${citation} has only ${verseCount} verse${verseCount === 1 ? '' : 's'}`;
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Suggest book names from the canon catalog while the player is typing a book.
+ * Books whose name or an abbreviation starts with the input come first, then
+ * books with a matching word (so "nephi" suggests every Nephi book).
+ * No suggestions once a chapter is typed.
+ */
+export const getBookSuggestions = (input: string, limit: number = 4): string[] => {
+  const query = input.trim().toLowerCase();
+  if (!query || parseGuess(query).chapter) {
+    return [];
+  }
+
+  const queryKey = toBookKey(query);
+  const prefixMatches: string[] = [];
+  const wordMatches: string[] = [];
 
-  // No chapter/verse found, entire guess is the book name
-  return { book: trimmed };
+  for (const { name } of canonBooks) {
+    const lowerName = name.toLowerCase();
+    if (lowerName === query) {
+      continue;
+    }
+    const keys = [name, ...(bookAliases[name] ?? [])].map(toBookKey);
+    if (lowerName.startsWith(query) || keys.some((key) => key.startsWith(queryKey))) {
+      prefixMatches.push(name);
+    } else if (lowerName.split(/[\s—]+/).some((word) => word.startsWith(query))) {
+      wordMatches.push(name);
+    }
+  }
+
+  return [...prefixMatches, ...wordMatches].slice(0, limit);
+};
+
+/**
+ * Grade a guess with partial credit: which parts are right, how many chapters
+ * off it was, and the points earned under the mode's points scheme
+ * @param options - Book matching options (e.g. strict spelling)
+ */
+export const gradeGuess = (
+  scripture: Scripture,
+  guess: string,
+  mode: GameMode,
+  options?: BookMatchOptions
+): GuessResult => {
+  const { book, chapter, verses } = scripture.reference;
+  const scheme = POINTS_SCHEMES[mode];
+  const parsed = parseGuess(guess, options);
+
+  const bookCorrect = normalizeBookName(parsed.book, options) === normalizeBookName(book);
+  const guessedChapter = parsed.chapter ? parseInt(parsed.chapter, 10) : null;
+  const chapterDistance =
+    bookCorrect && guessedChapter !== null ? Math.abs(guessedChapter - chapter) : null;
+  const chapterCorrect = chapterDistance === 0;
+  // Any guessed verse inside the passage counts
+  const verseCorrect = chapterCorrect && !!parsed.verses && versesOverlap(parsed.verses, verses);
+
+  let points = bookCorrect ? scheme.book : 0;
+  if (chapterDistance !== null) {
+    points += Math.round(scheme.chapter * (NEAR_CHAPTER_CREDIT[chapterDistance] ?? 0));
+  }
+  if (verseCorrect) {
+    points += scheme.verse;
+  }
+
+  const isCorrect =
+    mode === 'easy' ? bookCorrect : mode === 'medium' ? chapterCorrect : verseCorrect;
+
+  return {
+    isCorrect,
+    bookCorrect,
+    chapterCorrect,
+    verseCorrect,
+    chapterDistance,
+    points,
+    maxPoints: POINTS_PER_QUESTION,
+  };
+};
+
+/**
+ * Bonus points for a correct speed-round answer, shrinking linearly as the
+ * clock runs down
+ */
+export const getSpeedBonus = (secondsLeft: number): number => {
+  const share = Math.min(Math.max(secondsLeft / SPEED_SECONDS_PER_QUESTION, 0), 1);
+  return Math.round(SPEED_MAX_BONUS * share);
 };
 
 /**
  * Check if a guess is correct based on the game mode
+ * @param options - Book matching options (e.g. strict spelling)
  */
 export const checkGuess = (
   scripture: Scripture,
   guess: string,
-  mode: GameMode
+  mode: GameMode,
+  options?: BookMatchOptions
 ): boolean => {
-  const { book, chapter, verse } = scripture.reference;
-  const normalizedBook = normalizeBookName(book);
-  const parsed = parseGuess(guess);
-  const guessedBook = normalizeBookName(parsed.book);
-
-  switch (mode) {
-    case "easy":
-      // Just check the book name
-      return guessedBook === normalizedBook;
-    case "medium":
-      // Check book and chapter
-      return guessedBook === normalizedBook && parsed.chapter === String(chapter);
-    case "hard":
-      // Check book, chapter, and verse
-      return (
-        guessedBook === normalizedBook &&
-        parsed.chapter === String(chapter) &&
-        parsed.verse === String(verse)
-      );
-    default:
-      return false;
-  }
+  return gradeGuess(scripture, guess, mode, options).isCorrect;
 };
 
 /**
@@ -182,23 +667,46 @@ const stringToSeed = (str: string): number => {
   return Math.abs(hash);
 };
 
+/**
+ * Deterministic random number generator for a string seed, for modes that
+ * must look the same to both challenge players (e.g. which words are blanked)
+ */
+export const createSeededRandom = (seed: string): () => number => {
+  return seededRandom(stringToSeed(seed));
+};
+
+/**
+ * Shuffle a copy of the items with the given random source (Fisher-Yates)
+ */
+export const shuffleWith = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
 /**
  * Get scriptures for a multiplayer challenge using a deterministic seed.
  * Both players will get the exact same scriptures in the same order.
  *
  * @param seed - Unique identifier (e.g., challenge ID or code)
  * @param count - Number of scriptures to select (3, 5, or 10)
+ * @param collections - Collections to draw from (defaults to all)
  * @returns Array of unique scriptures
  */
 export const getScripturesForChallenge = (
   seed: string,
-  count: QuestionCount
+  count: QuestionCount,
+  collections: ScriptureCollection[] = []
 ): Scripture[] => {
   const numericSeed = stringToSeed(seed);
   const random = seededRandom(numericSeed);
+  const pool = getScripturesByCollections(collections);
 
   // Create a copy of indices and shuffle using seeded random
-  const indices = Array.from({ length: allScriptures.length }, (_, i) => i);
+  const indices = Array.from({ length: pool.length }, (_, i) => i);
 
   // Fisher-Yates shuffle with seeded random
   for (let i = indices.length - 1; i > 0; i--) {
@@ -207,7 +715,106 @@ export const getScripturesForChallenge = (
   }
 
   // Take the first 'count' scriptures
-  return indices.slice(0, count).map(index => allScriptures[index]);
+  return indices.slice(0, count).map(index => pool[index]);
+};
+
+// Number of options shown in a multiple-choice question
+export const CHOICE_COUNT = 4;
+
+/**
+ * Build the options for a multiple-choice question: the answer plus plausible
+ * distractors at the precision the mode asks for. Easy draws other books from
+ * the same volume; medium mixes in a neighboring chapter; hard stays within
+ * the same book. The same seed always yields the same options in the same
+ * order, so challenge players see identical questions.
+ *
+ * @param seed - e.g. the challenge code plus question index
+ * @param pool - Scriptures whose references are used as distractors
+ */
+export const getAnswerChoices = (
+  scripture: Scripture,
+  mode: GameMode,
+  seed: string,
+  pool: Scripture[] = allScriptures
+): string[] => {
+  const random = createSeededRandom(seed);
+  const shuffle = <T>(items: T[]): T[] => shuffleWith(items, random);
+
+  const { chapter, verses } = scripture.reference;
+  const canon = findCanonBook(scripture.reference.book);
+  const book = canon?.name ?? scripture.reference.book;
+  const firstVerse = verses[0]?.start ?? 1;
+  const lastVerse = verses[verses.length - 1]?.end ?? verses[verses.length - 1]?.start ?? firstVerse;
+
+  // Canonical names keep the answer from standing out against the distractors
+  const toChoice = (s: Scripture): string =>
+    buildGuess(
+      findCanonBook(s.reference.book)?.name ?? s.reference.book,
+      mode,
+      s.reference.chapter,
+      s.reference.verses[0]?.start ?? 1
+    );
+  const others = pool.filter((s) => s !== scripture);
+  const sameVolume = others.filter(
+    (s) => canon && findCanonBook(s.reference.book)?.collection === canon.collection
+  );
+  const sameBook = others.filter((s) => findCanonBook(s.reference.book)?.name === book);
+
+  const choices = [buildGuess(book, mode, chapter, firstVerse)];
+  const add = (candidates: string[], limit: number = CHOICE_COUNT) => {
+    let added = 0;
+    for (const candidate of shuffle(candidates)) {
+      if (choices.length >= CHOICE_COUNT || added >= limit) return;
+      if (choices.includes(candidate) || gradeGuess(scripture, candidate, mode).isCorrect) continue;
+      choices.push(candidate);
+      added++;
+    }
+  };
+
+  if (mode === 'easy') {
+    add(sameVolume.map(toChoice));
+    add(canonBooks.filter((b) => b.collection === canon?.collection).map((b) => b.name));
+    // D&C is a single book, so borrow from the other volumes
+    add(canonBooks.map((b) => b.name));
+  } else {
+    const chapterCount = canon?.chapterVerses.length ?? chapter;
+    const nearChapters = [-2, -1, 1, 2]
+      .map((d) => chapter + d)
+      .filter((c) => c >= 1 && c <= chapterCount);
+
+    if (mode === 'medium') {
+      // One neighbor at most, so the answer isn't simply the middle option
+      add(nearChapters.map((c) => buildGuess(book, mode, c)), 1);
+      add(sameVolume.map(toChoice));
+      add(Array.from({ length: chapterCount }, (_, i) => buildGuess(book, mode, i + 1)));
+    } else {
+      const verseCount = canon?.chapterVerses[chapter - 1] ?? lastVerse;
+      const nearVerses = [-3, -2, -1]
+        .map((d) => firstVerse + d)
+        .concat([1, 2, 3].map((d) => lastVerse + d))
+        .filter((v) => v >= 1 && v <= verseCount);
+      add(nearVerses.map((v) => buildGuess(book, mode, chapter, v)), 1);
+      add(
+        nearChapters
+          .filter((c) => !canon || firstVerse <= canon.chapterVerses[c - 1])
+          .map((c) => buildGuess(book, mode, c, firstVerse)),
+        1
+      );
+      add(sameBook.map(toChoice));
+      if (canon) {
+        // Random verses elsewhere in the book
+        const randomRefs = Array.from({ length: 12 }, () => {
+          const c = Math.floor(random() * canon.chapterVerses.length) + 1;
+          const v = Math.floor(random() * canon.chapterVerses[c - 1]) + 1;
+          return buildGuess(book, mode, c, v);
+        });
+        add(randomRefs);
+      }
+    }
+    add(others.map(toChoice));
+  }
+
+  return shuffle(choices);
 };
 
 /**
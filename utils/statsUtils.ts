@@ -0,0 +1,75 @@
+import { AnswerRecord, GameMode, GameStats, Scripture, ScriptureStats } from '@/types/scripture';
+import { WEAKEST_MIN_ATTEMPTS, WEAKEST_PASSAGES_COUNT } from '@/constants/Stats';
+
+const EMPTY_GAME_STATS: GameStats = { correct: 0, incorrect: 0, totalPlayed: 0 };
+
+/**
+ * Fold one graded answer into a passage's stats
+ * @param stats - The passage's stats so far, or undefined if it hasn't been answered
+ */
+export const applyAnswer = (
+  stats: ScriptureStats | undefined,
+  record: AnswerRecord
+): ScriptureStats => {
+  const previous = stats?.byMode[record.mode] ?? EMPTY_GAME_STATS;
+  return {
+    attempts: (stats?.attempts ?? 0) + 1,
+    byMode: {
+      ...stats?.byMode,
+      [record.mode]: {
+        correct: previous.correct + (record.correct ? 1 : 0),
+        incorrect: previous.incorrect + (record.correct ? 0 : 1),
+        totalPlayed: previous.totalPlayed + 1,
+      },
+    },
+    lastSeen: record.answeredAt,
+  };
+};
+
+/**
+ * Answers at one difficulty, or across all of them when no mode is given
+ */
+export const getModeStats = (stats: ScriptureStats | undefined, mode?: GameMode): GameStats => {
+  if (!stats) return EMPTY_GAME_STATS;
+  if (mode) return stats.byMode[mode] ?? EMPTY_GAME_STATS;
+  return Object.values(stats.byMode).reduce<GameStats>(
+    (total, modeStats) => ({
+      correct: total.correct + modeStats.correct,
+      incorrect: total.incorrect + modeStats.incorrect,
+      totalPlayed: total.totalPlayed + modeStats.totalPlayed,
+    }),
+    EMPTY_GAME_STATS
+  );
+};
+
+/**
+ * Share of answers that were correct (0-1), or null if there are none
+ */
+export const getAccuracy = (stats: GameStats): number | null =>
+  stats.totalPlayed > 0 ? stats.correct / stats.totalPlayed : null;
+
+/**
+ * Passages in the pool the player gets wrong most often: lowest accuracy first,
+ * then the most attempted, then the longest since they were last seen
+ * @param mode - Rank by one difficulty, or by all answers when omitted
+ */
+export const getWeakestScriptures = (
+  pool: Scripture[],
+  allStats: Record<string, ScriptureStats>,
+  mode?: GameMode,
+  limit: number = WEAKEST_PASSAGES_COUNT
+): Scripture[] =>
+  pool
+    .map((scripture) => {
+      const stats = allStats[scripture.id];
+      return { scripture, stats, modeStats: getModeStats(stats, mode) };
+    })
+    .filter(({ modeStats }) => modeStats.totalPlayed >= WEAKEST_MIN_ATTEMPTS && modeStats.incorrect > 0)
+    .sort(
+      (a, b) =>
+        (getAccuracy(a.modeStats) ?? 0) - (getAccuracy(b.modeStats) ?? 0) ||
+        b.modeStats.totalPlayed - a.modeStats.totalPlayed ||
+        (a.stats?.lastSeen ?? '').localeCompare(b.stats?.lastSeen ?? '')
+    )
+    .slice(0, limit)
+    .map(({ scripture }) => scripture);
@@ -0,0 +1,128 @@
+import { ReviewState, Scripture } from '@/types/scripture';
+import { POINTS_PER_QUESTION } from '@/constants/Scoring';
+import {
+  STUDY_DEFAULT_EASE,
+  STUDY_FIRST_INTERVAL,
+  STUDY_MIN_EASE,
+  STUDY_NEW_PER_SESSION,
+  STUDY_PASSING_QUALITY,
+  STUDY_SECOND_INTERVAL,
+  STUDY_SESSION_SIZE,
+} from '@/constants/Study';
+import { addDays } from '@/utils/dateUtils';
+
+/**
+ * Rate how well a passage was recalled on the SM-2 scale (0-5):
+ * exact answers score 5, correct answers that lost some points 4,
+ * and misses 2, 1 or 0 depending on how much of the reference was right
+ */
+export const getRecallQuality = (correct: boolean, points: number): number => {
+  const share = points / POINTS_PER_QUESTION;
+  if (correct) return share >= 1 ? 5 : 4;
+  if (share >= 0.5) return 2;
+  return share > 0 ? 1 : 0;
+};
+
+/**
+ * Schedule the next review of a passage with SM-2: recalled passages come back
+ * after 1 day, then 6, then ever longer; missed passages start over tomorrow
+ * @param state - The passage's current schedule, or undefined if it's new
+ * @param quality - Recall quality from 0 (forgotten) to 5 (perfect)
+ * @param today - Date of the review (YYYY-MM-DD)
+ */
+export const scheduleReview = (
+  state: ReviewState | undefined,
+  quality: number,
+  today: string
+): ReviewState => {
+  const previous = state ?? {
+    ease: STUDY_DEFAULT_EASE,
+    interval: 0,
+    repetitions: 0,
+  };
+
+  const ease = Math.max(
+    STUDY_MIN_EASE,
+    previous.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+  if (quality < STUDY_PASSING_QUALITY) {
+    repetitions = 0;
+    interval = STUDY_FIRST_INTERVAL;
+  } else {
+    repetitions = previous.repetitions + 1;
+    interval =
+      repetitions === 1
+        ? STUDY_FIRST_INTERVAL
+        : repetitions === 2
+          ? STUDY_SECOND_INTERVAL
+          : Math.round(previous.interval * ease);
+  }
+
+  return {
+    ease,
+    interval,
+    repetitions,
+    dueDate: addDays(today, interval),
+    lastReviewed: today,
+  };
+};
+
+/**
+ * Scriptures in the pool whose next review is on or before today, most overdue first
+ */
+export const getDueScriptures = (
+  pool: Scripture[],
+  reviews: Record<string, ReviewState>,
+  today: string
+): Scripture[] =>
+  pool
+    .filter((scripture) => {
+      const review = reviews[scripture.id];
+      return !!review && review.dueDate <= today;
+    })
+    .sort((a, b) =>
+      reviews[a.id].dueDate.localeCompare(reviews[b.id].dueDate)
+    );
+
+/**
+ * Scriptures in the pool that have never been studied
+ */
+export const getNewScriptures = (
+  pool: Scripture[],
+  reviews: Record<string, ReviewState>
+): Scripture[] => pool.filter((scripture) => !reviews[scripture.id]);
+
+/**
+ * Passages for one study session: due reviews first, topped up with a few
+ * new passages in pool order
+ */
+export const getStudyQueue = (
+  pool: Scripture[],
+  reviews: Record<string, ReviewState>,
+  today: string
+): Scripture[] => {
+  const due = getDueScriptures(pool, reviews, today).slice(0, STUDY_SESSION_SIZE);
+  const newCount = Math.min(STUDY_NEW_PER_SESSION, STUDY_SESSION_SIZE - due.length);
+  return [...due, ...getNewScriptures(pool, reviews).slice(0, newCount)];
+};
+
+/**
+ * Combine two sets of review states, keeping the most recently reviewed
+ * schedule for each passage
+ */
+export const mergeReviews = (
+  local: Record<string, ReviewState>,
+  remote: Record<string, ReviewState>
+): Record<string, ReviewState> => {
+  const merged = { ...local };
+  Object.entries(remote).forEach(([key, review]) => {
+    const existing = merged[key];
+    if (!existing || review.lastReviewed > existing.lastReviewed) {
+      merged[key] = review;
+    }
+  });
+  return merged;
+};
@@ -0,0 +1,331 @@
+// utils/textUtils.ts
+import {
+  GameMode,
+  RecallResult,
+  WordDiffPart,
+  ClozePassage,
+  ClozeResult,
+  ScrambleChunk,
+  ScramblePuzzle,
+  ScrambleResult,
+} from '@/types/scripture';
+import {
+  POINTS_PER_QUESTION,
+  RECALL_THRESHOLDS,
+  MIN_RECALL_PRECISION,
+  CLOZE_BLANKS,
+  CLOZE_PASS_SHARE,
+  SCRAMBLE_WORDS_PER_TILE,
+  SCRAMBLE_MIN_CHUNK_WORDS,
+  SCRAMBLE_MAX_CHUNK_WORDS,
+  SCRAMBLE_MISTAKE_PENALTY,
+  SCRAMBLE_SECONDS_PER_TILE,
+  SCRAMBLE_MAX_TIME_PENALTY,
+  SCRAMBLE_PASS_POINTS,
+} from '@/constants/Scoring';
+import { createSeededRandom, shuffleWith } from '@/utils/scriptureUtils';
+
+// Words too common to be worth blanking
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'had', 'has',
+  'have', 'he', 'her', 'him', 'his', 'i', 'in', 'is', 'it', 'its', 'me', 'my', 'not',
+  'of', 'on', 'or', 'our', 'shall', 'she', 'so', 'that', 'the', 'thee', 'their', 'them',
+  'then', 'there', 'these', 'they', 'thou', 'thy', 'this', 'those', 'to', 'unto', 'up',
+  'us', 'was', 'we', 'were', 'which', 'who', 'will', 'with', 'ye', 'you', 'your',
+]);
+
+/**
+ * Reduce a word to lowercase letters and digits so punctuation and case
+ * never count against a player ("Lord," matches "lord")
+ */
+export const normalizeWord = (word: string): string => {
+  return word
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, '');
+};
+
+/**
+ * Split text into display words, breaking on whitespace and dashes and
+ * dropping tokens that are only punctuation
+ */
+export const splitWords = (text: string): string[] => {
+  return text.split(/[\s—–-]+/).filter((word) => normalizeWord(word) !== '');
+};
+
+/**
+ * Split a passage into tokens for display: words keep their punctuation and
+ * dashes become their own tokens, so the passage can be rebuilt exactly
+ */
+export const tokenizePassage = (text: string): string[] => {
+  return text
+    .split(/\s+/)
+    .flatMap((token) => token.split(/([—–])/))
+    .filter((token) => token !== '');
+};
+
+/**
+ * Rejoin tokens into readable text, without spaces around dashes
+ */
+export const joinTokens = (tokens: string[]): string => {
+  return tokens.reduce((text, token, index) => {
+    if (index === 0) return token;
+    const attach = /^[—–]$/.test(token) || /^[—–]$/.test(tokens[index - 1]);
+    return attach ? text + token : `${text} ${token}`;
+  }, '');
+};
+
+/**
+ * Split a token into leading punctuation, the word itself and trailing
+ * punctuation, e.g. "(Lord," → ["(", "Lord", ","]
+ */
+export const splitTokenPunctuation = (token: string): [string, string, string] => {
+  const match = token.match(/^([^A-Za-z0-9]*)(.*?)([^A-Za-z0-9]*)$/);
+  return match ? [match[1], match[2], match[3]] : ['', token, ''];
+};
+
+/**
+ * Reduce a share of a passage's words to their first letter, keeping
+ * punctuation ("And it came to pass," → "A i c t p,"). Words are picked in a
+ * seeded order, so a larger share abbreviates every word a smaller one did.
+ *
+ * @param share - 0-1 share of words to abbreviate
+ * @param seed - e.g. the passage's reference, so rounds stay consistent
+ */
+export const abbreviatePassage = (text: string, share: number, seed: string): string => {
+  const tokens = tokenizePassage(text);
+  const wordIndices = tokens
+    .map((token, index) => (normalizeWord(token) !== '' ? index : -1))
+    .filter((index) => index !== -1);
+  const count = Math.round(wordIndices.length * Math.min(Math.max(share, 0), 1));
+  const abbreviated = new Set(shuffleWith(wordIndices, createSeededRandom(seed)).slice(0, count));
+
+  return joinTokens(
+    tokens.map((token, index) => {
+      if (!abbreviated.has(index)) return token;
+      const [before, word, after] = splitTokenPunctuation(token);
+      return `${before}${word.charAt(0)}${after}`;
+    })
+  );
+};
+
+/**
+ * Word-level diff of what was typed against a passage, ignoring punctuation
+ * and case. Passage words come back as matched or missed, in passage order,
+ * with typed words that aren't in the passage interleaved as extra.
+ */
+export const diffWords = (expected: string, actual: string): WordDiffPart[] => {
+  const a = splitWords(expected);
+  const b = splitWords(actual);
+  const na = a.map(normalizeWord);
+  const nb = b.map(normalizeWord);
+
+  // Longest common subsequence table, filled from the end
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        na[i] === nb[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && na[i] === nb[j]) {
+      parts.push({ word: a[i], status: 'matched' });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      parts.push({ word: b[j], status: 'extra' });
+      j++;
+    } else {
+      parts.push({ word: a[i], status: 'missed' });
+      i++;
+    }
+  }
+
+  return parts;
+};
+
+/**
+ * Grade a passage typed from memory. The share of passage words recalled in
+ * order must reach the mode's threshold, and most typed words must belong to
+ * the passage. Points scale up to full marks at the threshold.
+ */
+export const gradeRecall = (text: string, guess: string, mode: GameMode): RecallResult => {
+  const diff = diffWords(text, guess);
+  const matchedWords = diff.filter((part) => part.status === 'matched').length;
+  const totalWords = diff.filter((part) => part.status !== 'extra').length;
+  const typedWords = diff.filter((part) => part.status !== 'missed').length;
+
+  const recall = totalWords > 0 ? matchedWords / totalWords : 0;
+  const precision = typedWords > 0 ? matchedWords / typedWords : 0;
+  const threshold = RECALL_THRESHOLDS[mode];
+
+  return {
+    isCorrect: recall >= threshold && precision >= MIN_RECALL_PRECISION,
+    matchedWords,
+    totalWords,
+    similarity: totalWords + typedWords > 0 ? (2 * matchedWords) / (totalWords + typedWords) : 0,
+    points: Math.round(POINTS_PER_QUESTION * Math.min(1, recall / threshold) * precision),
+    maxPoints: POINTS_PER_QUESTION,
+    diff,
+  };
+};
+
+/**
+ * Blank out key words of a passage for fill-in-the-blank. Stop-words and very
+ * short words are never blanked, harder modes blank more, blanks avoid
+ * sitting side by side where possible, and the same seed always blanks the
+ * same words.
+ *
+ * @param seed - e.g. the challenge code plus question index
+ */
+export const getClozePassage = (text: string, mode: GameMode, seed: string): ClozePassage => {
+  const tokens = tokenizePassage(text);
+  const candidates = tokens
+    .map((token, index) => ({ index, word: normalizeWord(token) }))
+    .filter(({ word }) => word.length >= 3 && !STOP_WORDS.has(word))
+    .map(({ index }) => index);
+
+  const wordCount = tokens.filter((token) => normalizeWord(token) !== '').length;
+  const { ratio, max } = CLOZE_BLANKS[mode];
+  const count = Math.min(candidates.length, max, Math.max(1, Math.round(wordCount * ratio)));
+
+  const shuffled = shuffleWith(candidates, createSeededRandom(seed));
+  const chosen = new Set<number>();
+  for (const index of shuffled) {
+    if (chosen.size >= count) break;
+    if (!chosen.has(index - 1) && !chosen.has(index + 1)) chosen.add(index);
+  }
+  // Short passages may need neighboring blanks to reach the count
+  for (const index of shuffled) {
+    if (chosen.size >= count) break;
+    chosen.add(index);
+  }
+
+  return { tokens, blanks: [...chosen].sort((a, b) => a - b) };
+};
+
+/**
+ * Grade the words filled into a cloze passage, ignoring punctuation and case.
+ * `answers` lines up with `cloze.blanks`.
+ */
+export const gradeCloze = (cloze: ClozePassage, answers: string[]): ClozeResult => {
+  const graded = cloze.blanks.map((index, i) => {
+    const expected = splitTokenPunctuation(cloze.tokens[index])[1];
+    const given = answers[i] ?? '';
+    return { index, expected, given, correct: normalizeWord(given) === normalizeWord(expected) };
+  });
+  const correctBlanks = graded.filter((answer) => answer.correct).length;
+  const totalBlanks = graded.length;
+  const share = totalBlanks > 0 ? correctBlanks / totalBlanks : 0;
+
+  return {
+    isCorrect: share >= CLOZE_PASS_SHARE,
+    correctBlanks,
+    totalBlanks,
+    answers: graded,
+    points: Math.round(POINTS_PER_QUESTION * share),
+    maxPoints: POINTS_PER_QUESTION,
+  };
+};
+
+/**
+ * Split a passage into chunks of words for word scramble: one sentence per
+ * chunk, with short sentences merged and long ones divided evenly. Dashes
+ * stay attached to their words so no tile is only punctuation.
+ */
+const getScrambleChunks = (text: string): string[][] => {
+  const words: string[] = [];
+  const tokens = tokenizePassage(text);
+  tokens.forEach((token, index) => {
+    const attach = index > 0 && (/^[—–]$/.test(token) || /^[—–]$/.test(tokens[index - 1]));
+    if (attach && words.length > 0) {
+      words[words.length - 1] += token;
+    } else {
+      words.push(token);
+    }
+  });
+
+  const sentences: string[][] = [[]];
+  for (const word of words) {
+    sentences[sentences.length - 1].push(word);
+    if (/[.?!;:]["')]*$/.test(word)) sentences.push([]);
+  }
+
+  const chunks: string[][] = [];
+  for (const sentence of sentences.filter((s) => s.length > 0)) {
+    const parts = Math.ceil(sentence.length / SCRAMBLE_MAX_CHUNK_WORDS);
+    const size = Math.ceil(sentence.length / parts);
+    for (let start = 0; start < sentence.length; start += size) {
+      const part = sentence.slice(start, start + size);
+      const previous = chunks[chunks.length - 1];
+      if (previous && (previous.length < SCRAMBLE_MIN_CHUNK_WORDS || part.length < SCRAMBLE_MIN_CHUNK_WORDS) &&
+          previous.length + part.length <= SCRAMBLE_MAX_CHUNK_WORDS) {
+        previous.push(...part);
+      } else {
+        chunks.push(part);
+      }
+    }
+  }
+  return chunks;
+};
+
+/**
+ * Build a word scramble: the passage split into chunks of tiles, each chunk
+ * shuffled with a seeded RNG so every player of a challenge gets the same
+ * puzzle. Easier modes group words into short phrases.
+ *
+ * @param seed - e.g. the challenge code plus question index
+ */
+export const getScramblePuzzle = (text: string, mode: GameMode, seed: string): ScramblePuzzle => {
+  const random = createSeededRandom(seed);
+  const wordsPerTile = SCRAMBLE_WORDS_PER_TILE[mode];
+
+  const chunks = getScrambleChunks(text).map((words): ScrambleChunk => {
+    const pieces: string[] = [];
+    for (let start = 0; start < words.length; start += wordsPerTile) {
+      pieces.push(words.slice(start, start + wordsPerTile).join(' '));
+    }
+
+    let shuffled = shuffleWith(pieces.map((_, index) => index), random);
+    // Never hand back a chunk that's already in order
+    if (pieces.length > 1 && shuffled.every((index, position) => index === position)) {
+      shuffled = [...shuffled.slice(1), shuffled[0]];
+    }
+    return { pieces, shuffled };
+  });
+
+  return { chunks };
+};
+
+/**
+ * Score a rebuilt word scramble: points are lost for each tile tapped out of
+ * order and for taking longer than the time allowed per tile
+ */
+export const gradeScramble = (
+  puzzle: ScramblePuzzle,
+  mistakes: number,
+  seconds: number
+): ScrambleResult => {
+  const totalPieces = puzzle.chunks.reduce((sum, chunk) => sum + chunk.pieces.length, 0);
+  const allowedSeconds = Math.max(1, totalPieces * SCRAMBLE_SECONDS_PER_TILE);
+  const overtime = Math.max(0, seconds - allowedSeconds) / allowedSeconds;
+  const timePenalty = Math.round(SCRAMBLE_MAX_TIME_PENALTY * Math.min(1, overtime));
+  const points = Math.max(0, POINTS_PER_QUESTION - mistakes * SCRAMBLE_MISTAKE_PENALTY - timePenalty);
+
+  return {
+    isCorrect: points >= SCRAMBLE_PASS_POINTS,
+    mistakes,
+    totalPieces,
+    seconds: Math.round(seconds),
+    points,
+    maxPoints: POINTS_PER_QUESTION,
+  };
+};